@@ -2,11 +2,36 @@ import { useState, useRef, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Play, Pause, Volume2, Download } from 'lucide-react';
+import { type DownloadOptions, type StemId } from '@shared/schema';
+
+const downloadChoices: { label: string; options: DownloadOptions }[] = [
+  { label: 'MP3', options: { format: 'mp3' } },
+  { label: 'WAV (24-bit)', options: { format: 'wav', bitDepth: 24 } },
+  { label: 'WAV (16-bit)', options: { format: 'wav', bitDepth: 16 } },
+  { label: 'FLAC (24-bit)', options: { format: 'flac', bitDepth: 24 } },
+  { label: 'FLAC (16-bit)', options: { format: 'flac', bitDepth: 16 } },
+  { label: 'OGG (FLAC)', options: { format: 'ogg' } },
+];
+
+const stemLabels: Record<StemId, string> = {
+  harmonic: 'Harmonic stem (WAV)',
+  percussive: 'Percussive stem (WAV)',
+  vocals: 'Processed vocal (WAV)',
+};
 
 interface AudioPlayerProps {
   audioFile: File | null;
   convertedAudioUrl?: string;
+  stems?: StemId[];
   onTimeUpdate?: (currentTime: number, duration: number) => void;
   onPlayStateChange?: (isPlaying: boolean) => void;
 }
@@ -14,6 +39,7 @@ interface AudioPlayerProps {
 export default function AudioPlayer({ 
   audioFile, 
   convertedAudioUrl,
+  stems = [],
   onTimeUpdate,
   onPlayStateChange 
 }: AudioPlayerProps) {
@@ -116,23 +142,27 @@ export default function AudioPlayer({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleDownload = async () => {
+  const handleDownload = async (options: DownloadOptions, stem?: StemId) => {
     if (convertedAudioUrl) {
       try {
-        const response = await fetch(convertedAudioUrl);
+        const params = new URLSearchParams({ format: options.format });
+        if (options.bitDepth) params.set('bitDepth', String(options.bitDepth));
+        const url = stem ? `${convertedAudioUrl}/stems/${stem}` : convertedAudioUrl;
+        const response = await fetch(`${url}?${params}`);
         if (!response.ok) {
           throw new Error('Download failed');
         }
         
         const blob = await response.blob();
-        const url = URL.createObjectURL(blob);
+        const blobUrl = URL.createObjectURL(blob);
+        const suffix = stem ?? 'drill_converted';
         const link = document.createElement('a');
-        link.href = url;
+        link.href = blobUrl;
         link.download = audioFile ? 
-          `${audioFile.name.split('.')[0]}_drill_converted.mp3` : 
-          'converted_audio.mp3';
+          `${audioFile.name.split('.')[0]}_${suffix}.${options.format}` : 
+          `converted_audio_${suffix}.${options.format}`;
         link.click();
-        URL.revokeObjectURL(url);
+        URL.revokeObjectURL(blobUrl);
       } catch (error) {
         console.error('Download failed:', error);
       }
@@ -159,15 +189,44 @@ export default function AudioPlayer({
             {convertedAudioUrl ? 'Converted Audio' : 'Original Audio'}
           </h3>
           {convertedAudioUrl && (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleDownload}
-              data-testid="button-download-audio"
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Download
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  data-testid="button-download-audio"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {downloadChoices.map(choice => (
+                  <DropdownMenuItem
+                    key={choice.label}
+                    onSelect={() => handleDownload(choice.options)}
+                    data-testid={`menu-download-${choice.options.format}-${choice.options.bitDepth ?? 'default'}`}
+                  >
+                    {choice.label}
+                  </DropdownMenuItem>
+                ))}
+                {stems.length > 0 && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Stems</DropdownMenuLabel>
+                    {stems.map(stem => (
+                      <DropdownMenuItem
+                        key={stem}
+                        onSelect={() => handleDownload({ format: 'wav', bitDepth: 24 }, stem)}
+                        data-testid={`menu-download-stem-${stem}`}
+                      >
+                        {stemLabels[stem]}
+                      </DropdownMenuItem>
+                    ))}
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
           )}
         </div>
 
@@ -1,18 +1,30 @@
 import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
-import { Zap, Volume, VolumeX } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Zap, Volume, VolumeX, ChevronDown } from 'lucide-react';
+import { conversionPresets, type ConversionParams, type GrooveId, type Intensity } from '@shared/schema';
 
 interface ConversionControlsProps {
-  onConvert: (intensity: string) => void;
+  onConvert: (intensity: Intensity, params: Partial<ConversionParams>, transposeSemitones: number) => void;
   isConverting: boolean;
   selectedFile: File | null;
 }
 
-const intensityLevels = [
+const intensityLevels: {
+  value: Intensity;
+  label: string;
+  description: string;
+  icon: JSX.Element;
+  color: string;
+  features: string[];
+}[] = [
   {
     value: 'soft',
     label: 'Soft',
@@ -39,19 +51,57 @@ const intensityLevels = [
   }
 ];
 
+const grooves: { value: GrooveId; label: string; description: string }[] = [
+  { value: 'classic-uk', label: 'Classic UK', description: 'Sparse kicks, late snare push' },
+  { value: 'ny-drill', label: 'NY Drill', description: 'Syncopated kicks, doubled snare' },
+  { value: 'brooklyn-bounce', label: 'Brooklyn Bounce', description: 'Swung, anticipated snare' },
+];
+
+const loudnessTargets = [
+  { value: -9, label: 'Club', description: '-9 LUFS' },
+  { value: -11, label: 'Loud', description: '-11 LUFS' },
+  { value: -14, label: 'Streaming', description: '-14 LUFS' },
+];
+
 export default function ConversionControls({ 
   onConvert, 
   isConverting, 
   selectedFile 
 }: ConversionControlsProps) {
-  const [selectedIntensity, setSelectedIntensity] = useState('medium');
+  const [selectedIntensity, setSelectedIntensity] = useState<Intensity>('medium');
+  const [params, setParams] = useState<Partial<ConversionParams>>(conversionPresets.medium);
+  const [targetBpm, setTargetBpm] = useState('');
+  const [seed, setSeed] = useState('');
+  const [transposeSemitones, setTransposeSemitones] = useState(0);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  // Blank or out of range leaves the tempo and seed to the server
+  const parsedBpm = Number(targetBpm);
+  const validBpm = targetBpm !== '' && parsedBpm >= 100 && parsedBpm <= 200 ? parsedBpm : undefined;
+  const parsedSeed = Number(seed);
+  const validSeed = seed !== '' && Number.isInteger(parsedSeed) && parsedSeed >= 0 && parsedSeed <= 0xffffffff
+    ? parsedSeed
+    : undefined;
+
+  const updateParams = (updates: Partial<ConversionParams>) => {
+    setParams(prev => ({ ...prev, ...updates }));
+  };
+
+  // Picking an intensity starts the advanced settings over from its preset
+  const handleIntensityChange = (value: string) => {
+    const intensity = value as Intensity;
+    setSelectedIntensity(intensity);
+    setParams(conversionPresets[intensity]);
+  };
 
   const handleConvert = () => {
     if (selectedFile) {
-      onConvert(selectedIntensity);
+      onConvert(selectedIntensity, { ...params, targetBpm: validBpm, seed: validSeed }, transposeSemitones);
     }
   };
 
+  const percent = (value = 0) => `${Math.round(value * 100)}%`;
+
   return (
     <Card className="glassmorphism p-6" data-testid="conversion-controls">
       <div className="space-y-6">
@@ -66,7 +116,7 @@ export default function ConversionControls({
 
         <RadioGroup
           value={selectedIntensity}
-          onValueChange={setSelectedIntensity}
+          onValueChange={handleIntensityChange}
           className="space-y-4"
           data-testid="intensity-selector"
         >
@@ -107,6 +157,188 @@ export default function ConversionControls({
           ))}
         </RadioGroup>
 
+        <div className="space-y-2">
+          <Label htmlFor="groove-selector" className="font-medium">Drum groove</Label>
+          <Select value={params.groove} onValueChange={value => updateParams({ groove: value as GrooveId })}>
+            <SelectTrigger id="groove-selector" data-testid="select-groove">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {grooves.map((groove) => (
+                <SelectItem key={groove.value} value={groove.value} data-testid={`option-groove-${groove.value}`}>
+                  {groove.label}
+                  <span className="text-muted-foreground text-xs ml-2">{groove.description}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="target-bpm" className="font-medium">Target tempo</Label>
+          <Input
+            id="target-bpm"
+            type="number"
+            min={100}
+            max={200}
+            step={1}
+            placeholder="Auto"
+            value={targetBpm}
+            onChange={(e) => setTargetBpm(e.target.value)}
+            data-testid="input-target-bpm"
+          />
+          <p className="text-xs text-muted-foreground">
+            BPM between 100 and 200. Leave blank to conform to drill tempo automatically.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="transpose-slider" className="font-medium">Transpose</Label>
+            <span className="text-sm text-muted-foreground" data-testid="text-transpose-value">
+              {transposeSemitones > 0 ? '+' : ''}{transposeSemitones} semitones
+            </span>
+          </div>
+          <Slider
+            id="transpose-slider"
+            min={-12}
+            max={12}
+            step={1}
+            value={[transposeSemitones]}
+            onValueChange={([value]) => setTransposeSemitones(value)}
+            data-testid="slider-transpose"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="loudness-selector" className="font-medium">Loudness target</Label>
+          <Select value={String(params.targetLufs)} onValueChange={value => updateParams({ targetLufs: Number(value) })}>
+            <SelectTrigger id="loudness-selector" data-testid="select-loudness">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {loudnessTargets.map((target) => (
+                <SelectItem key={target.value} value={String(target.value)} data-testid={`option-loudness-${-target.value}`}>
+                  {target.label}
+                  <span className="text-muted-foreground text-xs ml-2">{target.description}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Collapsible open={showAdvanced} onOpenChange={setShowAdvanced}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="w-full justify-between px-0" data-testid="button-toggle-advanced">
+              <span className="font-medium">Advanced</span>
+              <ChevronDown className={`w-4 h-4 transition-transform ${showAdvanced ? 'rotate-180' : ''}`} />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-5 pt-3" data-testid="advanced-settings">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="bass-level-slider" className="font-medium">808 level</Label>
+                <span className="text-sm text-muted-foreground" data-testid="text-bass-level-value">
+                  {percent(params.bassLevel)}
+                </span>
+              </div>
+              <Slider
+                id="bass-level-slider"
+                min={0}
+                max={1}
+                step={0.05}
+                value={[params.bassLevel ?? 0]}
+                onValueChange={([value]) => updateParams({ bassLevel: value })}
+                data-testid="slider-bass-level"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="hat-density-slider" className="font-medium">Hat density</Label>
+                <span className="text-sm text-muted-foreground" data-testid="text-hat-density-value">
+                  {percent(params.hatDensity)}
+                </span>
+              </div>
+              <Slider
+                id="hat-density-slider"
+                min={0}
+                max={1}
+                step={0.05}
+                value={[params.hatDensity ?? 0]}
+                onValueChange={([value]) => updateParams({ hatDensity: value })}
+                data-testid="slider-hat-density"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="swing-slider" className="font-medium">Swing</Label>
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-muted-foreground" data-testid="text-swing-value">
+                    {params.swing === undefined ? 'Groove default' : percent(params.swing)}
+                  </span>
+                  {params.swing !== undefined && (
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => updateParams({ swing: undefined })}
+                      data-testid="button-reset-swing"
+                    >
+                      Reset
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <Slider
+                id="swing-slider"
+                min={0}
+                max={0.5}
+                step={0.01}
+                value={[params.swing ?? 0]}
+                onValueChange={([value]) => updateParams({ swing: value })}
+                data-testid="slider-swing"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="vocal-darkness-slider" className="font-medium">Vocal darkness</Label>
+                <span className="text-sm text-muted-foreground" data-testid="text-vocal-darkness-value">
+                  {percent(params.vocalDarkness)}
+                </span>
+              </div>
+              <Slider
+                id="vocal-darkness-slider"
+                min={0}
+                max={1}
+                step={0.05}
+                value={[params.vocalDarkness ?? 0]}
+                onValueChange={([value]) => updateParams({ vocalDarkness: value })}
+                data-testid="slider-vocal-darkness"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="seed" className="font-medium">Seed</Label>
+              <Input
+                id="seed"
+                type="number"
+                min={0}
+                step={1}
+                placeholder="Random"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                data-testid="input-seed"
+              />
+              <p className="text-xs text-muted-foreground">
+                The same seed and settings give the same drums, 808 line and atmosphere.
+              </p>
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+
         <div className="pt-4 border-t border-border">
           <Button
             onClick={handleConvert}
@@ -0,0 +1,87 @@
+import { useQuery } from '@tanstack/react-query';
+import { useConversionFeed } from '@/hooks/use-conversion-feed';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Download } from 'lucide-react';
+import { type Conversion } from '@shared/schema';
+import { pipelineStages } from '@shared/pipeline';
+import { conversionState, type ConversionState } from '@shared/ws';
+
+// The socket takes at most this many conversions per subscribe message.
+const MAX_FOLLOWED = 100;
+
+const statusColors: Record<Conversion['status'], string> = {
+  completed: 'bg-accent/20 text-accent',
+  failed: 'bg-destructive/20 text-destructive',
+  processing: 'bg-secondary/20 text-secondary',
+  pending: 'bg-muted/20 text-muted-foreground',
+  cancelled: 'bg-muted/20 text-muted-foreground',
+};
+
+function describe(state: ConversionState): string | null {
+  if (state.status === 'pending' && state.queuePosition !== null) {
+    return state.queuePosition === 1 ? 'Next up' : `Position ${state.queuePosition} in queue`;
+  }
+  if (state.status === 'processing') {
+    return pipelineStages.find(step => step.id === state.stage)?.label ?? null;
+  }
+  if (state.status === 'failed') return state.error?.message ?? null;
+  return null;
+}
+
+// Recent conversions, kept live over the conversion socket.
+export default function ConversionHistory() {
+  const { data: conversions = [] } = useQuery<Conversion[]>({ queryKey: ['/api/conversions'] });
+  const recent = [...conversions]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, MAX_FOLLOWED);
+  const live = useConversionFeed(recent.map(conversion => conversion.id));
+
+  if (recent.length === 0) return null;
+
+  return (
+    <Card className="glassmorphism p-6" data-testid="conversion-history">
+      <h3 className="text-lg font-semibold mb-4 gradient-text">
+        Recent Conversions
+      </h3>
+      <div className="space-y-4">
+        {recent.map(conversion => {
+          const state = live[conversion.id] ?? conversionState(conversion);
+          const detail = describe(state);
+          const analysis = [state.bpm && `${Math.round(state.bpm)} BPM`, state.key].filter(Boolean).join(', ');
+          return (
+            <div key={conversion.id} className="space-y-2" data-testid={`history-${conversion.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{conversion.originalFilename}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {conversion.intensity.charAt(0).toUpperCase() + conversion.intensity.slice(1)}
+                    {analysis && ` · ${analysis}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <Badge className={statusColors[state.status]}>
+                    {state.status.charAt(0).toUpperCase() + state.status.slice(1)}
+                  </Badge>
+                  {state.status === 'completed' && (
+                    <a
+                      href={`/api/download/${conversion.id}`}
+                      className="text-muted-foreground hover:text-foreground"
+                      aria-label={`Download ${conversion.originalFilename}`}
+                      data-testid={`link-download-${conversion.id}`}
+                    >
+                      <Download className="w-4 h-4" />
+                    </a>
+                  )}
+                </div>
+              </div>
+              {state.status === 'processing' && <Progress value={state.progress} className="h-1.5" />}
+              {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -38,6 +38,7 @@ export default function FileUpload({ onFileSelect, selectedFile, onClear, disabl
       'audio/wav': ['.wav'],
       'audio/mp4': ['.m4a'],
       'audio/m4a': ['.m4a'],
+      'audio/x-m4a': ['.m4a'],
     },
     maxFiles: 1,
     disabled,
@@ -2,29 +2,31 @@ import { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, AlertCircle, Loader } from 'lucide-react';
-import { type Conversion } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, AlertCircle, Loader, XCircle, RotateCcw } from 'lucide-react';
+import { type Conversion, type ConversionMetadata } from '@shared/schema';
+import { pipelineStages } from '@shared/pipeline';
+import { type ConversionSnapshot } from '@shared/events';
 
 interface ProcessingProgressProps {
   conversion: Conversion | null;
   isVisible: boolean;
+  onCancel?: () => void;
+  isCancelling?: boolean;
+  onRetry?: () => void;
+  isRetrying?: boolean;
+  // Results the server has pushed while the conversion renders.
+  analysis?: Pick<ConversionSnapshot, 'bpm' | 'key'>;
 }
 
-const processingSteps = [
-  { label: 'Analyzing audio structure', progress: 10 },
-  { label: 'Extracting tempo and key', progress: 20 },
-  { label: 'Generating 808 patterns', progress: 30 },
-  { label: 'Adding hi-hat sequences', progress: 45 },
-  { label: 'Processing bass lines', progress: 60 },
-  { label: 'Applying vocal effects', progress: 75 },
-  { label: 'Mixing and mastering', progress: 85 },
-  { label: 'Finalizing output', progress: 95 },
-  { label: 'Conversion complete', progress: 100 },
-];
-
 export default function ProcessingProgress({ 
   conversion, 
-  isVisible 
+  isVisible,
+  onCancel,
+  isCancelling = false,
+  onRetry,
+  isRetrying = false,
+  analysis,
 }: ProcessingProgressProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [animatedProgress, setAnimatedProgress] = useState(0);
@@ -46,25 +48,41 @@ export default function ProcessingProgress({
       });
     }, 50);
 
-    // Update current step based on progress
-    const stepIndex = processingSteps.findIndex(step => step.progress >= targetProgress);
+    // Follow the stage the server reports, falling back to progress bounds
+    const metadata = conversion.metadata as ConversionMetadata | null;
+    const reportedIndex = pipelineStages.findIndex(step => step.id === metadata?.stage);
+    const stepIndex = reportedIndex >= 0
+      ? reportedIndex
+      : pipelineStages.findIndex(step => step.progress > targetProgress);
     if (stepIndex >= 0) {
       setCurrentStep(stepIndex);
     }
 
     return () => clearInterval(interval);
-  }, [conversion?.progress, isVisible, animatedProgress]);
+  }, [conversion?.progress, conversion?.metadata, isVisible, animatedProgress]);
 
   if (!isVisible || !conversion) {
     return null;
   }
 
+  const metadata = conversion.metadata as ConversionMetadata | null;
+  const { error } = conversion;
+  const failedStage = pipelineStages.find(step => step.id === error?.stage);
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
   const getStatusIcon = () => {
     switch (conversion.status) {
       case 'completed':
         return <CheckCircle className="w-5 h-5 text-accent" />;
       case 'failed':
         return <AlertCircle className="w-5 h-5 text-destructive" />;
+      case 'cancelled':
+        return <XCircle className="w-5 h-5 text-muted-foreground" />;
       case 'processing':
       case 'pending':
       default:
@@ -80,6 +98,7 @@ export default function ProcessingProgress({
         return 'bg-destructive/20 text-destructive';
       case 'processing':
         return 'bg-secondary/20 text-secondary';
+      case 'cancelled':
       case 'pending':
       default:
         return 'bg-muted/20 text-muted-foreground';
@@ -120,13 +139,25 @@ export default function ProcessingProgress({
           </div>
         </div>
 
+        {conversion.status === 'pending' && error && (
+          <p className="text-sm text-muted-foreground" data-testid="text-retrying">
+            Attempt {conversion.attempts} failed: {error.message} Retrying automatically...
+          </p>
+        )}
+
+        {conversion.status === 'pending' && conversion.queuePosition !== null && (
+          <p className="text-sm text-muted-foreground" data-testid="text-queue-position">
+            Waiting in queue: {conversion.queuePosition === 1 ? 'next up' : `position ${conversion.queuePosition}`}
+          </p>
+        )}
+
         {conversion.status === 'processing' && (
           <div className="space-y-2">
             <h4 className="text-sm font-medium text-foreground">Current Step:</h4>
             <div className="space-y-1">
-              {processingSteps.map((step, index) => (
+              {pipelineStages.map((step, index) => (
                 <div 
-                  key={index}
+                  key={step.id}
                   className={`flex items-center space-x-2 text-sm transition-opacity duration-300 ${
                     index === currentStep 
                       ? 'text-primary opacity-100' 
@@ -150,6 +181,12 @@ export default function ProcessingProgress({
                 </div>
               ))}
             </div>
+            {(analysis?.bpm || analysis?.key) && (
+              <p className="text-sm text-muted-foreground" data-testid="text-analysis">
+                Detected:{' '}
+                {[analysis.bpm && `${Math.round(analysis.bpm)} BPM`, analysis.key].filter(Boolean).join(', ')}
+              </p>
+            )}
           </div>
         )}
 
@@ -165,21 +202,112 @@ export default function ProcessingProgress({
           </div>
         )}
 
+        {conversion.status === 'cancelled' && (
+          <div className="text-center py-4">
+            <XCircle className="w-12 h-12 text-muted-foreground mx-auto mb-2" />
+            <p className="font-medium">
+              Conversion cancelled
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Start a new conversion whenever you're ready
+            </p>
+          </div>
+        )}
+
+        {['pending', 'processing'].includes(conversion.status) && onCancel && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={onCancel}
+            disabled={isCancelling}
+            data-testid="button-cancel-conversion"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            {isCancelling ? 'Cancelling...' : 'Cancel conversion'}
+          </Button>
+        )}
+
         {conversion.status === 'failed' && (
           <div className="text-center py-4">
             <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-2" />
             <p className="text-destructive font-medium">
               Conversion failed
             </p>
-            <p className="text-sm text-muted-foreground">
-              Please try again with a different file
+            <p className="text-sm text-muted-foreground" data-testid="text-failure-reason">
+              {error?.message ?? 'Please try again with a different file'}
             </p>
+            {failedStage && (
+              <p className="text-xs text-muted-foreground mt-1" data-testid="text-failure-stage">
+                Stopped at: {failedStage.label}
+                {conversion.attempts > 1 && ` (after ${conversion.attempts} attempts)`}
+              </p>
+            )}
+            {onRetry && (
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={onRetry}
+                disabled={isRetrying}
+                data-testid="button-retry-conversion"
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                {isRetrying ? 'Retrying...' : 'Try again'}
+              </Button>
+            )}
           </div>
         )}
 
         <div className="text-xs text-muted-foreground">
           <p><strong>File:</strong> {conversion.originalFilename}</p>
           <p><strong>Intensity:</strong> {conversion.intensity.charAt(0).toUpperCase() + conversion.intensity.slice(1)}</p>
+          {metadata?.targetBpm && (
+            <p data-testid="text-tempo">
+              <strong>Tempo:</strong>{' '}
+              {metadata.tempo && metadata.stretchRatio !== 1 ? (
+                <>
+                  {Math.round(metadata.tempo.bpm)} &rarr; {Math.round(metadata.targetBpm)} BPM
+                  (stretched &times;{metadata.stretchRatio?.toFixed(2)})
+                </>
+              ) : (
+                <>{Math.round(metadata.targetBpm)} BPM</>
+              )}
+            </p>
+          )}
+          {conversion.transposeSemitones !== 0 && (
+            <p data-testid="text-transpose">
+              <strong>Transpose:</strong> {conversion.transposeSemitones > 0 ? '+' : ''}{conversion.transposeSemitones} semitones
+            </p>
+          )}
+          {metadata?.sidechain?.depthDb !== undefined && (
+            <p data-testid="text-sidechain">
+              <strong>Sidechain:</strong> -{metadata.sidechain.depthDb} dB under the kick,
+              {' '}{metadata.sidechain.attackMs} ms attack, {metadata.sidechain.releaseMs} ms release
+            </p>
+          )}
+          {metadata?.atmosphere && (
+            <p data-testid="text-atmosphere">
+              <strong>Atmosphere:</strong> {metadata.atmosphere.progression.join(' – ')} pads,
+              {' '}{Math.round(metadata.atmosphere.bellDensity * 100)}% bell density,
+              {' '}{metadata.atmosphere.swells.length} {metadata.atmosphere.swells.length === 1 ? 'swell' : 'swells'}
+            </p>
+          )}
+          {metadata?.loudness && (
+            <p data-testid="text-loudness">
+              <strong>Loudness:</strong> {metadata.loudness.input.integrated.toFixed(1)} &rarr;{' '}
+              {metadata.loudness.output.integrated.toFixed(1)} LUFS, LRA {metadata.loudness.output.range.toFixed(1)} LU,
+              true peak {metadata.loudness.output.truePeak.toFixed(1)} dBTP
+            </p>
+          )}
+          {metadata?.key && (
+            <p data-testid="text-key">
+              <strong>Key:</strong> {metadata.key} {metadata.mode}
+              {metadata.keyChanges?.slice(1).map(change => (
+                <span key={change.start}>
+                  {' '}&rarr; {change.key} {change.mode} at {formatTime(change.start)}
+                </span>
+              ))}
+            </p>
+          )}
         </div>
       </div>
     </Card>
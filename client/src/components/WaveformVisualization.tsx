@@ -1,18 +1,34 @@
 import { useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { type SectionLabel, type SongSection, type TempoAnalysis } from '@shared/schema';
 
 interface WaveformVisualizationProps {
   audioFile: File | null;
   isPlaying?: boolean;
   currentTime?: number;
   duration?: number;
+  tempo?: TempoAnalysis;
+  // Detected song structure and the length of the audio it was found in.
+  sections?: SongSection[];
+  sourceDuration?: number;
 }
 
+const sectionColors: Record<SectionLabel, string> = {
+  intro: 'bg-sky-500/15 border-sky-500/40',
+  verse: 'bg-violet-500/15 border-violet-500/40',
+  hook: 'bg-rose-500/20 border-rose-500/50',
+  outro: 'bg-emerald-500/15 border-emerald-500/40',
+};
+
 export default function WaveformVisualization({ 
   audioFile, 
   isPlaying = false, 
   currentTime = 0, 
-  duration = 0 
+  duration = 0,
+  tempo,
+  sections,
+  sourceDuration,
 }: WaveformVisualizationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [waveformData, setWaveformData] = useState<number[]>([]);
@@ -145,8 +161,35 @@ export default function WaveformVisualization({
   return (
     <Card className="glassmorphism p-6" data-testid="waveform-visualization">
       <div className="waveform-container">
-        <h3 className="text-lg font-semibold mb-4 gradient-text">Audio Waveform</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold gradient-text">Audio Waveform</h3>
+          {tempo && (
+            <Badge
+              variant="outline"
+              className="text-xs"
+              title={`Detection confidence ${Math.round(tempo.confidence * 100)}%`}
+              data-testid="badge-bpm"
+            >
+              {Math.round(tempo.bpm)} BPM
+            </Badge>
+          )}
+        </div>
         <div className="relative h-32 w-full">
+          {audioFile && sections && sourceDuration && sections.map(section => (
+            <div
+              key={section.start}
+              className={`absolute inset-y-0 border-l rounded-sm pointer-events-none ${sectionColors[section.label]}`}
+              style={{
+                left: `${(section.start / sourceDuration) * 100}%`,
+                width: `${((section.end - section.start) / sourceDuration) * 100}%`,
+              }}
+              data-testid={`section-${section.label}-${section.start}`}
+            >
+              <span className="absolute top-1 left-1 text-[10px] uppercase tracking-wide text-muted-foreground">
+                {section.label}
+              </span>
+            </div>
+          ))}
           <canvas
             ref={canvasRef}
             className="w-full h-full rounded-lg"
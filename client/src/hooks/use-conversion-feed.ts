@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import {
+  conversionSocketPath,
+  socketHeartbeatMs,
+  type ClientMessage,
+  type ConversionState,
+  type ServerMessage,
+} from '@shared/ws';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Follows any number of conversions over the `/ws` socket. A dropped
+// connection is retried with backoff and resumes from the last event seen, so
+// nothing in between is lost.
+export function useConversionFeed(conversionIds: string[]): Record<string, ConversionState> {
+  const [states, setStates] = useState<Record<string, ConversionState>>({});
+  // A stable dependency for the effect however the caller builds the array.
+  const subscription = conversionIds.join(',');
+
+  useEffect(() => {
+    if (!subscription) return;
+    const ids = subscription.split(',');
+    let socket: WebSocket | null = null;
+    let lastEventId: number | undefined;
+    // Conversions a snapshot has arrived for, which a resumed subscription
+    // only needs the missed deltas of.
+    const known = new Set<string>();
+    let attempts = 0;
+    let stopped = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Browsers don't surface pings, so a connection that has gone quiet for
+    // two heartbeats is treated as dead.
+    const expectHeartbeat = () => {
+      clearTimeout(silenceTimer);
+      silenceTimer = setTimeout(() => socket?.close(), socketHeartbeatMs * 2);
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const current = new WebSocket(`${protocol}//${window.location.host}${conversionSocketPath}`);
+      socket = current;
+
+      current.onopen = () => {
+        attempts = 0;
+        expectHeartbeat();
+        const subscribe: ClientMessage = { type: 'subscribe', conversionIds: ids, lastEventId, knownIds: Array.from(known) };
+        current.send(JSON.stringify(subscribe));
+      };
+      current.onmessage = (event: MessageEvent<string>) => {
+        expectHeartbeat();
+        const message = JSON.parse(event.data) as ServerMessage;
+        switch (message.type) {
+          case 'snapshot':
+            lastEventId = Math.max(lastEventId ?? 0, message.eventId);
+            known.add(message.conversionId);
+            setStates((previous) => ({ ...previous, [message.conversionId]: message.state }));
+            break;
+          case 'delta':
+            lastEventId = Math.max(lastEventId ?? 0, message.eventId);
+            setStates((previous) => ({
+              ...previous,
+              [message.conversionId]: { ...previous[message.conversionId], ...message.changes },
+            }));
+            break;
+          case 'error':
+            console.error('Conversion feed error:', message.message, message.conversionId ?? '');
+            break;
+        }
+      };
+      current.onclose = () => {
+        clearTimeout(silenceTimer);
+        if (stopped) return;
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts++);
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      clearTimeout(silenceTimer);
+      socket?.close();
+    };
+  }, [subscription]);
+
+  return states;
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { type Conversion } from '@shared/schema';
+import { activeStatuses, conversionSnapshot, type ConversionSnapshot } from '@shared/events';
+
+const POLL_INTERVAL_MS = 2000;
+
+// Follows a conversion while it's queued or rendering. Updates are pushed over
+// Server-Sent Events where the browser has EventSource, and polled otherwise.
+export function useConversionProgress(conversion: Conversion | null): ConversionSnapshot | undefined {
+  const id = conversion?.id;
+  const active = !!conversion && activeStatuses.includes(conversion.status);
+  const streaming = typeof EventSource !== 'undefined';
+  const [streamed, setStreamed] = useState<ConversionSnapshot>();
+  const [followed, setFollowed] = useState({ id, active });
+
+  // A retried conversion keeps its id, so the last snapshot of the previous
+  // render (failed or cancelled) has to go as soon as it's active again.
+  const restarted = active && (followed.id !== id || !followed.active);
+  if (followed.id !== id || followed.active !== active) {
+    setFollowed({ id, active });
+    if (restarted) setStreamed(undefined);
+  }
+
+  useEffect(() => {
+    if (!id || !active || !streaming) return;
+
+    setStreamed(undefined);
+    const source = new EventSource(`/api/conversions/${id}/events`);
+    source.addEventListener('progress', (event) => {
+      const snapshot = JSON.parse((event as MessageEvent<string>).data) as ConversionSnapshot;
+      setStreamed(snapshot);
+      // The server ends the stream here; don't let EventSource reconnect.
+      if (!activeStatuses.includes(snapshot.conversion.status)) {
+        source.close();
+      }
+    });
+    return () => source.close();
+  }, [id, active, streaming]);
+
+  const { data: polled } = useQuery<Conversion>({
+    queryKey: ['/api/conversions', id],
+    enabled: active && !streaming,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  if (streaming) {
+    return !restarted && streamed?.conversion.id === id ? streamed : undefined;
+  }
+  return polled && polled.id === id ? conversionSnapshot(polled) : undefined;
+}
@@ -1,17 +1,19 @@
 import { useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useConversionProgress } from '@/hooks/use-conversion-progress';
 import ThreeBackground from '@/components/ThreeBackground';
 import FileUpload from '@/components/FileUpload';
 import WaveformVisualization from '@/components/WaveformVisualization';
 import AudioPlayer from '@/components/AudioPlayer';
 import ConversionControls from '@/components/ConversionControls';
 import ProcessingProgress from '@/components/ProcessingProgress';
+import ConversionHistory from '@/components/ConversionHistory';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Music, Headphones, Zap } from 'lucide-react';
-import { type Conversion } from '@shared/schema';
+import { type Conversion, type ConversionMetadata, type ConversionParams, type Intensity } from '@shared/schema';
 
 export default function Home() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -23,29 +25,33 @@ export default function Home() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Poll for conversion status when processing
-  const { data: conversionStatus } = useQuery({
-    queryKey: ['/api/conversions', currentConversion?.id],
-    enabled: !!currentConversion && ['pending', 'processing'].includes(currentConversion.status),
-    refetchInterval: 2000,
-  });
+  // Follow the conversion while it's queued or processing
+  const progress = useConversionProgress(currentConversion);
 
   // Update current conversion when status changes
-  if (conversionStatus && currentConversion && 
-      typeof conversionStatus === 'object' && 'id' in conversionStatus && 
-      conversionStatus.id === currentConversion.id) {
-    const status = conversionStatus as Conversion;
+  if (progress && currentConversion) {
+    const status = progress.conversion;
     if (status.status !== currentConversion.status || 
-        status.progress !== currentConversion.progress) {
+        status.progress !== currentConversion.progress ||
+        status.queuePosition !== currentConversion.queuePosition ||
+        JSON.stringify(status.error) !== JSON.stringify(currentConversion.error) ||
+        JSON.stringify(status.metadata) !== JSON.stringify(currentConversion.metadata)) {
       setCurrentConversion(status);
     }
   }
 
   const uploadMutation = useMutation({
-    mutationFn: async ({ file, intensity }: { file: File; intensity: string }) => {
+    mutationFn: async ({ file, intensity, params, transposeSemitones }: {
+      file: File;
+      intensity: Intensity;
+      params: Partial<ConversionParams>;
+      transposeSemitones: number;
+    }) => {
       const formData = new FormData();
       formData.append('audio', file);
       formData.append('intensity', intensity);
+      formData.append('params', JSON.stringify(params));
+      formData.append('transposeSemitones', String(transposeSemitones));
 
       const response = await apiRequest('POST', '/api/upload', formData);
       return response.json();
@@ -68,6 +74,47 @@ export default function Home() {
     },
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: async (conversionId: string) => {
+      const response = await apiRequest('POST', `/api/conversions/${conversionId}/cancel`);
+      return response.json();
+    },
+    onSuccess: (conversion: Conversion) => {
+      setCurrentConversion(conversion);
+      queryClient.invalidateQueries({ queryKey: ['/api/conversions'] });
+    },
+    onError: (error) => {
+      console.error('Cancel error:', error);
+      toast({
+        title: "Cancel failed",
+        description: "The conversion could not be cancelled.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (conversionId: string) => {
+      const response = await apiRequest('POST', `/api/conversions/${conversionId}/retry`);
+      return response.json();
+    },
+    onSuccess: (conversion: Conversion) => {
+      // The cached progress still holds the failed render under this id;
+      // replace it so the sync above doesn't put the failure back.
+      queryClient.setQueryData(['/api/conversions', conversion.id], conversion);
+      setCurrentConversion(conversion);
+      queryClient.invalidateQueries({ queryKey: ['/api/conversions'] });
+    },
+    onError: (error) => {
+      console.error('Retry error:', error);
+      toast({
+        title: "Retry failed",
+        description: "The conversion could not be restarted.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleFileSelect = (file: File) => {
     setSelectedFile(file);
     setCurrentConversion(null);
@@ -78,10 +125,10 @@ export default function Home() {
     setCurrentConversion(null);
   };
 
-  const handleConvert = (intensity: string) => {
+  const handleConvert = (intensity: Intensity, params: Partial<ConversionParams>, transposeSemitones: number) => {
     if (!selectedFile) return;
     
-    uploadMutation.mutate({ file: selectedFile, intensity });
+    uploadMutation.mutate({ file: selectedFile, intensity, params, transposeSemitones });
   };
 
   const getConvertedAudioUrl = () => {
@@ -160,8 +207,15 @@ export default function Home() {
                 <ProcessingProgress
                   conversion={currentConversion}
                   isVisible={!!currentConversion}
+                  onCancel={() => currentConversion && cancelMutation.mutate(currentConversion.id)}
+                  isCancelling={cancelMutation.isPending}
+                  onRetry={() => currentConversion && retryMutation.mutate(currentConversion.id)}
+                  isRetrying={retryMutation.isPending}
+                  analysis={progress}
                 />
               )}
+
+              <ConversionHistory />
             </div>
 
             {/* Right Column */}
@@ -171,11 +225,15 @@ export default function Home() {
                 isPlaying={isPlaying}
                 currentTime={currentTime}
                 duration={duration}
+                tempo={(currentConversion?.metadata as ConversionMetadata | null)?.tempo}
+                sections={(currentConversion?.metadata as ConversionMetadata | null)?.sections}
+                sourceDuration={(currentConversion?.metadata as ConversionMetadata | null)?.durationSeconds}
               />
               
               <AudioPlayer
                 audioFile={selectedFile}
                 convertedAudioUrl={getConvertedAudioUrl()}
+                stems={(currentConversion?.metadata as ConversionMetadata | null)?.stems}
                 onTimeUpdate={(time, dur) => {
                   setCurrentTime(time);
                   setDuration(dur);
@@ -0,0 +1,83 @@
+import { type SectionLabel, type SongSection } from "@shared/schema";
+import { Biquad } from "./dsp";
+import { sequence808, type BassLineOptions, type BassNote } from "./bass808";
+import { type DrumVoice } from "./drums";
+
+// How the generated layers play in each kind of section: intros and outros
+// strip the drums back and sweep a low-pass filter open or closed, and hooks
+// get busier hats and a bass phrase of their own.
+
+// The hook's 808 phrase slides this much more often than the verse's.
+const HOOK_SLIDE_SCALE = 1.5;
+// Samples between filter coefficient updates in a sweep.
+const SWEEP_BLOCK = 64;
+
+export interface SectionArrangement {
+  drums: DrumVoice[];
+  // Hats per beat; null keeps the intensity's subdivision.
+  hatSubdivision: 2 | 4 | null;
+  // Scales the intensity's hat roll chance.
+  rollScale: number;
+  // Which 808 phrase plays, if any.
+  bass: "main" | "hook" | null;
+  // Low-pass cutoff at the start and end of the section, Hz; null leaves
+  // the section unfiltered.
+  sweep: [number, number] | null;
+}
+
+export const sectionArrangements: Record<SectionLabel, SectionArrangement> = {
+  intro: { drums: [], hatSubdivision: 2, rollScale: 0, bass: null, sweep: [400, 16000] },
+  verse: { drums: ["kick", "snare", "clap", "rim"], hatSubdivision: null, rollScale: 1, bass: "main", sweep: null },
+  hook: { drums: ["kick", "snare", "clap", "rim"], hatSubdivision: 4, rollScale: 1.5, bass: "hook", sweep: null },
+  outro: { drums: ["snare", "rim"], hatSubdivision: 2, rollScale: 0, bass: "main", sweep: [16000, 400] },
+};
+
+// The section playing at `seconds`.
+export function sectionAt(sections: SongSection[], seconds: number): SongSection {
+  let current = sections[0];
+  for (const section of sections) {
+    if (section.start <= seconds) current = section;
+  }
+  return current;
+}
+
+// An 808 line following each section's phrase: the verse line, the hook's
+// own line, or silence.
+export function arrangeBass(options: BassLineOptions, sections: SongSection[]): BassNote[] {
+  const lines = {
+    main: sequence808(options),
+    hook: sequence808({
+      ...options,
+      slideChance: Math.min(1, options.slideChance * HOOK_SLIDE_SCALE),
+      seed: options.seed + 1,
+    }),
+  };
+  const notes: BassNote[] = [];
+  (["main", "hook"] as const).forEach(line => {
+    for (const note of lines[line]) {
+      const section = sectionAt(sections, note.start / options.sampleRate);
+      if (sectionArrangements[section.label].bass === line) notes.push(note);
+    }
+  });
+  notes.sort((a, b) => a.start - b.start);
+  // There is nothing to slide in from before the first note.
+  if (notes.length > 0) notes[0] = { ...notes[0], slide: false };
+  return notes;
+}
+
+// Runs each section's low-pass sweep over `signal` in place.
+export function sweepSections(signal: Float32Array, sampleRate: number, sections: SongSection[]) {
+  for (const section of sections) {
+    const { sweep } = sectionArrangements[section.label];
+    if (!sweep) continue;
+    const [from, to] = sweep;
+    const start = Math.round(section.start * sampleRate);
+    const end = Math.min(signal.length, Math.round(section.end * sampleRate));
+    const filter = new Biquad("lowpass", sampleRate, from);
+    for (let block = start; block < end; block += SWEEP_BLOCK) {
+      // Sweep evenly in pitch rather than frequency.
+      filter.configure("lowpass", sampleRate, from * Math.pow(to / from, (block - start) / (end - start)));
+      for (let i = block; i < Math.min(end, block + SWEEP_BLOCK); i++) signal[i] = filter.process(signal[i]);
+    }
+  }
+}
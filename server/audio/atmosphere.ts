@@ -0,0 +1,226 @@
+import { Biquad, createRng, midiToFrequency, normalizePeak } from "./dsp";
+import { keyAt, SCALES, type KeyRegion } from "./bass808";
+import { plateReverb } from "./reverb";
+import { createPcm, type PcmAudio } from "./types";
+
+// Generated atmosphere: detuned saw pads on a minor progression, FM bell
+// motifs and reverse cymbal swells into section boundaries. Major keys are
+// played in their relative minor, which shares their notes, so the layer
+// stays dark without clashing with the source.
+
+// Chord progressions as scale degrees, one chord every CHORD_BARS bars.
+const PROGRESSIONS = [
+  [0, 5],
+  [0, 5, 3, 4],
+  [0, 3, 5, 4],
+  [0, 5, 6, 4],
+];
+const CHORD_BARS = 2;
+// Pad chords are voiced from the octave starting at C3.
+const PAD_ROOT_NOTE = 48;
+const PAD_DETUNE_CENTS = [-9, 0, 9];
+const PAD_ATTACK_SECONDS = 0.4;
+const PAD_RELEASE_SECONDS = 0.8;
+const PAD_CUTOFF_HZ = 1200;
+// Bell motifs are two bars of 8ths on these scale degrees, from C5.
+const BELL_ROOT_NOTE = 72;
+const BELL_DEGREES = [0, 2, 3, 4, 6];
+const MOTIF_STEPS = 16;
+const BELL_SECONDS = 2;
+const BELL_DETUNE_CENTS = 7;
+// Modulator frequency over carrier; a non-integer ratio gives the bell its
+// inharmonic partials.
+const BELL_RATIO = 3.5;
+const BELL_INDEX = 2.5;
+const BELL_GAIN = 0.5;
+const SWELL_BARS = 1;
+const SWELL_HIGHPASS_HZ = 4000;
+const SWELL_GAIN = 0.4;
+const REVERB_MIX = 0.35;
+
+export interface AtmosphereSettings {
+  // Level of the layer in the mix, linear.
+  amount: number;
+  // Chance, 0-1, that each step of a bell motif sounds.
+  bellDensity: number;
+  // Chance, 0-1, of a reverse swell into each section boundary.
+  swellChance: number;
+}
+
+export interface AtmosphereOptions {
+  length: number;
+  sampleRate: number;
+  bpm: number;
+  // Sample positions where sections start, in order; the first is where bars
+  // start.
+  boundaries: number[];
+  keys: KeyRegion[];
+  seed: number;
+  settings: AtmosphereSettings;
+}
+
+export interface Atmosphere {
+  audio: PcmAudio;
+  // The progression as roman numerals, e.g. "i", "VI".
+  progression: string[];
+  // Sample positions the reverse swells land on.
+  swells: number[];
+}
+
+const NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII"];
+
+// Tonic and scale of the minor key sharing `key`'s notes.
+function minorScale(key: KeyRegion): { tonic: number; scale: number[] } {
+  if (key.mode === "major") return { tonic: (key.tonic + 9) % 12, scale: SCALES.minor };
+  return { tonic: key.tonic, scale: SCALES[key.mode] };
+}
+
+// Semitones above the tonic of the triad built on `degree`.
+function triad(scale: number[], degree: number): number[] {
+  return [0, 2, 4].map(step => {
+    const index = degree + step;
+    return scale[index % scale.length] + 12 * Math.floor(index / scale.length);
+  });
+}
+
+function numeral(scale: number[], degree: number): string {
+  const [root, third, fifth] = triad(scale, degree);
+  const name = NUMERALS[degree];
+  if (third - root === 4) return name;
+  return fifth - root === 6 ? `${name.toLowerCase()}°` : name.toLowerCase();
+}
+
+function detune(frequency: number, cents: number): number {
+  return frequency * Math.pow(2, cents / 1200);
+}
+
+// Adds one pad chord from `start` to `end`, fading out over the release.
+function renderChord(out: PcmAudio, notes: number[], start: number, end: number, rng: () => number) {
+  const { sampleRate } = out;
+  const [left, right] = out.channels;
+  const attack = PAD_ATTACK_SECONDS * sampleRate;
+  const release = PAD_RELEASE_SECONDS * sampleRate;
+  const stop = Math.min(left.length, Math.round(end + release));
+  const voiceGain = 1 / (notes.length * PAD_DETUNE_CENTS.length);
+
+  for (const note of notes) {
+    for (const cents of PAD_DETUNE_CENTS) {
+      // Flat voices lean left and sharp ones right.
+      const pan = cents / PAD_DETUNE_CENTS[PAD_DETUNE_CENTS.length - 1];
+      const leftGain = voiceGain * (1 - 0.6 * pan);
+      const rightGain = voiceGain * (1 + 0.6 * pan);
+      const increment = detune(midiToFrequency(note), cents) / sampleRate;
+      let phase = rng();
+      for (let i = Math.max(0, Math.round(start)); i < stop; i++) {
+        const envelope = Math.min(1, (i - start) / attack, i < end ? 1 : 1 - (i - end) / release);
+        const saw = 2 * phase - 1;
+        phase += increment;
+        if (phase >= 1) phase -= 1;
+        left[i] += saw * envelope * leftGain;
+        right[i] += saw * envelope * rightGain;
+      }
+    }
+  }
+}
+
+// Adds a struck FM bell: two voices a few cents apart, one either side.
+function renderBell(out: PcmAudio, note: number, start: number, velocity: number) {
+  const { sampleRate } = out;
+  const end = Math.min(out.channels[0].length, start + Math.round(BELL_SECONDS * sampleRate));
+  out.channels.forEach((channel, c) => {
+    const carrier = detune(midiToFrequency(note), c === 0 ? -BELL_DETUNE_CENTS : BELL_DETUNE_CENTS);
+    for (let i = start; i < end; i++) {
+      const t = (i - start) / sampleRate;
+      const modulator = BELL_INDEX * Math.exp(-t * 3) * Math.sin(2 * Math.PI * carrier * BELL_RATIO * t);
+      channel[i] += velocity * Math.sin(2 * Math.PI * carrier * t + modulator) * Math.exp(-t * 2.5);
+    }
+  });
+}
+
+// Adds a reverse cymbal, filtered noise rising into `end`.
+function renderSwell(out: PcmAudio, end: number, length: number, rng: () => number) {
+  const start = Math.max(0, end - length);
+  const fade = Math.round(0.005 * out.sampleRate);
+  for (const channel of out.channels) {
+    for (let i = start; i < Math.min(end, channel.length); i++) {
+      const rise = (i - (end - length)) / length;
+      const cut = Math.min(1, (end - i) / fade);
+      channel[i] += (rng() * 2 - 1) * rise * rise * rise * cut;
+    }
+  }
+}
+
+// Renders the atmosphere layer, normalised to full scale.
+export function renderAtmosphere(options: AtmosphereOptions): Atmosphere {
+  const { length, sampleRate, bpm, boundaries, keys, seed, settings } = options;
+  const rng = createRng(seed);
+  const barSamples = (4 * 60 * sampleRate) / bpm;
+  const chordSamples = CHORD_BARS * barSamples;
+  const degrees = PROGRESSIONS[Math.floor(rng() * PROGRESSIONS.length)];
+
+  const pads = createPcm(length, 2, sampleRate);
+  const bells = createPcm(length, 2, sampleRate);
+  const swells = createPcm(length, 2, sampleRate);
+  const swellTimes: number[] = [];
+
+  boundaries.forEach((boundary, index) => {
+    const end = index + 1 < boundaries.length ? boundaries[index + 1] : length;
+    // The first section reaches back over any pickup before the first bar;
+    // every section still starts the progression on its boundary.
+    const lead = index === 0 ? Math.ceil(boundary / chordSamples) : 0;
+    for (let chord = -lead; boundary + chord * chordSamples < end; chord++) {
+      const start = boundary + chord * chordSamples;
+      const { tonic, scale } = minorScale(keyAt(keys, Math.max(0, start) / sampleRate));
+      const root = PAD_ROOT_NOTE + tonic;
+      const degree = degrees[((chord % degrees.length) + degrees.length) % degrees.length];
+      const notes = triad(scale, degree).map(step => root + step);
+      renderChord(pads, notes, start, Math.min(end, start + chordSamples), rng);
+    }
+
+    // Each section gets its own motif, repeated every two bars.
+    const motif: (number | null)[] = [];
+    for (let step = 0; step < MOTIF_STEPS; step++) {
+      motif.push(rng() < settings.bellDensity ? BELL_DEGREES[Math.floor(rng() * BELL_DEGREES.length)] : null);
+    }
+    const stepSamples = barSamples / 8;
+    for (let step = 0; boundary + step * stepSamples < end; step++) {
+      const degree = motif[step % MOTIF_STEPS];
+      if (degree === null) continue;
+      const start = Math.round(boundary + step * stepSamples);
+      const { tonic, scale } = minorScale(keyAt(keys, start / sampleRate));
+      renderBell(bells, BELL_ROOT_NOTE + tonic + scale[degree], start, 0.6 + 0.4 * rng());
+    }
+
+    if (index > 0 && rng() < settings.swellChance) {
+      renderSwell(swells, boundary, Math.round(SWELL_BARS * barSamples), rng);
+      swellTimes.push(boundary);
+    }
+  });
+
+  for (const channel of pads.channels) {
+    new Biquad("lowpass", sampleRate, PAD_CUTOFF_HZ).processBuffer(channel);
+    new Biquad("lowpass", sampleRate, PAD_CUTOFF_HZ).processBuffer(channel);
+  }
+  for (const channel of swells.channels) {
+    new Biquad("highpass", sampleRate, SWELL_HIGHPASS_HZ).processBuffer(channel);
+    new Biquad("highpass", sampleRate, SWELL_HIGHPASS_HZ).processBuffer(channel);
+  }
+
+  const out = createPcm(length, 2, sampleRate);
+  const send = new Float32Array(length);
+  out.channels.forEach((channel, c) => {
+    for (let i = 0; i < length; i++) {
+      const dry = pads.channels[c][i] + BELL_GAIN * bells.channels[c][i];
+      channel[i] = dry + SWELL_GAIN * swells.channels[c][i];
+      send[i] += dry / 2;
+    }
+  });
+  const wet = plateReverb(send, sampleRate, { decay: 0.7, damping: 0.5, preDelaySeconds: 0.03 });
+  out.channels.forEach((channel, c) => {
+    for (let i = 0; i < length; i++) channel[i] = (1 - REVERB_MIX) * channel[i] + REVERB_MIX * wet.channels[c][i];
+  });
+  normalizePeak(out, 0);
+
+  const { scale } = minorScale(keys[0]);
+  return { audio: out, progression: degrees.map(degree => numeral(scale, degree)), swells: swellTimes };
+}
@@ -0,0 +1,169 @@
+import { type KeyMode } from "@shared/schema";
+import { createRng, midiToFrequency, softClip } from "./dsp";
+
+// Roots are placed on the tonic in the octave from D1, where 808s sit.
+const LOWEST_ROOT_NOTE = 26;
+// Steps in the repeating bass phrase, two bars of 16ths.
+const PHRASE_STEPS = 32;
+// Retriggered notes start this many semitones sharp and drop onto pitch.
+const PITCH_DROP_SEMITONES = 12;
+const PITCH_DROP_RATE = 60;
+const GLIDE_SECONDS = 0.09;
+const DECAY_PER_SECOND = 0.9;
+// Amount of triangle blended into the sine so the line reads on small
+// speakers.
+const TRIANGLE_MIX = 0.2;
+// Time constant of the amplitude smoothing that keeps retriggers and cut
+// tails free of clicks.
+const SMOOTHING_SECONDS = 0.002;
+
+export const SCALES: Record<KeyMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+};
+// How often each scale degree is picked: mostly the root, then the fifth,
+// sixth, seventh and third.
+const DEGREE_WEIGHTS = [6, 0.5, 1.5, 1, 2, 1.5, 1.5];
+
+export interface KeyRegion {
+  // Seconds.
+  start: number;
+  // Pitch class, 0 = C.
+  tonic: number;
+  mode: KeyMode;
+}
+
+export interface BassNote {
+  // Sample position; the note rings until the next one starts.
+  start: number;
+  // MIDI note.
+  note: number;
+  // Glide from the previous note's pitch without retriggering.
+  slide: boolean;
+}
+
+export interface BassLineOptions {
+  length: number;
+  sampleRate: number;
+  bpm: number;
+  // Sample position where bars start.
+  offset: number;
+  // Steps within the two-bar, 32-step phrase that trigger notes.
+  kickSteps: number[];
+  // Keys in force over time, in order, the first starting at 0.
+  keys: KeyRegion[];
+  // Chance, 0-1, that a note slides in from the previous one.
+  slideChance: number;
+  seed: number;
+}
+
+interface PhraseStep {
+  degree: number;
+  octave: number;
+  slide: boolean;
+}
+
+function pickDegree(rng: () => number): number {
+  const total = DEGREE_WEIGHTS.reduce((sum, weight) => sum + weight, 0);
+  let choice = rng() * total;
+  for (let degree = 0; degree < DEGREE_WEIGHTS.length; degree++) {
+    choice -= DEGREE_WEIGHTS[degree];
+    if (choice < 0) return degree;
+  }
+  return 0;
+}
+
+// A phrase of scale degrees, one per kick, that every two bars of the track
+// repeat so the line hangs together. It always opens on the root; slides
+// that land on the same degree jump the octave instead.
+function composePhrase(steps: number, slideChance: number, rng: () => number): PhraseStep[] {
+  const phrase: PhraseStep[] = [];
+  for (let i = 0; i < steps; i++) {
+    if (i === 0) {
+      phrase.push({ degree: 0, octave: 0, slide: false });
+      continue;
+    }
+    const previous = phrase[i - 1];
+    const slide = rng() < slideChance;
+    const degree = pickDegree(rng);
+    const octave = slide && degree === previous.degree ? 1 - previous.octave : 0;
+    phrase.push({ degree, octave, slide });
+  }
+  return phrase;
+}
+
+// Derives a bass line on the kick steps of every phrase, with notes taken
+// from whichever key is in force when they start.
+export function sequence808(options: BassLineOptions): BassNote[] {
+  const { length, sampleRate, bpm, offset, kickSteps, keys, slideChance, seed } = options;
+  const stepSamples = (60 / bpm / 4) * sampleRate;
+  const phraseSamples = stepSamples * PHRASE_STEPS;
+  const steps = [...kickSteps].sort((a, b) => a - b);
+  const phrase = composePhrase(steps.length, slideChance, createRng(seed));
+
+  const notes: BassNote[] = [];
+  for (let repeat = 0; offset + repeat * phraseSamples < length; repeat++) {
+    steps.forEach((step, index) => {
+      const start = Math.round(offset + repeat * phraseSamples + step * stepSamples);
+      if (start >= length) return;
+      const { degree, octave, slide } = phrase[index];
+      const key = keyAt(keys, start / sampleRate);
+      const root = LOWEST_ROOT_NOTE + ((key.tonic - (LOWEST_ROOT_NOTE % 12) + 12) % 12);
+      notes.push({ start, note: root + SCALES[key.mode][degree] + 12 * octave, slide: slide && notes.length > 0 });
+    });
+  }
+  return notes;
+}
+
+// The key in force at `seconds`.
+export function keyAt(keys: KeyRegion[], seconds: number): KeyRegion {
+  let current = keys[0];
+  for (const key of keys) {
+    if (key.start <= seconds) current = key;
+  }
+  return current;
+}
+
+// Renders `notes` as a sine/triangle 808 with a long decaying tail. Struck
+// notes drop onto pitch from above; sliding notes glide from the previous
+// pitch and carry its envelope on. `drive` feeds the soft clipper.
+export function render808(notes: BassNote[], length: number, sampleRate: number, drive: number): Float32Array {
+  const out = new Float32Array(length);
+  const smoothing = 1 - Math.exp(-1 / (SMOOTHING_SECONDS * sampleRate));
+  let phase = 0;
+  let amplitude = 0;
+  // Sample where the sounding envelope was last struck.
+  let struck = 0;
+  let previousFrequency = 0;
+
+  notes.forEach((note, index) => {
+    const end = index + 1 < notes.length ? notes[index + 1].start : length;
+    const target = midiToFrequency(note.note);
+    const from = note.slide ? previousFrequency : target;
+    if (!note.slide) struck = note.start;
+
+    for (let i = note.start; i < end; i++) {
+      const t = (i - note.start) / sampleRate;
+      let frequency: number;
+      if (note.slide) {
+        // Glide in equal steps of pitch rather than frequency.
+        const progress = Math.min(1, t / GLIDE_SECONDS);
+        frequency = from * Math.pow(target / from, progress);
+      } else {
+        frequency = target * Math.pow(2, (PITCH_DROP_SEMITONES / 12) * Math.exp(-t * PITCH_DROP_RATE));
+      }
+      phase += (2 * Math.PI * frequency) / sampleRate;
+      if (phase > 2 * Math.PI) phase -= 2 * Math.PI;
+
+      const envelope = Math.exp(-((i - struck) / sampleRate) * DECAY_PER_SECOND);
+      amplitude += (envelope - amplitude) * smoothing;
+      const sine = Math.sin(phase);
+      const triangle = (2 / Math.PI) * Math.asin(sine);
+      out[i] = softClip(amplitude * ((1 - TRIANGLE_MIX) * sine + TRIANGLE_MIX * triangle), drive);
+    }
+    previousFrequency = target;
+  });
+
+  return out;
+}
@@ -0,0 +1,133 @@
+// MSB-first bit reader and writer used by the codec implementations.
+
+export class BitReader {
+  position = 0;
+
+  constructor(private readonly bytes: Uint8Array, startByte = 0, private readonly endByte = bytes.length) {
+    this.position = startByte * 8;
+  }
+
+  get bitsLeft(): number {
+    return this.endByte * 8 - this.position;
+  }
+
+  // Reads up to 32 bits. Reading past the end yields zero bits.
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byteIndex = this.position >>> 3;
+      const bit = byteIndex < this.endByte ? (this.bytes[byteIndex] >>> (7 - (this.position & 7))) & 1 : 0;
+      value = value * 2 + bit;
+      this.position++;
+    }
+    return value;
+  }
+
+  readBit(): number {
+    const byteIndex = this.position >>> 3;
+    const bit = byteIndex < this.endByte ? (this.bytes[byteIndex] >>> (7 - (this.position & 7))) & 1 : 0;
+    this.position++;
+    return bit;
+  }
+
+  skip(count: number) {
+    this.position += count;
+  }
+
+  byteAlign() {
+    this.position = (this.position + 7) & ~7;
+  }
+}
+
+export class BitWriter {
+  private buffer: Uint8Array;
+  private bitLength = 0;
+
+  constructor(initialBytes = 4096) {
+    this.buffer = new Uint8Array(initialBytes);
+  }
+
+  get length(): number {
+    return this.bitLength;
+  }
+
+  // Writes the low `count` bits of `value`, most significant first, so
+  // negative values come out in two's complement. Values wider than 32 bits
+  // are not supported.
+  write(value: number, count: number) {
+    this.ensure(count);
+    while (count > 0) {
+      const free = 8 - (this.bitLength & 7);
+      const take = Math.min(free, count);
+      const shift = count - take;
+      const high = shift < 31 ? value >>> shift : Math.floor(value / Math.pow(2, shift));
+      this.buffer[this.bitLength >>> 3] |= (high & ((1 << take) - 1)) << (free - take);
+      this.bitLength += take;
+      count -= take;
+    }
+  }
+
+  // Appends `count` zero bits, e.g. the unary part of a Rice code.
+  writeZeros(count: number) {
+    this.ensure(count);
+    this.bitLength += count;
+  }
+
+  writeBytes(bytes: Uint8Array) {
+    for (let i = 0; i < bytes.length; i++) this.write(bytes[i], 8);
+  }
+
+  byteAlign() {
+    this.ensure(8);
+    this.bitLength = (this.bitLength + 7) & ~7;
+  }
+
+  // Returns the written bytes, zero padding the last partial byte.
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, (this.bitLength + 7) >>> 3);
+  }
+
+  private ensure(extraBits: number) {
+    const needed = (this.bitLength + extraBits + 7) >>> 3;
+    if (needed <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < needed) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer);
+    this.buffer = grown;
+  }
+}
+
+// Huffman decoding trees as flat arrays: node n's children sit at 2n and
+// 2n + 1. Positive entries are child nodes, negative entries leaves storing
+// -(symbol + 1), and zero marks an unused branch. `codes[symbol]` holds the
+// codeword in its low `lengths[symbol]` bits.
+export function buildHuffmanTree(book: { codes: number[]; lengths: number[] }): Int32Array {
+  const tree = new Int32Array(book.codes.length * 4 + 4);
+  let nodes = 1;
+  book.codes.forEach((code, symbol) => {
+    const length = book.lengths[symbol];
+    let node = 0;
+    for (let bit = length - 1; bit >= 0; bit--) {
+      const branch = node * 2 + ((code >> bit) & 1);
+      if (bit === 0) {
+        tree[branch] = -(symbol + 1);
+      } else {
+        if (tree[branch] <= 0) tree[branch] = nodes++;
+        node = tree[branch];
+      }
+    }
+  });
+  return tree;
+}
+
+export function decodeHuffman(tree: Int32Array, reader: BitReader): number {
+  let node = 0;
+  for (let depth = 0; depth < 32; depth++) {
+    const next = tree[node * 2 + reader.readBit()];
+    if (next < 0) return -next - 1;
+    if (next === 0) return 0;
+    node = next;
+  }
+  return 0;
+}
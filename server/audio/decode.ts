@@ -0,0 +1,58 @@
+import { EmptyAudioError, pcmLength, UnsupportedAudioError, type AudioTags, type PcmAudio } from "./types";
+import { isWav, parseWav, type WavInfo } from "./wav";
+import { decodeMp3, isMp3 } from "./mp3/decoder";
+import { isMp4 } from "./mp4/container";
+import { decodeMp4 } from "./mp4/decoder";
+
+export type SourceFormat = "wav" | "mp3" | "mp4" | "unknown";
+
+export interface DecodedAudio {
+  format: SourceFormat;
+  audio: PcmAudio;
+  tags: AudioTags;
+  // Source LIST/INFO entries, carried into the render's master and from there
+  // into WAV downloads.
+  wavInfo?: WavInfo;
+}
+
+// Sniffs the container from its leading bytes. The upload mimetype comes from
+// the browser and is not trusted for this.
+export function detectFormat(buffer: Buffer): SourceFormat {
+  if (isWav(buffer)) return "wav";
+  if (isMp4(buffer)) return "mp4";
+  if (isMp3(buffer)) return "mp3";
+  return "unknown";
+}
+
+export function decodeAudio(buffer: Buffer): DecodedAudio {
+  const decoded = decodeContainer(buffer);
+  if (pcmLength(decoded.audio) === 0) {
+    throw new EmptyAudioError("The file doesn't contain any audio.");
+  }
+  return decoded;
+}
+
+function decodeContainer(buffer: Buffer): DecodedAudio {
+  const format = detectFormat(buffer);
+  switch (format) {
+    case "wav": {
+      const wav = parseWav(buffer);
+      return {
+        format,
+        audio: wav.audio,
+        tags: { title: wav.info.INAM, artist: wav.info.IART, album: wav.info.IPRD, comment: wav.info.ICMT },
+        wavInfo: wav.info,
+      };
+    }
+    case "mp3": {
+      const mp3 = decodeMp3(buffer);
+      return { format, audio: mp3.audio, tags: mp3.tags };
+    }
+    case "mp4": {
+      const mp4 = decodeMp4(buffer);
+      return { format, audio: mp4.audio, tags: mp4.tags };
+    }
+    default:
+      throw new UnsupportedAudioError("The file is not a recognised WAV, MP3 or M4A audio file");
+  }
+}
@@ -0,0 +1,175 @@
+import { Biquad, createRng, placeHit } from "./dsp";
+import { sequenceHats, synthHat, type HatHit, type HatStyle } from "./hats";
+import { GROOVE_STEPS, grooveTemplates, swingStep, type GrooveHit, type GrooveTemplate } from "./grooves";
+
+// One-shot drum voices, synthesized once per render and placed on the grid.
+
+export function synthKick(sampleRate: number): Float32Array {
+  const length = Math.round(sampleRate * 0.45);
+  const out = new Float32Array(length);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const frequency = 45 + 110 * Math.exp(-t * 40);
+    phase += (2 * Math.PI * frequency) / sampleRate;
+    const click = t < 0.004 ? (1 - t / 0.004) * 0.4 : 0;
+    out[i] = (Math.sin(phase) + click) * Math.exp(-t * 9);
+  }
+  return out;
+}
+
+export function synthSnare(sampleRate: number, seed: number): Float32Array {
+  const rng = createRng(seed);
+  const length = Math.round(sampleRate * 0.3);
+  const out = new Float32Array(length);
+  const bandpass = new Biquad("bandpass", sampleRate, 2500, 0.8);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    phase += (2 * Math.PI * 190) / sampleRate;
+    const body = Math.sin(phase) * Math.exp(-t * 30) * 0.5;
+    const noise = bandpass.process(rng() * 2 - 1) * Math.exp(-t * 16) * 1.6;
+    out[i] = body + noise;
+  }
+  return out;
+}
+
+// A few bandpassed noise bursts in quick succession, then a tail: hands that
+// don't quite land together.
+export function synthClap(sampleRate: number, seed: number): Float32Array {
+  const rng = createRng(seed);
+  const length = Math.round(sampleRate * 0.25);
+  const out = new Float32Array(length);
+  const bandpass = new Biquad("bandpass", sampleRate, 1200, 1.1);
+  const bursts = [0, 0.011, 0.023];
+  const last = bursts[bursts.length - 1];
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    let envelope = t >= last ? 0.5 * Math.exp(-(t - last) * 22) : 0;
+    for (const burst of bursts) {
+      if (t >= burst) envelope = Math.max(envelope, Math.exp(-(t - burst) * 180));
+    }
+    out[i] = bandpass.process(rng() * 2 - 1) * envelope * 1.8;
+  }
+  return out;
+}
+
+// Short woody click: two detuned partials over a noise tick.
+export function synthRim(sampleRate: number, seed: number): Float32Array {
+  const rng = createRng(seed);
+  const length = Math.round(sampleRate * 0.05);
+  const out = new Float32Array(length);
+  const highpass = new Biquad("highpass", sampleRate, 2000, 0.7);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const tone = Math.sin(2 * Math.PI * 1700 * t) * 0.6 + Math.sin(2 * Math.PI * 820 * t) * 0.4;
+    out[i] = (tone * Math.exp(-t * 90) + highpass.process(rng() * 2 - 1) * Math.exp(-t * 300)) * 0.7;
+  }
+  return out;
+}
+
+export interface DrumPattern {
+  groove: GrooveTemplate;
+  hats: HatStyle;
+}
+
+export const defaultDrillPattern: DrumPattern = {
+  groove: grooveTemplates["classic-uk"],
+  hats: { subdivision: 4, rollChance: 0.3, openChance: 0.2 },
+};
+
+export type DrumVoice = "kick" | "snare" | "clap" | "rim";
+
+// A stretch of the track with its own drum arrangement.
+export interface DrumSection {
+  // Sample position where the section starts.
+  start: number;
+  // Voices that play; the hats always do.
+  voices: DrumVoice[];
+  hats: HatStyle;
+}
+
+export interface DrumLayers {
+  // Every voice together.
+  mix: Float32Array;
+  // The kick on its own, for keying sidechain compression.
+  kick: Float32Array;
+}
+
+// Renders `pattern` as a mono layer repeating for `length` samples at `bpm`,
+// with the groove loop starting `offset` samples in. `sections`, in order,
+// mute voices and restyle the hats over parts of the track; without them
+// everything plays throughout.
+export function renderDrums(
+  length: number,
+  sampleRate: number,
+  bpm: number,
+  pattern: DrumPattern,
+  seed: number,
+  offset = 0,
+  sections: DrumSection[] = [{ start: 0, voices: ["kick", "snare", "clap", "rim"], hats: pattern.hats }],
+): DrumLayers {
+  const out = new Float32Array(length);
+  const kick = new Float32Array(length);
+  const { groove } = pattern;
+  const voices: [DrumVoice, GrooveHit[], Float32Array, number, Float32Array][] = [
+    ["kick", groove.kick, synthKick(sampleRate), 0.9, kick],
+    ["snare", groove.snare, synthSnare(sampleRate, seed), 0.8, out],
+    ["clap", groove.clap, synthClap(sampleRate, seed + 3), 0.5, out],
+    ["rim", groove.rim, synthRim(sampleRate, seed + 4), 0.45, out],
+  ];
+  const sectionAt = (position: number) => {
+    let current = sections[0];
+    for (const section of sections) {
+      if (section.start <= position) current = section;
+    }
+    return current;
+  };
+  const closedHat = synthHat(sampleRate, seed + 1, false);
+  const openHat = synthHat(sampleRate, seed + 1, true);
+
+  const stepSamples = (60 / bpm / 4) * sampleRate;
+  const loopSamples = stepSamples * GROOVE_STEPS;
+  const at = (step: number) => offset + swingStep(step, groove.swing) * stepSamples;
+
+  let loops = 0;
+  for (; offset + loops * loopSamples < length; loops++) {
+    for (const [voice, hits, sample, gain, target] of voices) {
+      for (const hit of hits) {
+        const position = at(loops * GROOVE_STEPS + hit.step);
+        if (sectionAt(position).voices.includes(voice)) placeHit(target, sample, position, gain * hit.velocity);
+      }
+    }
+  }
+
+  // Each section sequences its own hats from its first whole bar, so their
+  // phrases line up with the section.
+  const totalSteps = loops * GROOVE_STEPS;
+  const barStep = (position: number) => Math.max(0, Math.round((position - offset) / stepSamples / 16) * 16);
+  const hats: HatHit[] = [];
+  sections.forEach((section, index) => {
+    const first = barStep(section.start);
+    const last = index + 1 < sections.length ? barStep(sections[index + 1].start) : totalSteps;
+    for (const hit of sequenceHats(Math.ceil((last - first) / 16), section.hats, seed + 2)) {
+      if (first + hit.step < last) hats.push({ ...hit, step: first + hit.step });
+    }
+  });
+  hats.forEach((hit, index) => {
+    let sample = hit.open ? openHat : closedHat;
+    // The next hat chokes an open one.
+    const next = hats[index + 1];
+    if (hit.open && next) sample = choke(sample, Math.round((next.step - hit.step) * stepSamples), sampleRate);
+    placeHit(out, sample, at(hit.step), hit.velocity);
+  });
+
+  for (let i = 0; i < length; i++) out[i] += kick[i];
+  return { mix: out, kick };
+}
+
+function choke(sample: Float32Array, length: number, sampleRate: number): Float32Array {
+  if (length >= sample.length) return sample;
+  const out = sample.slice(0, length);
+  const fade = Math.min(length, Math.round(sampleRate * 0.005));
+  for (let i = 0; i < fade; i++) out[length - fade + i] *= 1 - i / fade;
+  return out;
+}
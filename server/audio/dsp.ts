@@ -0,0 +1,172 @@
+import { type PcmAudio } from "./types";
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+export function gainToDb(gain: number): number {
+  return gain > 0 ? 20 * Math.log10(gain) : -Infinity;
+}
+
+export function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+// Wraps a phase in radians into [-pi, pi].
+export function wrapPhase(phase: number): number {
+  return phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+}
+
+// Zeroth order modified Bessel function of the first kind, for Kaiser windows.
+export function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 32; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+// Smooth saturation that leaves quiet signals nearly untouched. `drive` of 1
+// is close to linear; higher values push the signal further into the curve
+// while keeping the output peak at roughly the input peak.
+export function softClip(sample: number, drive: number): number {
+  if (drive <= 1) return sample;
+  return Math.tanh(sample * drive) / Math.tanh(drive);
+}
+
+export type BiquadType = "lowpass" | "highpass" | "bandpass" | "lowshelf" | "highshelf" | "peaking";
+
+// Direct form I biquad using the RBJ audio EQ cookbook coefficients.
+export class Biquad {
+  private b0 = 1;
+  private b1 = 0;
+  private b2 = 0;
+  private a1 = 0;
+  private a2 = 0;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(type: BiquadType, sampleRate: number, frequency: number, q = Math.SQRT1_2, gainDb = 0) {
+    this.configure(type, sampleRate, frequency, q, gainDb);
+  }
+
+  configure(type: BiquadType, sampleRate: number, frequency: number, q = Math.SQRT1_2, gainDb = 0) {
+    const w0 = (2 * Math.PI * Math.min(frequency, sampleRate * 0.49)) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * q);
+    const A = Math.pow(10, gainDb / 40);
+    let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+    switch (type) {
+      case "lowpass":
+        b0 = (1 - cos) / 2; b1 = 1 - cos; b2 = (1 - cos) / 2;
+        a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+        break;
+      case "highpass":
+        b0 = (1 + cos) / 2; b1 = -(1 + cos); b2 = (1 + cos) / 2;
+        a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+        break;
+      case "bandpass":
+        b0 = alpha; b1 = 0; b2 = -alpha;
+        a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+        break;
+      case "peaking":
+        b0 = 1 + alpha * A; b1 = -2 * cos; b2 = 1 - alpha * A;
+        a0 = 1 + alpha / A; a1 = -2 * cos; a2 = 1 - alpha / A;
+        break;
+      case "lowshelf": {
+        const s = 2 * Math.sqrt(A) * alpha;
+        b0 = A * ((A + 1) - (A - 1) * cos + s);
+        b1 = 2 * A * ((A - 1) - (A + 1) * cos);
+        b2 = A * ((A + 1) - (A - 1) * cos - s);
+        a0 = (A + 1) + (A - 1) * cos + s;
+        a1 = -2 * ((A - 1) + (A + 1) * cos);
+        a2 = (A + 1) + (A - 1) * cos - s;
+        break;
+      }
+      case "highshelf": {
+        const s = 2 * Math.sqrt(A) * alpha;
+        b0 = A * ((A + 1) + (A - 1) * cos + s);
+        b1 = -2 * A * ((A - 1) + (A + 1) * cos);
+        b2 = A * ((A + 1) + (A - 1) * cos - s);
+        a0 = (A + 1) - (A - 1) * cos + s;
+        a1 = 2 * ((A - 1) - (A + 1) * cos);
+        a2 = (A + 1) - (A - 1) * cos - s;
+        break;
+      }
+    }
+
+    this.b0 = b0 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = b2 / a0;
+    this.a1 = a1 / a0;
+    this.a2 = a2 / a0;
+  }
+
+  process(x: number): number {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+
+  processBuffer(buffer: Float32Array) {
+    for (let i = 0; i < buffer.length; i++) buffer[i] = this.process(buffer[i]);
+  }
+}
+
+// Runs a fresh filter chain over every channel in place.
+export function applyFilters(audio: PcmAudio, createChain: () => Biquad[]) {
+  for (const channel of audio.channels) {
+    for (const filter of createChain()) filter.processBuffer(channel);
+  }
+}
+
+export function peakLevel(audio: PcmAudio): number {
+  let peak = 0;
+  for (const channel of audio.channels) {
+    for (let i = 0; i < channel.length; i++) {
+      const value = Math.abs(channel[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+}
+
+export function scale(audio: PcmAudio, gain: number) {
+  for (const channel of audio.channels) {
+    for (let i = 0; i < channel.length; i++) channel[i] *= gain;
+  }
+}
+
+// Scales the whole buffer so its sample peak sits at `targetDb` dBFS.
+export function normalizePeak(audio: PcmAudio, targetDb: number) {
+  const peak = peakLevel(audio);
+  if (peak > 0) scale(audio, dbToGain(targetDb) / peak);
+}
+
+// Small deterministic PRNG (mulberry32) so renders are reproducible.
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Adds a one-shot sample into `target` at sample index `at`.
+export function placeHit(target: Float32Array, hit: Float32Array, at: number, gain = 1) {
+  const start = Math.max(0, Math.round(at));
+  const end = Math.min(target.length, start + hit.length);
+  for (let i = start; i < end; i++) target[i] += hit[i - start] * gain;
+}
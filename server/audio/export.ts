@@ -0,0 +1,125 @@
+import fs from "fs";
+import path from "path";
+import { threadId } from "worker_threads";
+import { type DownloadOptions, type OutputFormat, type StemId } from "@shared/schema";
+import { type AudioTags } from "./types";
+import { resample } from "./resample";
+import { readWavFile, writeWavFile, type WavInfo } from "./wav";
+import { writeFlacFile } from "./flac";
+import { writeOggFlacFile } from "./ogg";
+import { writeMp3File, type Mp3EncodeOptions } from "./mp3/encoder";
+
+// Download renditions. The pipeline writes a 32-bit float WAV master and
+// every requested format is transcoded from it once, then cached beside it.
+
+const MASTER_SUFFIX = ".master.wav";
+const MP3_OUTPUT: Mp3EncodeOptions = { mode: "vbr", quality: 2 };
+const DEFAULT_BIT_DEPTH = 24;
+
+export const contentTypes: Record<OutputFormat, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+};
+
+export function masterPath(conversionId: string): string {
+  return `uploads/converted_${conversionId}${MASTER_SUFFIX}`;
+}
+
+// Stems are masters of their own, so renditions are cached the same way.
+export function stemPath(conversionId: string, stem: StemId): string {
+  return `uploads/converted_${conversionId}_${stem}${MASTER_SUFFIX}`;
+}
+
+// Deletes everything rendered for a conversion: its master, stems, cached
+// renditions and any half-written files.
+export async function removeOutputs(conversionId: string) {
+  const prefix = `converted_${conversionId}`;
+  const files = await fs.promises.readdir("uploads");
+  await Promise.all(
+    files
+      .filter(file => file.startsWith(prefix))
+      .map(file => fs.promises.rm(path.join("uploads", file), { force: true })),
+  );
+}
+
+export function masterInfo(tags: AudioTags): WavInfo {
+  const info: WavInfo = { ISFT: "DrillBeats AI" };
+  if (tags.title) info.INAM = tags.title;
+  if (tags.artist) info.IART = tags.artist;
+  if (tags.album) info.IPRD = tags.album;
+  if (tags.comment) info.ICMT = tags.comment;
+  return info;
+}
+
+function bitDepthFor(options: DownloadOptions): 16 | 24 | 32 | undefined {
+  return options.format === "mp3" ? undefined : options.bitDepth ?? DEFAULT_BIT_DEPTH;
+}
+
+// Cache path for a rendition, e.g. `converted_<id>_16bit_44100hz.flac`.
+export function variantPath(master: string, options: DownloadOptions): string {
+  const base = master.endsWith(MASTER_SUFFIX) ? master.slice(0, -MASTER_SUFFIX.length) : master;
+  const bitDepth = bitDepthFor(options);
+  const parts = [bitDepth ? `_${bitDepth}bit` : "", options.sampleRate ? `_${options.sampleRate}hz` : ""];
+  return `${base}${parts.join("")}.${options.format}`;
+}
+
+async function transcode(master: string, options: DownloadOptions, target: string) {
+  const wav = await readWavFile(master);
+  const audio = options.sampleRate ? resample(wav.audio, options.sampleRate) : wav.audio;
+  const tags: AudioTags = { title: wav.info.INAM, artist: wav.info.IART, album: wav.info.IPRD, comment: wav.info.ICMT };
+  const bitDepth = bitDepthFor(options);
+
+  // Write under a temporary name so a half-written file is never served; render
+  // workers share the server's pid.
+  const temporary = `${target}.${process.pid}.${threadId}.tmp`;
+  switch (options.format) {
+    case "wav":
+      await writeWavFile(temporary, audio, {
+        bitsPerSample: bitDepth as 16 | 24 | 32,
+        sampleFormat: bitDepth === 32 ? "float" : "pcm",
+        info: wav.info,
+      });
+      break;
+    case "mp3":
+      await writeMp3File(temporary, audio, { ...MP3_OUTPUT, tags });
+      break;
+    case "flac":
+      await writeFlacFile(temporary, audio, { bitsPerSample: bitDepth as 16 | 24, tags });
+      break;
+    case "ogg":
+      await writeOggFlacFile(temporary, audio, { bitsPerSample: bitDepth as 16 | 24, tags });
+      break;
+  }
+  await fs.promises.rename(temporary, target);
+}
+
+// Returns the path of the requested rendition of `master`, transcoding it if
+// it isn't cached yet. This does the encoding on the calling thread.
+export async function writeVariant(master: string, options: DownloadOptions): Promise<string> {
+  const target = variantPath(master, options);
+  if (!fs.existsSync(target)) await transcode(master, options, target);
+  return target;
+}
+
+const inFlight = new Map<string, Promise<string>>();
+
+// Returns the path of the requested rendition of `master`, transcoding it
+// through `write` on first request. Concurrent requests for the same rendition
+// share one job.
+export function exportVariant(
+  master: string,
+  options: DownloadOptions,
+  write: (master: string, options: DownloadOptions) => Promise<string> = writeVariant,
+): Promise<string> {
+  const target = variantPath(master, options);
+  const pending = inFlight.get(target);
+  if (pending) return pending;
+
+  const job = (async () => (fs.existsSync(target) ? target : write(master, options)))().finally(() =>
+    inFlight.delete(target),
+  );
+  inFlight.set(target, job);
+  return job;
+}
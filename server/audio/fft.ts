@@ -0,0 +1,70 @@
+// In-place iterative radix-2 complex FFT. Twiddles and the bit reversal
+// permutation are tabulated per size, so keep one instance per block length.
+export class FFT {
+  private readonly cos: Float64Array;
+  private readonly sin: Float64Array;
+  private readonly reversed: Uint32Array;
+
+  constructor(readonly size: number) {
+    if (size < 1 || (size & (size - 1)) !== 0) throw new Error(`FFT size must be a power of two, got ${size}`);
+    const half = size >> 1;
+    this.cos = new Float64Array(half);
+    this.sin = new Float64Array(half);
+    for (let i = 0; i < half; i++) {
+      this.cos[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sin[i] = Math.sin((2 * Math.PI * i) / size);
+    }
+    this.reversed = new Uint32Array(size);
+    let bits = 0;
+    while (1 << bits < size) bits++;
+    for (let i = 0; i < size; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) r |= ((i >>> b) & 1) << (bits - 1 - b);
+      this.reversed[i] = r;
+    }
+  }
+
+  // X[k] = sum x[n] e^(-2 pi i nk / N). Unscaled.
+  forward(re: Float64Array, im: Float64Array) {
+    this.transform(re, im, -1);
+  }
+
+  // x[n] = sum X[k] e^(2 pi i nk / N). Also unscaled: divide by N to invert
+  // `forward`.
+  inverse(re: Float64Array, im: Float64Array) {
+    this.transform(re, im, 1);
+  }
+
+  private transform(re: Float64Array, im: Float64Array, sign: number) {
+    const n = this.size;
+    for (let i = 0; i < n; i++) {
+      const j = this.reversed[i];
+      if (j > i) {
+        let t = re[i];
+        re[i] = re[j];
+        re[j] = t;
+        t = im[i];
+        im[i] = im[j];
+        im[j] = t;
+      }
+    }
+    for (let length = 2; length <= n; length <<= 1) {
+      const half = length >> 1;
+      const stride = n / length;
+      for (let start = 0; start < n; start += length) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cos[k * stride];
+          const wi = sign * this.sin[k * stride];
+          const a = start + k;
+          const b = a + half;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+  }
+}
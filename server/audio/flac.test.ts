@@ -0,0 +1,243 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { BitReader } from "./bits";
+import { encodeFlac } from "./flac";
+import { type PcmAudio } from "./types";
+
+// The encoder's output is checked with a small reference decoder written from
+// the FLAC format description, covering what the encoder produces: constant,
+// verbatim and fixed subframes, all four channel assignments and every way a
+// frame header can carry its sample rate.
+
+const SAMPLE_RATES = [0, 88200, 176400, 192000, 8000, 16000, 22050, 24000, 32000, 44100, 48000, 96000];
+const SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 0];
+
+interface StreamInfo {
+  minBlockSize: number;
+  maxBlockSize: number;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+  md5: Buffer;
+}
+
+interface Decoded {
+  info: StreamInfo;
+  comments: string[];
+  // Per frame header, the sample rate it carried.
+  frameRates: number[];
+  channels: Int32Array[];
+}
+
+function crc(bytes: Uint8Array, width: 8 | 16, poly: number): number {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value ^= bytes[i] << (width - 8);
+    for (let bit = 0; bit < 8; bit++) value = value & top ? ((value << 1) ^ poly) & mask : (value << 1) & mask;
+  }
+  return value;
+}
+
+function signed(value: number, bits: number): number {
+  return value >= Math.pow(2, bits - 1) ? value - Math.pow(2, bits) : value;
+}
+
+function readRice(reader: BitReader, k: number): number {
+  let quotient = 0;
+  while (reader.readBit() === 0) quotient++;
+  const folded = quotient * Math.pow(2, k) + reader.read(k);
+  return folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+}
+
+function readSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): Int32Array {
+  assert.equal(reader.read(1), 0, "subframe padding bit");
+  const type = reader.read(6);
+  assert.equal(reader.read(1), 0, "wasted bits are never written");
+  const samples = new Int32Array(blockSize);
+
+  if (type === 0) {
+    samples.fill(signed(reader.read(bitsPerSample), bitsPerSample));
+    return samples;
+  }
+  if (type === 1) {
+    for (let i = 0; i < blockSize; i++) samples[i] = signed(reader.read(bitsPerSample), bitsPerSample);
+    return samples;
+  }
+  assert.ok(type >= 8 && type <= 12, `fixed subframe expected, got type ${type}`);
+
+  const order = type - 8;
+  for (let i = 0; i < order; i++) samples[i] = signed(reader.read(bitsPerSample), bitsPerSample);
+  const method = reader.read(2);
+  assert.ok(method <= 1, "residual coding method");
+  const parameterBits = method === 0 ? 4 : 5;
+  const partitionOrder = reader.read(4);
+  let position = order;
+  for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+    const count = (blockSize >> partitionOrder) - (partition === 0 ? order : 0);
+    const k = reader.read(parameterBits);
+    for (let i = 0; i < count; i++) {
+      if (k === (1 << parameterBits) - 1) throw new Error("escaped partitions are never written");
+      const residual = readRice(reader, k);
+      const x = (back: number) => samples[position - back];
+      const prediction = [0, x(1), 2 * x(1) - x(2), 3 * x(1) - 3 * x(2) + x(3), 4 * x(1) - 6 * x(2) + 4 * x(3) - x(4)];
+      samples[position] = prediction[order] + residual;
+      position++;
+    }
+  }
+  return samples;
+}
+
+function decodeFlac(bytes: Buffer): Decoded {
+  assert.equal(bytes.toString("ascii", 0, 4), "fLaC");
+  let offset = 4;
+  let info: StreamInfo | undefined;
+  const comments: string[] = [];
+  for (let last = false; !last; ) {
+    last = (bytes[offset] & 0x80) !== 0;
+    const type = bytes[offset] & 0x7f;
+    const length = bytes.readUIntBE(offset + 1, 3);
+    const body = bytes.subarray(offset + 4, offset + 4 + length);
+    if (type === 0) {
+      const reader = new BitReader(body);
+      info = {
+        minBlockSize: reader.read(16),
+        maxBlockSize: reader.read(16),
+        sampleRate: (reader.skip(48), reader.read(20)),
+        channels: reader.read(3) + 1,
+        bitsPerSample: reader.read(5) + 1,
+        totalSamples: reader.read(4) * 0x100000000 + reader.read(32),
+        md5: Buffer.from(body.subarray(18, 34)),
+      };
+    } else if (type === 4) {
+      let position = 4 + body.readUInt32LE(0);
+      const count = body.readUInt32LE(position);
+      position += 4;
+      for (let i = 0; i < count; i++) {
+        const size = body.readUInt32LE(position);
+        comments.push(body.toString("utf8", position + 4, position + 4 + size));
+        position += 4 + size;
+      }
+    }
+    offset += 4 + length;
+  }
+  assert.ok(info, "STREAMINFO comes first");
+
+  const channels: number[][] = Array.from({ length: info.channels }, () => []);
+  const frameRates: number[] = [];
+  for (let frame = 0; offset < bytes.length; frame++) {
+    const start = offset;
+    const reader = new BitReader(bytes, offset);
+    assert.equal(reader.read(16), 0xfff8, "frame sync with fixed blocking");
+    const blockCode = reader.read(4);
+    const rateCode = reader.read(4);
+    const assignment = reader.read(4);
+    const bitsPerSample = SAMPLE_SIZES[reader.read(3)] || info.bitsPerSample;
+    reader.skip(1);
+    // Frame numbers below 128 take one byte of the UTF-8 style coding.
+    assert.equal(reader.read(8), frame);
+    let blockSize = blockCode === 12 ? 4096 : 0;
+    if (blockCode === 6) blockSize = reader.read(8) + 1;
+    if (blockCode === 7) blockSize = reader.read(16) + 1;
+    assert.ok(blockSize > 0, `block size code ${blockCode}`);
+    let sampleRate = SAMPLE_RATES[rateCode];
+    if (rateCode === 12) sampleRate = reader.read(8) * 1000;
+    if (rateCode === 13) sampleRate = reader.read(16);
+    if (rateCode === 14) sampleRate = reader.read(16) * 10;
+    assert.ok(rateCode !== 15, "invalid sample rate code");
+    frameRates.push(sampleRate || info.sampleRate);
+    const headerEnd = reader.position / 8;
+    assert.equal(reader.read(8), crc(bytes.subarray(start, headerEnd), 8, 0x07), "header CRC-8");
+
+    const sideBits = (c: number) =>
+      (assignment === 8 && c === 1) || (assignment === 9 && c === 0) || (assignment === 10 && c === 1) ? 1 : 0;
+    const count = assignment < 8 ? assignment + 1 : 2;
+    const subframes = Array.from({ length: count }, (_, c) => readSubframe(reader, blockSize, bitsPerSample + sideBits(c)));
+    reader.byteAlign();
+    const footer = reader.position / 8;
+    assert.equal(reader.read(16), crc(bytes.subarray(start, footer), 16, 0x8005), "frame CRC-16");
+    offset = footer + 2;
+
+    for (let i = 0; i < blockSize; i++) {
+      const [a, b] = subframes;
+      let pair = [a[i], b?.[i]];
+      if (assignment === 8) pair = [a[i], a[i] - b[i]];
+      if (assignment === 9) pair = [a[i] + b[i], b[i]];
+      if (assignment === 10) {
+        const mid = a[i] * 2 + (b[i] & 1);
+        pair = [(mid + b[i]) >> 1, (mid - b[i]) >> 1];
+      }
+      subframes.forEach((_, c) => channels[c].push(assignment >= 8 ? pair[c] : subframes[c][i]));
+    }
+  }
+  return { info, comments, frameRates, channels: channels.map(channel => Int32Array.from(channel)) };
+}
+
+function toIntegers(channel: Float32Array, bitsPerSample: number): Int32Array {
+  const scale = Math.pow(2, bitsPerSample - 1) - 1;
+  return Int32Array.from(channel, sample => Math.round(Math.max(-1, Math.min(1, sample)) * scale));
+}
+
+function noisySine(length: number, frequency: number, sampleRate: number, seed: number): Float32Array {
+  let state = seed;
+  return Float32Array.from({ length }, (_, i) => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return 0.6 * Math.sin((2 * Math.PI * frequency * i) / sampleRate) + 0.05 * (state / 2147483648 - 0.5);
+  });
+}
+
+test("round-trips 16- and 24-bit stereo losslessly", () => {
+  const sampleRate = 44100;
+  const left = noisySine(10000, 440, sampleRate, 1);
+  // Mostly the same as the left channel, so a side channel pays off.
+  const right = left.map((sample, i) => sample * 0.9 + (i % 7) / 1e4);
+  for (const bitsPerSample of [16, 24] as const) {
+    const audio: PcmAudio = { sampleRate, channels: [left, right] };
+    const decoded = decodeFlac(encodeFlac(audio, { bitsPerSample }));
+    assert.equal(decoded.info.sampleRate, sampleRate);
+    assert.equal(decoded.info.channels, 2);
+    assert.equal(decoded.info.bitsPerSample, bitsPerSample);
+    assert.equal(decoded.info.totalSamples, left.length);
+    assert.deepEqual(decoded.channels[0], toIntegers(left, bitsPerSample));
+    assert.deepEqual(decoded.channels[1], toIntegers(right, bitsPerSample));
+  }
+});
+
+test("stores the MD5 of the interleaved samples", () => {
+  const channel = noisySine(5000, 100, 8000, 2);
+  const decoded = decodeFlac(encodeFlac({ sampleRate: 8000, channels: [channel] }, { bitsPerSample: 16 }));
+  const interleaved = Buffer.alloc(channel.length * 2);
+  decoded.channels[0].forEach((sample, i) => interleaved.writeInt16LE(sample, i * 2));
+  assert.deepEqual(decoded.info.md5, crypto.createHash("md5").update(interleaved).digest());
+});
+
+test("codes silence and a short last block", () => {
+  const silence = new Float32Array(4096 + 100);
+  const decoded = decodeFlac(encodeFlac({ sampleRate: 48000, channels: [silence, silence] }, { bitsPerSample: 16 }));
+  assert.equal(decoded.channels[0].length, silence.length);
+  assert.ok(decoded.channels.every(channel => channel.every(sample => sample === 0)));
+});
+
+test("writes sample rates without a frame header code in the header itself", () => {
+  for (const sampleRate of [44100, 11025, 12345, 12000, 100000, 96000]) {
+    const channel = noisySine(3000, 440, sampleRate, 3);
+    const decoded = decodeFlac(encodeFlac({ sampleRate, channels: [channel] }, { bitsPerSample: 16 }));
+    assert.equal(decoded.info.sampleRate, sampleRate);
+    assert.deepEqual(decoded.frameRates, [sampleRate]);
+    assert.deepEqual(decoded.channels[0], toIntegers(channel, 16));
+  }
+});
+
+test("rejects sample rates a frame header can't carry", () => {
+  assert.throws(() => encodeFlac({ sampleRate: 100001, channels: [new Float32Array(16)] }), /sample rate/);
+});
+
+test("writes tags as Vorbis comments", () => {
+  const decoded = decodeFlac(
+    encodeFlac({ sampleRate: 44100, channels: [new Float32Array(100)] }, { tags: { title: "Night Ride", artist: "Unknown T" } }),
+  );
+  assert.deepEqual(decoded.comments, ["TITLE=Night Ride", "ARTIST=Unknown T"]);
+});
@@ -0,0 +1,387 @@
+import crypto from "crypto";
+import fs from "fs";
+import { BitWriter } from "./bits";
+import { pcmLength, type AudioTags, type PcmAudio } from "./types";
+
+// FLAC encoder: fixed linear predictors with partitioned Rice residuals and
+// per-frame stereo decorrelation. Compression is a little behind libFLAC's
+// LPC modes but the output is plain, fully conformant FLAC.
+
+export interface FlacEncodeOptions {
+  bitsPerSample?: 16 | 24;
+  tags?: AudioTags;
+}
+
+// An encoded stream before framing into a container: metadata blocks (each
+// with its block header, the last one flagged) and audio frames.
+export interface FlacStream {
+  metadata: Uint8Array[];
+  frames: Uint8Array[];
+  // Samples per channel in each frame.
+  frameSamples: number[];
+}
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+const VENDOR = "DrillBeats AI";
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? (crc8 << 1) ^ 0x07 : crc8 << 1;
+    crc16 = crc16 & 0x8000 ? (crc16 << 1) ^ 0x8005 : crc16 << 1;
+  }
+  CRC8_TABLE[i] = crc8 & 0xff;
+  CRC16_TABLE[i] = crc16 & 0xffff;
+}
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+}
+
+interface SubframePlan {
+  kind: "constant" | "verbatim" | "fixed";
+  samples: Int32Array;
+  bitsPerSample: number;
+  order: number;
+  residual?: Uint32Array;
+  partitionOrder: number;
+  riceParameters: number[];
+  bits: number;
+}
+
+// Zigzag-folded residual of the fixed predictor of `order`.
+function fixedResidual(samples: Int32Array, order: number): Uint32Array {
+  const residual = new Uint32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const x = samples;
+    let e: number;
+    switch (order) {
+      case 0: e = x[i]; break;
+      case 1: e = x[i] - x[i - 1]; break;
+      case 2: e = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+      case 3: e = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+      default: e = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+    }
+    residual[i - order] = e >= 0 ? 2 * e : -2 * e - 1;
+  }
+  return residual;
+}
+
+// Cheapest Rice parameter for `count` values summing to `sum`, using the
+// usual estimate of sum >> k bits for the unary parts.
+function riceParameter(sum: number, count: number): [number, number] {
+  const mean = count > 0 ? sum / count : 0;
+  const guess = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  let best: [number, number] = [0, Infinity];
+  for (let k = Math.max(0, guess - 1); k <= Math.min(30, guess + 1); k++) {
+    const bits = count * (k + 1) + Math.floor(sum / Math.pow(2, k));
+    if (bits < best[1]) best = [k, bits];
+  }
+  return best;
+}
+
+// Chooses the partition order and per-partition Rice parameters. Sums for
+// the finest usable partitioning are merged pairwise for coarser orders.
+function planResidual(plan: SubframePlan, blockSize: number) {
+  const residual = plan.residual!;
+  const order = plan.order;
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    blockSize >> (maxOrder + 1) > order
+  ) {
+    maxOrder++;
+  }
+
+  let sums: number[] = [];
+  const finest = blockSize >> maxOrder;
+  for (let partition = 0, offset = 0; partition < 1 << maxOrder; partition++) {
+    const count = partition === 0 ? finest - order : finest;
+    let sum = 0;
+    for (let i = offset; i < offset + count; i++) sum += residual[i];
+    sums.push(sum);
+    offset += count;
+  }
+
+  let best = { partitionOrder: 0, parameters: [0], bits: Infinity };
+  for (let p = maxOrder; p >= 0; p--) {
+    const partitionSize = blockSize >> p;
+    const parameters: number[] = [];
+    let bits = 0;
+    sums.forEach((sum, partition) => {
+      const [k, partitionBits] = riceParameter(sum, partition === 0 ? partitionSize - order : partitionSize);
+      parameters.push(k);
+      bits += partitionBits;
+    });
+    if (bits < best.bits) best = { partitionOrder: p, parameters, bits };
+    const merged: number[] = [];
+    for (let i = 0; i + 1 < sums.length; i += 2) merged.push(sums[i] + sums[i + 1]);
+    sums = merged;
+  }
+
+  const wide = best.parameters.some(k => k > 14);
+  plan.partitionOrder = best.partitionOrder;
+  plan.riceParameters = best.parameters;
+  plan.bits += 6 + best.parameters.length * (wide ? 5 : 4) + best.bits;
+}
+
+function planSubframe(samples: Int32Array, bitsPerSample: number): SubframePlan {
+  const n = samples.length;
+  let constant = true;
+  for (let i = 1; i < n && constant; i++) constant = samples[i] === samples[0];
+  const base = { samples, bitsPerSample, order: 0, partitionOrder: 0, riceParameters: [] };
+  if (constant) return { ...base, kind: "constant", bits: 8 + bitsPerSample };
+
+  // Pick the predictor order with the smallest residual magnitude.
+  let bestOrder = 0;
+  let bestSum = Infinity;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, n - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    let sum = 0;
+    for (let i = 0; i < residual.length; i++) sum += residual[i];
+    if (sum < bestSum) {
+      bestSum = sum;
+      bestOrder = order;
+    }
+  }
+
+  const fixed: SubframePlan = {
+    ...base,
+    kind: "fixed",
+    order: bestOrder,
+    residual: fixedResidual(samples, bestOrder),
+    bits: 8 + bestOrder * bitsPerSample,
+  };
+  planResidual(fixed, n);
+
+  const verbatimBits = 8 + n * bitsPerSample;
+  return fixed.bits < verbatimBits ? fixed : { ...base, kind: "verbatim", bits: verbatimBits };
+}
+
+function writeSubframe(writer: BitWriter, plan: SubframePlan) {
+  const { samples, bitsPerSample } = plan;
+  if (plan.kind === "constant") {
+    writer.write(0, 8);
+    writer.write(samples[0], bitsPerSample);
+    return;
+  }
+  if (plan.kind === "verbatim") {
+    writer.write(1 << 1, 8);
+    for (let i = 0; i < samples.length; i++) writer.write(samples[i], bitsPerSample);
+    return;
+  }
+
+  writer.write((8 | plan.order) << 1, 8);
+  for (let i = 0; i < plan.order; i++) writer.write(samples[i], bitsPerSample);
+
+  const residual = plan.residual!;
+  const wide = plan.riceParameters.some(k => k > 14);
+  writer.write(wide ? 1 : 0, 2);
+  writer.write(plan.partitionOrder, 4);
+  const partitionSize = samples.length >> plan.partitionOrder;
+  let offset = 0;
+  plan.riceParameters.forEach((k, partition) => {
+    writer.write(k, wide ? 5 : 4);
+    const count = partition === 0 ? partitionSize - plan.order : partitionSize;
+    const mask = (1 << k) - 1;
+    for (let i = offset; i < offset + count; i++) {
+      const value = residual[i];
+      writer.writeZeros(Math.floor(value / Math.pow(2, k)));
+      writer.write((1 << k) | (value & mask), k + 1);
+    }
+    offset += count;
+  });
+}
+
+// UTF-8 style coding of the frame number in frame headers.
+function writeUtf8(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= Math.pow(2, 6 * continuation + (6 - continuation))) continuation++;
+  const lead = (0xff << (7 - continuation)) & 0xff;
+  writer.write(lead | Math.floor(value / Math.pow(2, 6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) writer.write(0x80 | (Math.floor(value / Math.pow(2, 6 * i)) & 0x3f), 8);
+}
+
+// Sample rate field of a frame header: one of the common rates, or a rate
+// written out after the block size in kHz, Hz or tens of Hz.
+function sampleRateCode(sampleRate: number): { code: number; value?: number; bits?: number } {
+  const common = SAMPLE_RATE_CODES[sampleRate];
+  if (common !== undefined) return { code: common };
+  if (sampleRate % 1000 === 0 && sampleRate / 1000 < 256) return { code: 12, value: sampleRate / 1000, bits: 8 };
+  if (sampleRate < 65536) return { code: 13, value: sampleRate, bits: 16 };
+  if (sampleRate % 10 === 0 && sampleRate / 10 < 65536) return { code: 14, value: sampleRate / 10, bits: 16 };
+  throw new Error(`FLAC frames can't carry a sample rate of ${sampleRate} Hz`);
+}
+
+function toIntegers(channel: Float32Array, start: number, end: number, bitsPerSample: number): Int32Array {
+  const scale = Math.pow(2, bitsPerSample - 1) - 1;
+  const out = new Int32Array(end - start);
+  for (let i = start; i < end; i++) out[i - start] = Math.round(Math.max(-1, Math.min(1, channel[i])) * scale);
+  return out;
+}
+
+function encodeFrame(
+  channels: Int32Array[],
+  frameNumber: number,
+  sampleRate: number,
+  bitsPerSample: number,
+): Uint8Array {
+  const blockSize = channels[0].length;
+  let assignment = channels.length - 1;
+  let plans: SubframePlan[];
+
+  if (channels.length === 2) {
+    const [left, right] = channels;
+    const mid = new Int32Array(blockSize);
+    const side = new Int32Array(blockSize);
+    for (let i = 0; i < blockSize; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+    const l = planSubframe(left, bitsPerSample);
+    const r = planSubframe(right, bitsPerSample);
+    const m = planSubframe(mid, bitsPerSample);
+    const s = planSubframe(side, bitsPerSample + 1);
+    // Channel assignments 1 (independent), 8 (left/side), 9 (side/right) and
+    // 10 (mid/side).
+    const options: [number, SubframePlan[]][] = [[1, [l, r]], [8, [l, s]], [9, [s, r]], [10, [m, s]]];
+    [assignment, plans] = options.reduce((best, option) =>
+      option[1][0].bits + option[1][1].bits < best[1][0].bits + best[1][1].bits ? option : best);
+  } else {
+    plans = channels.map(channel => planSubframe(channel, bitsPerSample));
+  }
+
+  const writer = new BitWriter(blockSize * channels.length * 4);
+  const blockCode = blockSize === BLOCK_SIZE ? 12 : 7;
+  writer.write(0xfff8, 16);
+  writer.write(blockCode, 4);
+  const rate = sampleRateCode(sampleRate);
+  writer.write(rate.code, 4);
+  writer.write(assignment, 4);
+  writer.write(bitsPerSample === 16 ? 4 : 6, 3);
+  writer.write(0, 1);
+  writeUtf8(writer, frameNumber);
+  if (blockCode === 7) writer.write(blockSize - 1, 16);
+  if (rate.bits) writer.write(rate.value!, rate.bits);
+  writer.write(crc8(writer.toBytes()), 8);
+
+  for (const plan of plans) writeSubframe(writer, plan);
+  writer.byteAlign();
+  writer.write(crc16(writer.toBytes()), 16);
+  return writer.toBytes();
+}
+
+function metadataBlock(type: number, body: Uint8Array, last: boolean): Uint8Array {
+  const block = new Uint8Array(4 + body.length);
+  block[0] = (last ? 0x80 : 0) | type;
+  block[1] = (body.length >> 16) & 0xff;
+  block[2] = (body.length >> 8) & 0xff;
+  block[3] = body.length & 0xff;
+  block.set(body, 4);
+  return block;
+}
+
+function vorbisComment(tags: AudioTags): Uint8Array {
+  const fields: string[] = [];
+  if (tags.title) fields.push(`TITLE=${tags.title}`);
+  if (tags.artist) fields.push(`ARTIST=${tags.artist}`);
+  if (tags.album) fields.push(`ALBUM=${tags.album}`);
+  if (tags.comment) fields.push(`COMMENT=${tags.comment}`);
+
+  const parts: Buffer[] = [];
+  const addString = (value: string) => {
+    const text = Buffer.from(value, "utf8");
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(text.length, 0);
+    parts.push(length, text);
+  };
+  addString(VENDOR);
+  const count = Buffer.alloc(4);
+  count.writeUInt32LE(fields.length, 0);
+  parts.push(count);
+  fields.forEach(addString);
+  return Buffer.concat(parts);
+}
+
+export function encodeFlacStream(audio: PcmAudio, options: FlacEncodeOptions = {}): FlacStream {
+  const bitsPerSample = options.bitsPerSample ?? 24;
+  const channelCount = audio.channels.length;
+  if (channelCount < 1 || channelCount > 8) throw new Error(`FLAC supports 1 to 8 channels, got ${channelCount}`);
+
+  const total = pcmLength(audio);
+  const md5 = crypto.createHash("md5");
+  const bytesPerSample = bitsPerSample / 8;
+  const frames: Uint8Array[] = [];
+  const frameSamples: number[] = [];
+
+  for (let start = 0, frame = 0; start < total; start += BLOCK_SIZE, frame++) {
+    const end = Math.min(total, start + BLOCK_SIZE);
+    const channels = audio.channels.map(channel => toIntegers(channel, start, end, bitsPerSample));
+
+    const interleaved = Buffer.alloc((end - start) * channelCount * bytesPerSample);
+    for (let i = 0, offset = 0; i < end - start; i++) {
+      for (const channel of channels) {
+        interleaved.writeIntLE(channel[i], offset, bytesPerSample);
+        offset += bytesPerSample;
+      }
+    }
+    md5.update(interleaved);
+
+    frames.push(encodeFrame(channels, frame, audio.sampleRate, bitsPerSample));
+    frameSamples.push(end - start);
+  }
+
+  const frameSizes = frames.map(frame => frame.length);
+  const info = new BitWriter(34);
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, total));
+  info.write(blockSize, 16);
+  info.write(blockSize, 16);
+  info.write(frames.length ? Math.min(...frameSizes) : 0, 24);
+  info.write(frames.length ? Math.max(...frameSizes) : 0, 24);
+  info.write(audio.sampleRate, 20);
+  info.write(channelCount - 1, 3);
+  info.write(bitsPerSample - 1, 5);
+  info.write(Math.floor(total / 0x100000000), 4);
+  info.write(total >>> 0, 32);
+  info.writeBytes(md5.digest());
+
+  return {
+    metadata: [
+      metadataBlock(0, info.toBytes(), false),
+      metadataBlock(4, vorbisComment(options.tags ?? {}), true),
+    ],
+    frames,
+    frameSamples,
+  };
+}
+
+export function encodeFlac(audio: PcmAudio, options: FlacEncodeOptions = {}): Buffer {
+  const stream = encodeFlacStream(audio, options);
+  return Buffer.concat([Buffer.from("fLaC", "ascii"), ...stream.metadata, ...stream.frames]);
+}
+
+export async function writeFlacFile(path: string, audio: PcmAudio, options: FlacEncodeOptions = {}) {
+  await fs.promises.writeFile(path, encodeFlac(audio, options));
+}
@@ -0,0 +1,67 @@
+import { type GrooveId } from "@shared/schema";
+
+// Drill drum templates. Each is a two-bar loop of 32 sixteenth steps at the
+// detected tempo, i.e. one bar of the half-time feel: the backbeat snares
+// fall on steps 8 and 24, and the templates differ in how they push the
+// second one around it, where the kicks sit and how much they swing.
+
+export const GROOVE_STEPS = 32;
+// Kicks below this velocity are ghost notes, left out of the 808 line.
+export const GHOST_VELOCITY = 0.5;
+
+export interface GrooveHit {
+  step: number;
+  velocity: number;
+}
+
+export interface GrooveTemplate {
+  kick: GrooveHit[];
+  snare: GrooveHit[];
+  clap: GrooveHit[];
+  rim: GrooveHit[];
+  // Delay of every odd 16th step, as a fraction of a step.
+  swing: number;
+}
+
+function hits(...pairs: [number, number][]): GrooveHit[] {
+  return pairs.map(([step, velocity]) => ({ step, velocity }));
+}
+
+export const grooveTemplates: Record<GrooveId, GrooveTemplate> = {
+  // Sparse kicks and a late snare kicking the second half of the loop on.
+  "classic-uk": {
+    kick: hits([0, 1], [6, 0.9], [10, 0.85], [14, 0.3], [16, 1], [19, 0.8], [29, 0.3]),
+    snare: hits([8, 1], [24, 1], [27, 0.7]),
+    clap: hits([8, 0.6], [24, 0.6]),
+    rim: hits([3, 0.4], [13, 0.35], [19, 0.4], [30, 0.35]),
+    swing: 0,
+  },
+  // Busier, syncopated kicks and a doubled snare on the fourth beat.
+  "ny-drill": {
+    kick: hits([0, 1], [3, 0.8], [11, 0.9], [14, 0.3], [16, 1], [22, 0.85], [27, 0.9], [30, 0.3]),
+    snare: hits([8, 1], [24, 1], [26, 0.6]),
+    clap: hits([8, 0.8], [24, 0.8]),
+    rim: hits([6, 0.35], [20, 0.35], [31, 0.3]),
+    swing: 0.1,
+  },
+  // Swung, with the snare anticipated by a 16th before the fourth beat.
+  "brooklyn-bounce": {
+    kick: hits([0, 1], [5, 0.85], [10, 0.9], [13, 0.35], [16, 1], [21, 0.85], [25, 0.8], [31, 0.3]),
+    snare: hits([8, 1], [23, 0.7], [24, 1]),
+    clap: hits([8, 0.9], [24, 0.9]),
+    rim: hits([2, 0.4], [14, 0.4], [18, 0.4], [30, 0.4]),
+    swing: 0.22,
+  },
+};
+
+// `step` pushed late by `swing` if it lands on an odd 16th.
+export function swingStep(step: number, swing: number): number {
+  return step % 2 === 1 ? step + swing : step;
+}
+
+// Steps within the loop that carry the 808, swung like the drums.
+export function bassSteps(groove: GrooveTemplate): number[] {
+  return groove.kick
+    .filter(hit => hit.velocity >= GHOST_VELOCITY)
+    .map(hit => swingStep(hit.step, groove.swing));
+}
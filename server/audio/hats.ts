@@ -0,0 +1,114 @@
+import { Biquad, createRng } from "./dsp";
+
+// Procedural drill hi-hats: a two-bar groove on an 8th or 16th grid broken
+// up by triplet, 16th and 32nd rolls, with a rapid-fire fill closing every
+// four-bar phrase. Everything is drawn from a seeded PRNG so a conversion
+// always gets the same hats.
+
+const STEPS_PER_BEAT = 4;
+const STEPS_PER_BAR = 16;
+const GROOVE_BARS = 2;
+const PHRASE_BARS = 4;
+
+export interface HatStyle {
+  // Hats per beat in the groove: 2 for eighths, 4 for sixteenths.
+  subdivision: 2 | 4;
+  // Chance, 0-1, that a beat of the groove becomes a roll. Phrase-end fills
+  // are twice as likely.
+  rollChance: number;
+  // Chance per bar of an open hat on an offbeat.
+  openChance: number;
+}
+
+export interface HatHit {
+  // Position in 16th steps from the first bar; rolls fall between steps.
+  step: number;
+  velocity: number;
+  open: boolean;
+}
+
+// Hits per beat for each roll: 8th triplets, 16ths, 16th triplets, 32nds.
+const ROLL_RATES = [3, 4, 6, 8];
+
+export function synthHat(sampleRate: number, seed: number, open: boolean): Float32Array {
+  const rng = createRng(seed);
+  const length = Math.round(sampleRate * (open ? 0.4 : 0.06));
+  const out = new Float32Array(length);
+  const highpass = new Biquad("highpass", sampleRate, 7000, 0.9);
+  const bandpass = new Biquad("bandpass", sampleRate, 10000, 1.2);
+  const decay = open ? 11 : 70;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const noise = highpass.process(rng() * 2 - 1);
+    out[i] = (noise * 0.5 + bandpass.process(noise) * 0.8) * Math.exp(-t * decay) * 0.6;
+  }
+  return out;
+}
+
+// Hits for one beat starting at `step`: the plain grid, or a roll over the
+// whole beat or its second half with a velocity ramp up or down.
+function beatHits(step: number, style: HatStyle, roll: boolean, rng: () => number): HatHit[] {
+  if (!roll) {
+    const hits: HatHit[] = [];
+    for (let i = 0; i < style.subdivision; i++) {
+      const accent = i === 0 ? 1 : 0.7;
+      hits.push({ step: step + (i * STEPS_PER_BEAT) / style.subdivision, velocity: accent, open: false });
+    }
+    return hits;
+  }
+
+  const rate = ROLL_RATES[Math.floor(rng() * ROLL_RATES.length)];
+  const halfBeat = rate >= 6 && rng() < 0.5;
+  const count = halfBeat ? rate / 2 : rate;
+  const start = halfBeat ? step + STEPS_PER_BEAT / 2 : step;
+  const rising = rng() < 0.6;
+  const hits: HatHit[] = halfBeat ? [{ step, velocity: 1, open: false }] : [];
+  for (let i = 0; i < count; i++) {
+    const ramp = count > 1 ? i / (count - 1) : 1;
+    const velocity = 0.45 + 0.55 * (rising ? ramp : 1 - ramp);
+    hits.push({ step: start + (i * STEPS_PER_BEAT) / rate, velocity, open: false });
+  }
+  return hits;
+}
+
+// One bar of hats from `step`. Fill bars roll their last beat, and more
+// often the one before it too.
+function barHits(step: number, style: HatStyle, fill: boolean, rng: () => number): HatHit[] {
+  const beats = STEPS_PER_BAR / STEPS_PER_BEAT;
+  const fillChance = Math.min(1, style.rollChance * 2);
+  const hits: HatHit[] = [];
+  for (let beat = 0; beat < beats; beat++) {
+    const fillBeat = fill && (beat === beats - 1 || (beat === beats - 2 && rng() < fillChance));
+    const roll = fillBeat || rng() < style.rollChance;
+    hits.push(...beatHits(step + beat * STEPS_PER_BEAT, style, roll, rng));
+  }
+
+  if (rng() < style.openChance) {
+    // Swap the closed hat on an offbeat "and" for an open one.
+    const target = step + Math.floor(rng() * beats) * STEPS_PER_BEAT + STEPS_PER_BEAT / 2;
+    const hit = hits.find(candidate => candidate.step === target);
+    if (hit) hit.open = true;
+  }
+  return hits;
+}
+
+// Hat hits for `bars` bars, in order. The groove repeats every two bars and
+// the last bar of each four-bar phrase is replaced by a fill.
+export function sequenceHats(bars: number, style: HatStyle, seed: number): HatHit[] {
+  const rng = createRng(seed);
+  const groove: HatHit[][] = [];
+  for (let bar = 0; bar < GROOVE_BARS; bar++) groove.push(barHits(0, style, false, rng));
+
+  const hits: HatHit[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const step = bar * STEPS_PER_BAR;
+    const pattern = bar % PHRASE_BARS === PHRASE_BARS - 1
+      ? barHits(0, style, true, rng)
+      : groove[bar % GROOVE_BARS];
+    for (const hit of pattern) {
+      // Humanize velocity, so repeats of the groove don't sound stamped out.
+      hits.push({ ...hit, step: step + hit.step, velocity: hit.velocity * (0.85 + rng() * 0.15) });
+    }
+  }
+  return hits;
+}
@@ -0,0 +1,141 @@
+import { Stft } from "./stft";
+import { createPcm, pcmLength, type PcmAudio } from "./types";
+
+// Harmonic/percussive source separation by median filtering the magnitude
+// spectrogram (Fitzgerald 2010): sustained tones are smooth along time and
+// drum hits are smooth along frequency, so a median across each direction
+// estimates one component with the other suppressed. The estimates become
+// soft masks that split the source into two stems summing back to it.
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 1024;
+// Median lengths: about 0.4 s across time and 370 Hz across frequency at
+// 44.1 kHz.
+const HARMONIC_KERNEL = 17;
+const PERCUSSIVE_KERNEL = 17;
+
+export interface HpssResult {
+  harmonic: PcmAudio;
+  percussive: PcmAudio;
+}
+
+// Centred running median of `input` over `size` (odd) values, treating
+// values beyond either end as zero. Keeps the window sorted and moves one
+// value per step instead of sorting every window.
+function medianFilter(input: Float32Array, output: Float32Array, size: number) {
+  const half = size >> 1;
+  const sorted = new Float64Array(size);
+  const n = input.length;
+  for (let i = 0; i < n + half; i++) {
+    const incoming = i < n ? input[i] : 0;
+    const outgoing = i - size >= 0 ? input[i - size] : 0;
+
+    // Find the outgoing value, overwrite it and shift the new one into place.
+    let lo = 0;
+    let hi = size - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < outgoing) lo = mid + 1;
+      else hi = mid;
+    }
+    let index = lo;
+    while (index > 0 && sorted[index - 1] > incoming) {
+      sorted[index] = sorted[index - 1];
+      index--;
+    }
+    while (index < size - 1 && sorted[index + 1] < incoming) {
+      sorted[index] = sorted[index + 1];
+      index++;
+    }
+    sorted[index] = incoming;
+
+    if (i >= half) output[i - half] = sorted[half];
+  }
+}
+
+// Fraction of each time-frequency bin that is percussive, from the mono mix.
+function percussiveMask(audio: PcmAudio, stft: Stft): Float32Array {
+  const length = pcmLength(audio);
+  const frames = stft.frameCount(length);
+  const { bins } = stft;
+  const mono = new Float32Array(length);
+  for (const channel of audio.channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / audio.channels.length;
+  }
+
+  const magnitude = new Float32Array(frames * bins);
+  const re = new Float64Array(stft.frameSize);
+  const im = new Float64Array(stft.frameSize);
+  for (let frame = 0; frame < frames; frame++) {
+    stft.analyze(mono, frame, re, im);
+    for (let k = 0; k < bins; k++) magnitude[frame * bins + k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+  }
+
+  // Percussive estimate: median across frequency within each frame.
+  const percussive = new Float32Array(frames * bins);
+  for (let frame = 0; frame < frames; frame++) {
+    const from = frame * bins;
+    medianFilter(magnitude.subarray(from, from + bins), percussive.subarray(from, from + bins), PERCUSSIVE_KERNEL);
+  }
+
+  // Harmonic estimate: median across time within each bin. Written back
+  // over the magnitudes, which aren't needed after this.
+  const column = new Float32Array(frames);
+  const filtered = new Float32Array(frames);
+  for (let k = 0; k < bins; k++) {
+    for (let frame = 0; frame < frames; frame++) column[frame] = magnitude[frame * bins + k];
+    medianFilter(column, filtered, HARMONIC_KERNEL);
+    for (let frame = 0; frame < frames; frame++) magnitude[frame * bins + k] = filtered[frame];
+  }
+
+  // Wiener-style soft mask from the two estimates' power.
+  const mask = percussive;
+  for (let i = 0; i < mask.length; i++) {
+    const p = percussive[i] * percussive[i];
+    const h = magnitude[i] * magnitude[i];
+    mask[i] = p + h > 0 ? p / (p + h) : 0;
+  }
+  return mask;
+}
+
+// Splits `audio` into harmonic and percussive stems. Both channels share the
+// masks from the mono mix so the stereo image stays intact.
+export function separateHarmonicPercussive(audio: PcmAudio): HpssResult {
+  const stft = new Stft(FRAME_SIZE, HOP_SIZE);
+  const length = pcmLength(audio);
+  const frames = stft.frameCount(length);
+  const { bins, frameSize } = stft;
+  const mask = percussiveMask(audio, stft);
+
+  const harmonic = createPcm(length, audio.channels.length, audio.sampleRate);
+  const percussive = createPcm(length, audio.channels.length, audio.sampleRate);
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const percussiveRe = new Float64Array(frameSize);
+  const percussiveIm = new Float64Array(frameSize);
+
+  audio.channels.forEach((channel, c) => {
+    for (let frame = 0; frame < frames; frame++) {
+      stft.analyze(channel, frame, re, im);
+      for (let k = 0; k < bins; k++) {
+        const amount = mask[frame * bins + k];
+        // Bin k and its mirror carry the same mask to keep the output real.
+        const mirror = (frameSize - k) % frameSize;
+        percussiveRe[k] = re[k] * amount;
+        percussiveIm[k] = im[k] * amount;
+        re[k] -= percussiveRe[k];
+        im[k] -= percussiveIm[k];
+        if (mirror !== k) {
+          percussiveRe[mirror] = re[mirror] * amount;
+          percussiveIm[mirror] = im[mirror] * amount;
+          re[mirror] -= percussiveRe[mirror];
+          im[mirror] -= percussiveIm[mirror];
+        }
+      }
+      stft.synthesize(re, im, frame, harmonic.channels[c]);
+      stft.synthesize(percussiveRe, percussiveIm, frame, percussive.channels[c]);
+    }
+  });
+
+  return { harmonic, percussive };
+}
@@ -0,0 +1,158 @@
+import { FFT } from "./fft";
+import { pcmLength, type PcmAudio } from "./types";
+import { type KeyMode } from "@shared/schema";
+
+// Key estimation by matching a chromagram against Krumhansl-Kessler tonal
+// hierarchy profiles. Phrygian is scored alongside major and minor, and the
+// dark modes get a head start since drill sits almost entirely in them; a
+// source ambiguous between C major and A minor reads as A minor.
+
+const FRAME_SIZE = 8192;
+const HOP_SIZE = 4096;
+// Pitches outside this band are mostly drums, rumble or harmonics.
+const MIN_FREQUENCY = 80;
+const MAX_FREQUENCY = 5000;
+const DARK_MODE_BIAS = 0.05;
+// A section has to fit its own key this much better than the current one
+// before it counts as a key change.
+const KEY_CHANGE_MARGIN = 0.1;
+
+export const PITCH_CLASSES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+// Minor with the flat second taking the second degree's weight.
+const PHRYGIAN_PROFILE = [6.33, 3.52, 2.68, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const PROFILES: { mode: KeyMode; profile: number[]; bias: number }[] = [
+  { mode: "major", profile: MAJOR_PROFILE, bias: 0 },
+  { mode: "minor", profile: MINOR_PROFILE, bias: DARK_MODE_BIAS },
+  { mode: "phrygian", profile: PHRYGIAN_PROFILE, bias: DARK_MODE_BIAS },
+];
+
+export interface KeyEstimate {
+  // Tonic pitch class, 0 = C.
+  tonic: number;
+  mode: KeyMode;
+  // Profile correlation including the mode bias.
+  score: number;
+}
+
+export interface KeySection extends KeyEstimate {
+  // Seconds.
+  start: number;
+}
+
+// Per-frame pitch class energy of the mono mix, from spectral peaks so
+// broadband drum hits add little.
+function chromagram(audio: PcmAudio): Float64Array[] {
+  const { sampleRate, channels } = audio;
+  const length = pcmLength(audio);
+  const fft = new FFT(FRAME_SIZE);
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+
+  const binHz = sampleRate / FRAME_SIZE;
+  const lowBin = Math.max(1, Math.floor(MIN_FREQUENCY / binHz));
+  const highBin = Math.min(FRAME_SIZE / 2 - 1, Math.ceil(MAX_FREQUENCY / binHz));
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  const magnitude = new Float64Array(FRAME_SIZE / 2);
+  const frames: Float64Array[] = [];
+
+  for (let start = 0; start + FRAME_SIZE <= length; start += HOP_SIZE) {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      let sample = 0;
+      for (const channel of channels) sample += channel[start + i];
+      re[i] = (sample / channels.length) * window[i];
+      im[i] = 0;
+    }
+    fft.forward(re, im);
+    for (let k = lowBin - 1; k <= highBin + 1; k++) magnitude[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+
+    const chroma = new Float64Array(12);
+    for (let k = lowBin; k <= highBin; k++) {
+      const m = magnitude[k];
+      if (m <= magnitude[k - 1] || m < magnitude[k + 1]) continue;
+      // Parabolic interpolation for the peak's true frequency.
+      const denominator = magnitude[k - 1] - 2 * m + magnitude[k + 1];
+      const shift = denominator !== 0 ? (0.5 * (magnitude[k - 1] - magnitude[k + 1])) / denominator : 0;
+      const midi = 69 + 12 * Math.log2(((k + shift) * binHz) / 440);
+      chroma[((Math.round(midi) % 12) + 12) % 12] += Math.sqrt(m);
+    }
+    frames.push(chroma);
+  }
+  return frames;
+}
+
+function correlate(chroma: ArrayLike<number>, profile: number[], tonic: number): number {
+  let meanChroma = 0;
+  let meanProfile = 0;
+  for (let i = 0; i < 12; i++) {
+    meanChroma += chroma[i] / 12;
+    meanProfile += profile[i] / 12;
+  }
+  let covariance = 0;
+  let chromaVariance = 0;
+  let profileVariance = 0;
+  for (let i = 0; i < 12; i++) {
+    const c = chroma[(tonic + i) % 12] - meanChroma;
+    const p = profile[i] - meanProfile;
+    covariance += c * p;
+    chromaVariance += c * c;
+    profileVariance += p * p;
+  }
+  return chromaVariance > 0 ? covariance / Math.sqrt(chromaVariance * profileVariance) : 0;
+}
+
+function scoreKey(chroma: ArrayLike<number>, tonic: number, mode: KeyMode): number {
+  const { profile, bias } = PROFILES.find(entry => entry.mode === mode)!;
+  return correlate(chroma, profile, tonic) + bias;
+}
+
+function bestKey(chroma: ArrayLike<number>): KeyEstimate | null {
+  let best: KeyEstimate | null = null;
+  for (const { mode } of PROFILES) {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      const score = scoreKey(chroma, tonic, mode);
+      if (!best || score > best.score) best = { tonic, mode, score };
+    }
+  }
+  return best;
+}
+
+function sumFrames(frames: Float64Array[], from: number, to: number): Float64Array {
+  const total = new Float64Array(12);
+  for (let f = from; f < to; f++) {
+    for (let i = 0; i < 12; i++) total[i] += frames[f][i];
+  }
+  return total;
+}
+
+// Estimates the overall key of `audio` and, splitting it into sections of
+// `sectionSeconds`, where the key changes. `sections` always starts with the
+// key in force at 0, then holds an entry per change. Returns null when
+// there is no pitched content to go on.
+export function estimateKey(
+  audio: PcmAudio,
+  sectionSeconds: number,
+): { key: KeyEstimate; sections: KeySection[] } | null {
+  const frames = chromagram(audio);
+  const key = bestKey(sumFrames(frames, 0, frames.length));
+  if (!key || key.score <= DARK_MODE_BIAS) return null;
+
+  const framesPerSection = Math.max(1, Math.round((sectionSeconds * audio.sampleRate) / HOP_SIZE));
+  const sections: KeySection[] = [];
+  let current = key;
+  for (let from = 0; from < frames.length; from += framesPerSection) {
+    const chroma = sumFrames(frames, from, Math.min(frames.length, from + framesPerSection));
+    const local = bestKey(chroma) ?? key;
+    const start = (from * HOP_SIZE) / audio.sampleRate;
+    if (local.score - scoreKey(chroma, current.tonic, current.mode) > KEY_CHANGE_MARGIN) current = local;
+    if (sections.length === 0 || sections[sections.length - 1].tonic !== current.tonic ||
+        sections[sections.length - 1].mode !== current.mode) {
+      sections.push({ ...current, start });
+    }
+  }
+  return { key, sections };
+}
@@ -0,0 +1,206 @@
+import { type LoudnessMeasurement } from "@shared/schema";
+import { besselI0, gainToDb } from "./dsp";
+import { pcmLength, type PcmAudio } from "./types";
+
+// Loudness measurement after ITU-R BS.1770-4 and EBU Tech 3342: K-weighted,
+// gated integrated loudness, loudness range from gated short-term loudness
+// and true peak from a 4x oversampled signal.
+
+// K-weighting: a high shelf for the head's acoustic effect, then the RLB
+// high-pass. These analog prototypes give the standard's 48 kHz
+// coefficients through the bilinear transform and carry over to any rate.
+const SHELF = { frequency: 1681.974450955533, q: 0.7071752369554196, gainDb: 3.999843853973347 };
+const SHELF_BAND_EXPONENT = 0.4996667741545416;
+const RLB = { frequency: 38.13547087602444, q: 0.5003270373238773 };
+// Power is summed over 100 ms segments; momentary blocks span four of them
+// and short-term windows thirty.
+const SEGMENT_SECONDS = 0.1;
+const BLOCK_SEGMENTS = 4;
+const SHORT_TERM_SEGMENTS = 30;
+const ABSOLUTE_GATE_LUFS = -70;
+const INTEGRATED_RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+// Silence reads as this floor rather than -Infinity, which JSON can't hold.
+const FLOOR_DB = -120;
+const OVERSAMPLING = 4;
+// Interpolation filter taps per oversampled phase, as in the standard.
+const INTERPOLATION_TAPS = 12;
+
+// Both K-weighting stages, designed for `sampleRate`.
+class KWeighting {
+  // Shelf and high-pass coefficients, normalised by a0.
+  private readonly shelf: number[];
+  private readonly highpass: number[];
+  private x1 = 0;
+  private x2 = 0;
+  private m1 = 0;
+  private m2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(sampleRate: number) {
+    const k = Math.tan((Math.PI * SHELF.frequency) / sampleRate);
+    const vh = Math.pow(10, SHELF.gainDb / 20);
+    const vb = Math.pow(vh, SHELF_BAND_EXPONENT);
+    const a0 = 1 + k / SHELF.q + k * k;
+    this.shelf = [
+      (vh + (vb * k) / SHELF.q + k * k) / a0,
+      (2 * (k * k - vh)) / a0,
+      (vh - (vb * k) / SHELF.q + k * k) / a0,
+      (2 * (k * k - 1)) / a0,
+      (1 - k / SHELF.q + k * k) / a0,
+    ];
+    const r = Math.tan((Math.PI * RLB.frequency) / sampleRate);
+    const r0 = 1 + r / RLB.q + r * r;
+    this.highpass = [1, -2, 1, (2 * (r * r - 1)) / r0, (1 - r / RLB.q + r * r) / r0];
+  }
+
+  process(x: number): number {
+    const [b0, b1, b2, a1, a2] = this.shelf;
+    const m = b0 * x + b1 * this.x1 + b2 * this.x2 - a1 * this.m1 - a2 * this.m2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    const [c0, c1, c2, d1, d2] = this.highpass;
+    const y = c0 * m + c1 * this.m1 + c2 * this.m2 - d1 * this.y1 - d2 * this.y2;
+    this.m2 = this.m1;
+    this.m1 = m;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+function powerToLufs(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+// K-weighted power of each 100 ms segment, summed over channels.
+function segmentPowers(audio: PcmAudio): Float64Array {
+  const length = pcmLength(audio);
+  const segment = Math.round(SEGMENT_SECONDS * audio.sampleRate);
+  const powers = new Float64Array(Math.floor(length / segment));
+  for (const channel of audio.channels) {
+    const filter = new KWeighting(audio.sampleRate);
+    for (let s = 0; s < powers.length; s++) {
+      let sum = 0;
+      for (let i = s * segment; i < (s + 1) * segment; i++) {
+        const weighted = filter.process(channel[i]);
+        sum += weighted * weighted;
+      }
+      powers[s] += sum / segment;
+    }
+  }
+  return powers;
+}
+
+// Mean powers of windows `size` segments long, one starting at every segment.
+function windowPowers(segments: Float64Array, size: number): number[] {
+  const windows: number[] = [];
+  let sum = 0;
+  for (let s = 0; s < segments.length; s++) {
+    sum += segments[s];
+    if (s >= size) sum -= segments[s - size];
+    if (s >= size - 1) windows.push(sum / size);
+  }
+  return windows;
+}
+
+// Powers that pass the absolute gate and then a gate `relative` LU below
+// their own mean.
+function gate(powers: number[], relative: number): number[] {
+  const absolute = powers.filter(power => powerToLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (absolute.length === 0) return [];
+  const mean = absolute.reduce((sum, power) => sum + power, 0) / absolute.length;
+  const threshold = powerToLufs(mean) + relative;
+  return absolute.filter(power => powerToLufs(power) > threshold);
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+let interpolationTable: Float64Array | null = null;
+
+// Windowed sinc taps for the oversampled phases between two samples, each
+// phase normalised to unity gain at DC.
+function interpolationTaps(): Float64Array {
+  if (interpolationTable) return interpolationTable;
+  const half = INTERPOLATION_TAPS / 2;
+  const table = new Float64Array((OVERSAMPLING - 1) * INTERPOLATION_TAPS);
+  const beta = 6;
+  for (let phase = 1; phase < OVERSAMPLING; phase++) {
+    const row = (phase - 1) * INTERPOLATION_TAPS;
+    let sum = 0;
+    for (let j = 0; j < INTERPOLATION_TAPS; j++) {
+      // Distance from the interpolated point to tap sample n - half + 1 + j.
+      const t = phase / OVERSAMPLING + half - 1 - j;
+      const r = t / half;
+      const window = Math.abs(r) < 1 ? besselI0(beta * Math.sqrt(1 - r * r)) / besselI0(beta) : 0;
+      table[row + j] = (Math.sin(Math.PI * t) / (Math.PI * t)) * window;
+      sum += table[row + j];
+    }
+    for (let j = 0; j < INTERPOLATION_TAPS; j++) table[row + j] /= sum;
+  }
+  interpolationTable = table;
+  return table;
+}
+
+// Highest absolute value of the 4x oversampled signal over each sample and
+// the span up to the next one, across all channels.
+export function truePeakEnvelope(audio: PcmAudio): Float32Array {
+  const length = pcmLength(audio);
+  const taps = interpolationTaps();
+  const half = INTERPOLATION_TAPS / 2;
+  const envelope = new Float32Array(length);
+  for (const channel of audio.channels) {
+    for (let n = 0; n < length; n++) {
+      let peak = Math.abs(channel[n]);
+      const first = n - half + 1;
+      const inside = first >= 0 && first + INTERPOLATION_TAPS <= length;
+      for (let phase = 0; phase < OVERSAMPLING - 1; phase++) {
+        const row = phase * INTERPOLATION_TAPS;
+        let sum = 0;
+        if (inside) {
+          for (let j = 0; j < INTERPOLATION_TAPS; j++) sum += channel[first + j] * taps[row + j];
+        } else {
+          for (let j = 0; j < INTERPOLATION_TAPS; j++) {
+            const index = first + j;
+            if (index >= 0 && index < length) sum += channel[index] * taps[row + j];
+          }
+        }
+        if (Math.abs(sum) > peak) peak = Math.abs(sum);
+      }
+      if (peak > envelope[n]) envelope[n] = peak;
+    }
+  }
+  return envelope;
+}
+
+// Gated integrated loudness in LUFS; -Infinity when nothing passes the gates.
+export function integratedLoudness(audio: PcmAudio): number {
+  const blocks = gate(windowPowers(segmentPowers(audio), BLOCK_SEGMENTS), INTEGRATED_RELATIVE_GATE);
+  if (blocks.length === 0) return -Infinity;
+  return powerToLufs(blocks.reduce((sum, power) => sum + power, 0) / blocks.length);
+}
+
+export function measureLoudness(audio: PcmAudio): LoudnessMeasurement {
+  const segments = segmentPowers(audio);
+  const blocks = gate(windowPowers(segments, BLOCK_SEGMENTS), INTEGRATED_RELATIVE_GATE);
+  const integrated = blocks.length > 0
+    ? powerToLufs(blocks.reduce((sum, power) => sum + power, 0) / blocks.length)
+    : FLOOR_DB;
+
+  const shortTerm = gate(windowPowers(segments, SHORT_TERM_SEGMENTS), RANGE_RELATIVE_GATE)
+    .map(powerToLufs)
+    .sort((a, b) => a - b);
+  const range = shortTerm.length > 1 ? percentile(shortTerm, 0.95) - percentile(shortTerm, 0.1) : 0;
+
+  const envelope = truePeakEnvelope(audio);
+  let peak = 0;
+  for (let i = 0; i < envelope.length; i++) if (envelope[i] > peak) peak = envelope[i];
+
+  return { integrated, range, truePeak: Math.max(FLOOR_DB, gainToDb(peak)) };
+}
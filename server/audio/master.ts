@@ -0,0 +1,199 @@
+import { type LoudnessMeasurement } from "@shared/schema";
+import { Biquad, dbToGain } from "./dsp";
+import { integratedLoudness, measureLoudness, truePeakEnvelope } from "./loudness";
+import { createPcm, pcmLength, type PcmAudio } from "./types";
+
+// Mastering: the low end is folded to mono, three bands are compressed
+// separately, then the master is gained to the loudness target behind a
+// true-peak limiter. Band splits subtract a Linkwitz-Riley low-pass from the
+// signal, so untouched bands sum back to the input exactly.
+
+const MONO_BASS_HZ = 120;
+const CROSSOVERS_HZ = [120, 2500];
+const KNEE_DB = 6;
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+// Limiting takes some loudness back, so the gain is corrected and the
+// limiter rerun until the output lands this close to the target.
+const LOUDNESS_TOLERANCE = 0.1;
+const MAX_LOUDNESS_PASSES = 4;
+
+interface BandCompressor {
+  thresholdDb: number;
+  ratio: number;
+  attackSeconds: number;
+  releaseSeconds: number;
+}
+
+// Low, mid and high bands. The low band's slow attack lets 808 and kick
+// transients through before it clamps down.
+const BANDS: BandCompressor[] = [
+  { thresholdDb: -18, ratio: 3, attackSeconds: 0.03, releaseSeconds: 0.2 },
+  { thresholdDb: -20, ratio: 2.5, attackSeconds: 0.01, releaseSeconds: 0.15 },
+  { thresholdDb: -22, ratio: 2, attackSeconds: 0.005, releaseSeconds: 0.1 },
+];
+
+export interface MasteringOptions {
+  // Integrated loudness of the output, LUFS.
+  targetLufs: number;
+  // Highest true peak allowed, dBTP.
+  ceilingDbtp: number;
+}
+
+export interface MasteringResult {
+  input: LoudnessMeasurement;
+  output: LoudnessMeasurement;
+}
+
+// Fourth order Linkwitz-Riley low-pass of `signal`, as a new buffer.
+function linkwitzRiley(signal: Float32Array, sampleRate: number, frequency: number): Float32Array {
+  const out = signal.slice();
+  new Biquad("lowpass", sampleRate, frequency).processBuffer(out);
+  new Biquad("lowpass", sampleRate, frequency).processBuffer(out);
+  return out;
+}
+
+// Removes everything below MONO_BASS_HZ from the side channel.
+function monoBass(audio: PcmAudio) {
+  if (audio.channels.length !== 2) return;
+  const [left, right] = audio.channels;
+  const side = new Float32Array(left.length);
+  for (let i = 0; i < side.length; i++) side[i] = (left[i] - right[i]) / 2;
+  const lows = linkwitzRiley(side, audio.sampleRate, MONO_BASS_HZ);
+  for (let i = 0; i < side.length; i++) {
+    left[i] -= lows[i];
+    right[i] += lows[i];
+  }
+}
+
+// Splits `audio` at CROSSOVERS_HZ into bands that sum back to it.
+function splitBands(audio: PcmAudio): PcmAudio[] {
+  const length = pcmLength(audio);
+  const bands = BANDS.map(() => createPcm(length, audio.channels.length, audio.sampleRate));
+  audio.channels.forEach((channel, c) => {
+    let rest = channel;
+    CROSSOVERS_HZ.forEach((frequency, index) => {
+      const low = linkwitzRiley(rest, audio.sampleRate, frequency);
+      bands[index].channels[c] = low;
+      const high = new Float32Array(length);
+      for (let i = 0; i < length; i++) high[i] = rest[i] - low[i];
+      rest = high;
+    });
+    bands[bands.length - 1].channels[c] = rest;
+  });
+  return bands;
+}
+
+// Gain reduction in dB for a level in dBFS, with a soft knee.
+function gainReduction(levelDb: number, band: BandCompressor): number {
+  const over = levelDb - band.thresholdDb;
+  const slope = 1 / band.ratio - 1;
+  if (2 * over < -KNEE_DB) return 0;
+  if (2 * Math.abs(over) <= KNEE_DB) return (slope * (over + KNEE_DB / 2) * (over + KNEE_DB / 2)) / (2 * KNEE_DB);
+  return slope * over;
+}
+
+// Feed-forward compression with one detector over all channels, so the
+// stereo image doesn't shift.
+function compress(audio: PcmAudio, band: BandCompressor) {
+  const length = pcmLength(audio);
+  const attack = Math.exp(-1 / (band.attackSeconds * audio.sampleRate));
+  const release = Math.exp(-1 / (band.releaseSeconds * audio.sampleRate));
+  let reduction = 0;
+  for (let i = 0; i < length; i++) {
+    let peak = 0;
+    for (const channel of audio.channels) peak = Math.max(peak, Math.abs(channel[i]));
+    const target = peak > 0 ? gainReduction(20 * Math.log10(peak), band) : 0;
+    const coefficient = target < reduction ? attack : release;
+    reduction = coefficient * reduction + (1 - coefficient) * target;
+    const gain = dbToGain(reduction);
+    for (const channel of audio.channels) channel[i] *= gain;
+  }
+}
+
+// Brickwall limiter on the 4x oversampled peaks, `peaks` being the true
+// peak envelope of `audio` before it was scaled by `peakGain`. Each sample's
+// required gain is held over the lookahead window, released smoothly and
+// then averaged over the window, which ramps the gain down ahead of every
+// peak and never lets it exceed what the peak needs.
+function limit(audio: PcmAudio, ceilingDbtp: number, peaks: Float32Array, peakGain: number) {
+  const length = pcmLength(audio);
+  const ceiling = dbToGain(ceilingDbtp) / peakGain;
+  const window = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * audio.sampleRate));
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * audio.sampleRate));
+
+  // A peak between two samples constrains both.
+  const required = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const peak = Math.max(peaks[i], i > 0 ? peaks[i - 1] : 0);
+    required[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  // Minimum over the window starting at each sample, with a monotonic queue.
+  const held = new Float32Array(length);
+  const queue = new Int32Array(length);
+  let head = 0;
+  let tail = 0;
+  for (let end = 0; end < length + window - 1; end++) {
+    if (end < length) {
+      while (tail > head && required[queue[tail - 1]] >= required[end]) tail--;
+      queue[tail++] = end;
+    }
+    const start = end - window + 1;
+    if (start < 0) continue;
+    while (queue[head] < start) head++;
+    held[start] = required[queue[head]];
+  }
+
+  // Instant attack, exponential release.
+  for (let i = 1; i < length; i++) {
+    if (held[i] > held[i - 1]) held[i] = held[i - 1] + (held[i] - held[i - 1]) * release;
+  }
+
+  let sum = held[0] * window;
+  for (let i = 0; i < length; i++) {
+    sum += held[i] - (i >= window ? held[i - window] : held[0]);
+    const gain = sum / window;
+    for (const channel of audio.channels) channel[i] *= gain;
+  }
+}
+
+function copyPcm(audio: PcmAudio): PcmAudio {
+  return { sampleRate: audio.sampleRate, channels: audio.channels.map(channel => channel.slice()) };
+}
+
+// Masters `audio` in place and returns its loudness before and after.
+export function master(audio: PcmAudio, options: MasteringOptions): MasteringResult {
+  const input = measureLoudness(audio);
+  monoBass(audio);
+  const bands = splitBands(audio);
+  bands.forEach((band, index) => compress(band, BANDS[index]));
+  audio.channels.forEach((channel, c) => {
+    channel.fill(0);
+    for (const band of bands) {
+      const source = band.channels[c];
+      for (let i = 0; i < channel.length; i++) channel[i] += source[i];
+    }
+  });
+
+  // Gain scales the true peaks along with everything else, so the envelope
+  // is only worked out once.
+  const peaks = truePeakEnvelope(audio);
+  const compressed = integratedLoudness(audio);
+  let gainDb = Number.isFinite(compressed) ? options.targetLufs - compressed : 0;
+  let limited = audio;
+  for (let pass = 0; pass < MAX_LOUDNESS_PASSES; pass++) {
+    limited = copyPcm(audio);
+    const gain = dbToGain(gainDb);
+    for (const channel of limited.channels) {
+      for (let i = 0; i < channel.length; i++) channel[i] *= gain;
+    }
+    limit(limited, options.ceilingDbtp, peaks, gain);
+    const miss = options.targetLufs - integratedLoudness(limited);
+    if (!Number.isFinite(miss) || Math.abs(miss) < LOUDNESS_TOLERANCE) break;
+    gainDb += miss;
+  }
+
+  limited.channels.forEach((channel, c) => audio.channels[c].set(channel));
+  return { input, output: measureLoudness(audio) };
+}
@@ -0,0 +1,770 @@
+import { BitReader, buildHuffmanTree, decodeHuffman } from "../bits";
+import { createPcm, type AudioTags, type PcmAudio } from "../types";
+import {
+  parseFrameHeader,
+  parseId3v2,
+  parseVbrHeader,
+  sideInfoOffset,
+  type FrameHeader,
+  type VbrInfo,
+} from "./header";
+import {
+  ALIAS_CA,
+  ALIAS_CS,
+  LSF_SFB_COUNTS,
+  PAIR_CODEBOOKS,
+  PAIR_TABLES,
+  PRETAB,
+  QUAD_CODEBOOKS,
+  SFB_LONG,
+  SFB_SHORT,
+  SLEN,
+  SYNTHESIS_WINDOW,
+} from "./tables";
+
+// MPEG-1/2/2.5 Layer III decoder (ISO/IEC 11172-3 and 13818-3), producing
+// float PCM without any native dependencies.
+
+// LAME's reference decoder delay, used to trim encoder delay and padding.
+const DECODER_DELAY = 529;
+
+export interface Mp3DecodeResult {
+  audio: PcmAudio;
+  tags: AudioTags;
+  // Average bitrate in bits per second across decoded frames.
+  bitrate: number;
+  vbr: VbrInfo | null;
+}
+
+interface GranuleInfo {
+  part23Length: number;
+  bigValues: number;
+  globalGain: number;
+  scalefacCompress: number;
+  windowSwitching: boolean;
+  blockType: number;
+  mixedBlock: boolean;
+  tableSelect: number[];
+  subblockGain: number[];
+  region0Count: number;
+  region1Count: number;
+  preflag: number;
+  scalefacScale: number;
+  count1Table: number;
+}
+
+interface SideInfo {
+  mainDataBegin: number;
+  scfsi: number[][];
+  // Indexed [granule][channel].
+  granules: GranuleInfo[][];
+}
+
+// Spectrum partition of one granule: a segment is a long scalefactor band or
+// one window of a short band, in bitstream order.
+interface BandLayout {
+  widths: number[];
+  starts: number[];
+  // -1 for long bands, otherwise the short window.
+  windows: number[];
+  bands: number[];
+  // First line that belongs to short blocks, or 576 for long blocks.
+  shortStart: number;
+}
+
+const PAIR_TREES: Record<number, Int32Array> = {};
+for (const key of Object.keys(PAIR_CODEBOOKS)) {
+  PAIR_TREES[Number(key)] = buildHuffmanTree(PAIR_CODEBOOKS[Number(key)]);
+}
+const QUAD_TREES = QUAD_CODEBOOKS.map(book => buildHuffmanTree(book));
+
+// |x|^(4/3) for every value a Huffman pair plus linbits can produce.
+const POW43 = new Float64Array(8207);
+for (let i = 0; i < POW43.length; i++) POW43[i] = Math.pow(i, 4 / 3);
+
+const IMDCT_LONG = new Float64Array(36 * 18);
+const IMDCT_SHORT = new Float64Array(12 * 6);
+for (let i = 0; i < 36; i++) {
+  for (let k = 0; k < 18; k++) {
+    IMDCT_LONG[i * 18 + k] = Math.cos((Math.PI / 72) * (2 * i + 1 + 18) * (2 * k + 1));
+  }
+}
+for (let i = 0; i < 12; i++) {
+  for (let k = 0; k < 6; k++) {
+    IMDCT_SHORT[i * 6 + k] = Math.cos((Math.PI / 24) * (2 * i + 1 + 6) * (2 * k + 1));
+  }
+}
+
+// Windows for block types 0 (normal), 1 (start) and 3 (stop); type 2 uses
+// SHORT_WINDOW on each of its three 12-point transforms.
+const LONG_WINDOWS: Float64Array[] = [0, 1, 2, 3].map(blockType => {
+  const window = new Float64Array(36);
+  for (let i = 0; i < 36; i++) {
+    const normal = Math.sin((Math.PI / 36) * (i + 0.5));
+    if (blockType === 1) {
+      window[i] = i < 18 ? normal : i < 24 ? 1 : i < 30 ? Math.sin((Math.PI / 12) * (i - 18 + 0.5)) : 0;
+    } else if (blockType === 3) {
+      window[i] = i < 6 ? 0 : i < 12 ? Math.sin((Math.PI / 12) * (i - 6 + 0.5)) : i < 18 ? 1 : normal;
+    } else {
+      window[i] = normal;
+    }
+  }
+  return window;
+});
+const SHORT_WINDOW = Float64Array.from({ length: 12 }, (_, i) => Math.sin((Math.PI / 12) * (i + 0.5)));
+
+// cos(m (2k + 1) pi / 64), the 32-point DCT behind the synthesis matrixing.
+const SYNTH_DCT = new Float64Array(32 * 32);
+for (let m = 0; m < 32; m++) {
+  for (let k = 0; k < 32; k++) SYNTH_DCT[m * 32 + k] = Math.cos((m * (2 * k + 1) * Math.PI) / 64);
+}
+const SYNTH_WINDOW = Float64Array.from(SYNTHESIS_WINDOW, value => value / 65536);
+
+const layoutCache = new Map<string, BandLayout>();
+
+function bandLayout(sampleRate: number, lsf: boolean, blockType: number, mixed: boolean): BandLayout {
+  const kind = blockType !== 2 ? "long" : mixed ? "mixed" : "short";
+  const key = `${sampleRate}:${lsf}:${kind}`;
+  const cached = layoutCache.get(key);
+  if (cached) return cached;
+
+  const layout: BandLayout = { widths: [], starts: [], windows: [], bands: [], shortStart: 576 };
+  const add = (width: number, window: number, band: number) => {
+    layout.starts.push(layout.widths.reduce((sum, w) => sum + w, 0));
+    layout.widths.push(width);
+    layout.windows.push(window);
+    layout.bands.push(band);
+  };
+
+  const longWidths = SFB_LONG[sampleRate];
+  const shortWidths = SFB_SHORT[sampleRate];
+  if (kind === "long") {
+    longWidths.forEach((width, band) => add(width, -1, band));
+  } else {
+    let firstShort = 0;
+    if (kind === "mixed") {
+      const longBands = lsf ? 6 : 8;
+      for (let band = 0; band < longBands; band++) add(longWidths[band], -1, band);
+      firstShort = 3;
+    }
+    layout.shortStart = layout.widths.reduce((sum, w) => sum + w, 0);
+    for (let band = firstShort; band < shortWidths.length; band++) {
+      for (let window = 0; window < 3; window++) add(shortWidths[band], window, band);
+    }
+  }
+
+  layoutCache.set(key, layout);
+  return layout;
+}
+
+function readSideInfo(reader: BitReader, header: FrameHeader): SideInfo {
+  const lsf = header.version !== 1;
+  const channels = header.channels;
+  const mainDataBegin = reader.read(lsf ? 8 : 9);
+  reader.skip(lsf ? (channels === 1 ? 1 : 2) : (channels === 1 ? 5 : 3));
+
+  const scfsi: number[][] = [];
+  for (let ch = 0; ch < channels; ch++) {
+    scfsi.push(lsf ? [0, 0, 0, 0] : [reader.read(1), reader.read(1), reader.read(1), reader.read(1)]);
+  }
+
+  const granules: GranuleInfo[][] = [];
+  for (let gr = 0; gr < (lsf ? 1 : 2); gr++) {
+    const perChannel: GranuleInfo[] = [];
+    for (let ch = 0; ch < channels; ch++) {
+      const info: GranuleInfo = {
+        part23Length: reader.read(12),
+        bigValues: Math.min(reader.read(9), 288),
+        globalGain: reader.read(8),
+        scalefacCompress: reader.read(lsf ? 9 : 4),
+        windowSwitching: reader.read(1) === 1,
+        blockType: 0,
+        mixedBlock: false,
+        tableSelect: [0, 0, 0],
+        subblockGain: [0, 0, 0],
+        region0Count: 0,
+        region1Count: 0,
+        preflag: 0,
+        scalefacScale: 0,
+        count1Table: 0,
+      };
+
+      if (info.windowSwitching) {
+        info.blockType = reader.read(2);
+        info.mixedBlock = reader.read(1) === 1;
+        info.tableSelect = [reader.read(5), reader.read(5), 0];
+        info.subblockGain = [reader.read(3), reader.read(3), reader.read(3)];
+        info.region0Count = info.blockType === 2 && !info.mixedBlock ? 8 : 7;
+        // The second region runs to the end of the big values.
+        info.region1Count = 36;
+      } else {
+        info.tableSelect = [reader.read(5), reader.read(5), reader.read(5)];
+        info.region0Count = reader.read(4);
+        info.region1Count = reader.read(3);
+      }
+
+      if (!lsf) info.preflag = reader.read(1);
+      info.scalefacScale = reader.read(1);
+      info.count1Table = reader.read(1);
+      perChannel.push(info);
+    }
+    granules.push(perChannel);
+  }
+
+  return { mainDataBegin, scfsi, granules };
+}
+
+interface Scalefactors {
+  scf: Int32Array;
+  // LSF intensity stereo: the illegal (maximum) position per segment.
+  isMax: Int32Array;
+  intensityScale: number;
+}
+
+function readScalefactorsMpeg1(
+  reader: BitReader,
+  info: GranuleInfo,
+  layout: BandLayout,
+  scfsi: number[],
+  previous: Int32Array | null,
+): Scalefactors {
+  const scf = new Int32Array(layout.widths.length);
+  const [slen1, slen2] = SLEN[info.scalefacCompress];
+
+  if (info.blockType === 2) {
+    for (let seg = 0; seg < scf.length; seg++) {
+      const band = layout.bands[seg];
+      const bits = layout.windows[seg] < 0 || band < 6 ? slen1 : band < 12 ? slen2 : 0;
+      scf[seg] = bits ? reader.read(bits) : 0;
+    }
+  } else {
+    for (let band = 0; band < 21; band++) {
+      const group = band < 6 ? 0 : band < 11 ? 1 : band < 16 ? 2 : 3;
+      const bits = group < 2 ? slen1 : slen2;
+      if (previous && scfsi[group]) {
+        scf[band] = previous[band];
+      } else {
+        scf[band] = bits ? reader.read(bits) : 0;
+      }
+    }
+  }
+
+  return { scf, isMax: new Int32Array(scf.length), intensityScale: 0 };
+}
+
+function readScalefactorsLsf(
+  reader: BitReader,
+  info: GranuleInfo,
+  layout: BandLayout,
+  intensityChannel: boolean,
+): Scalefactors {
+  let sfc = info.scalefacCompress;
+  let slen: number[];
+  let table: number;
+
+  if (!intensityChannel) {
+    if (sfc < 400) {
+      slen = [Math.floor((sfc >> 4) / 5), (sfc >> 4) % 5, (sfc & 15) >> 2, sfc & 3];
+      table = 0;
+    } else if (sfc < 500) {
+      sfc -= 400;
+      slen = [Math.floor((sfc >> 2) / 5), (sfc >> 2) % 5, sfc & 3, 0];
+      table = 1;
+    } else {
+      sfc -= 500;
+      slen = [Math.floor(sfc / 3), sfc % 3, 0, 0];
+      table = 2;
+      info.preflag = 1;
+    }
+  } else {
+    sfc >>= 1;
+    if (sfc < 180) {
+      slen = [Math.floor(sfc / 36), Math.floor((sfc % 36) / 6), (sfc % 36) % 6, 0];
+      table = 3;
+    } else if (sfc < 244) {
+      sfc -= 180;
+      slen = [(sfc & 63) >> 4, (sfc & 15) >> 2, sfc & 3, 0];
+      table = 4;
+    } else {
+      sfc -= 244;
+      slen = [Math.floor(sfc / 3), sfc % 3, 0, 0];
+      table = 5;
+    }
+  }
+
+  const layoutIndex = info.blockType !== 2 ? 0 : info.mixedBlock ? 2 : 1;
+  const counts = LSF_SFB_COUNTS[table][layoutIndex];
+  const scf = new Int32Array(layout.widths.length);
+  const isMax = new Int32Array(layout.widths.length);
+  let seg = 0;
+  for (let part = 0; part < 4; part++) {
+    for (let i = 0; i < counts[part] && seg < scf.length; i++, seg++) {
+      scf[seg] = slen[part] ? reader.read(slen[part]) : 0;
+      isMax[seg] = (1 << slen[part]) - 1;
+    }
+  }
+
+  return { scf, isMax, intensityScale: info.scalefacCompress & 1 };
+}
+
+// Decodes the Huffman coded spectrum up to `end` and returns one past the last
+// line that may be non-zero.
+function readSpectrum(
+  reader: BitReader,
+  info: GranuleInfo,
+  layout: BandLayout,
+  end: number,
+  out: Int32Array,
+): number {
+  out.fill(0);
+  const bigEnd = info.bigValues * 2;
+  const sumWidths = (count: number) => {
+    let total = 0;
+    for (let i = 0; i < count && i < layout.widths.length; i++) total += layout.widths[i];
+    return total;
+  };
+  const region1Start = sumWidths(info.region0Count + 1);
+  const region2Start = info.windowSwitching ? 576 : sumWidths(info.region0Count + info.region1Count + 2);
+
+  let i = 0;
+  for (; i < bigEnd; i += 2) {
+    const table = info.tableSelect[i < region1Start ? 0 : i < region2Start ? 1 : 2];
+    const [bookIndex, linbits] = PAIR_TABLES[table];
+    if (bookIndex === 0) continue;
+    const size = PAIR_CODEBOOKS[bookIndex].size;
+    const symbol = decodeHuffman(PAIR_TREES[bookIndex], reader);
+    let x = Math.floor(symbol / size);
+    let y = symbol % size;
+    if (linbits && x === 15) x += reader.read(linbits);
+    if (x && reader.readBit()) x = -x;
+    if (linbits && y === 15) y += reader.read(linbits);
+    if (y && reader.readBit()) y = -y;
+    out[i] = x;
+    out[i + 1] = y;
+  }
+
+  const quadTree = QUAD_TREES[info.count1Table];
+  while (i + 4 <= 576 && reader.position < end) {
+    const symbol = decodeHuffman(quadTree, reader);
+    for (let bit = 3; bit >= 0; bit--) {
+      let value = (symbol >> bit) & 1;
+      if (value && reader.readBit()) value = -1;
+      out[i + 3 - bit] = value;
+    }
+    i += 4;
+  }
+  // A quadruple that ran past part2_3_length is padding, not data.
+  if (reader.position > end && i >= 4) {
+    i -= 4;
+    out.fill(0, i, i + 4);
+  }
+
+  return i;
+}
+
+function requantize(
+  values: Int32Array,
+  nonzeroEnd: number,
+  info: GranuleInfo,
+  layout: BandLayout,
+  scf: Int32Array,
+  xr: Float64Array,
+) {
+  xr.fill(0);
+  const multiplier = info.scalefacScale ? 1 : 0.5;
+  for (let seg = 0; seg < layout.widths.length; seg++) {
+    const start = layout.starts[seg];
+    if (start >= nonzeroEnd) break;
+    const window = layout.windows[seg];
+    const exponent = window < 0
+      ? 0.25 * (info.globalGain - 210) - multiplier * (scf[seg] + (info.preflag ? PRETAB[layout.bands[seg]] : 0))
+      : 0.25 * (info.globalGain - 210 - 8 * info.subblockGain[window]) - multiplier * scf[seg];
+    const gain = Math.pow(2, exponent);
+    const end = Math.min(nonzeroEnd, start + layout.widths[seg]);
+    for (let j = start; j < end; j++) {
+      const q = values[j];
+      if (q > 0) xr[j] = POW43[q] * gain;
+      else if (q < 0) xr[j] = -POW43[-q] * gain;
+    }
+  }
+}
+
+function segmentHasData(xr: Float64Array, start: number, width: number): boolean {
+  for (let j = start; j < start + width; j++) if (xr[j] !== 0) return true;
+  return false;
+}
+
+function processStereo(
+  header: FrameHeader,
+  xr: Float64Array[],
+  layout: BandLayout,
+  right: Scalefactors,
+) {
+  if (header.mode !== "joint") return;
+  const midSide = (header.modeExtension & 2) !== 0;
+  const intensity = (header.modeExtension & 1) !== 0;
+  const lsf = header.version !== 1;
+  const handled = new Uint8Array(576);
+
+  if (intensity) {
+    // Highest band per window class that still carries right channel data;
+    // index 0 is long blocks, 1-3 the short windows.
+    const lastNonzero = [-1, -1, -1, -1];
+    for (let seg = 0; seg < layout.widths.length; seg++) {
+      if (segmentHasData(xr[1], layout.starts[seg], layout.widths[seg])) {
+        const cls = layout.windows[seg] + 1;
+        lastNonzero[cls] = Math.max(lastNonzero[cls], layout.bands[seg]);
+      }
+    }
+    const shortHasData = lastNonzero[1] >= 0 || lastNonzero[2] >= 0 || lastNonzero[3] >= 0;
+    const io = right.intensityScale ? Math.SQRT1_2 : Math.pow(2, -0.25);
+
+    for (let seg = 0; seg < layout.widths.length; seg++) {
+      const window = layout.windows[seg];
+      const band = layout.bands[seg];
+      if (band <= lastNonzero[window + 1]) continue;
+      if (window < 0 && layout.shortStart < 576 && shortHasData) continue;
+
+      // The top band carries no scalefactor and reuses the one below it.
+      const isTop = window < 0 ? band === 21 : band === 12;
+      const source = isTop ? seg - (window < 0 ? 1 : 3) : seg;
+      if (source < 0) continue;
+      const position = right.scf[source];
+
+      let left: number;
+      let rightGain: number;
+      if (!lsf) {
+        if (position >= 7) continue;
+        const ratio = Math.tan((position * Math.PI) / 12);
+        left = ratio / (1 + ratio);
+        rightGain = 1 / (1 + ratio);
+      } else {
+        if (position === right.isMax[source]) continue;
+        if (position === 0) {
+          left = 1;
+          rightGain = 1;
+        } else if (position & 1) {
+          left = Math.pow(io, (position + 1) >> 1);
+          rightGain = 1;
+        } else {
+          left = 1;
+          rightGain = Math.pow(io, position >> 1);
+        }
+      }
+
+      const start = layout.starts[seg];
+      for (let j = start; j < start + layout.widths[seg]; j++) {
+        const value = xr[0][j];
+        xr[0][j] = value * left;
+        xr[1][j] = value * rightGain;
+        handled[j] = 1;
+      }
+    }
+  }
+
+  if (midSide) {
+    for (let j = 0; j < 576; j++) {
+      if (handled[j]) continue;
+      const mid = xr[0][j];
+      const side = xr[1][j];
+      xr[0][j] = (mid + side) * Math.SQRT1_2;
+      xr[1][j] = (mid - side) * Math.SQRT1_2;
+    }
+  }
+}
+
+// Short block lines arrive ordered by band then window; the IMDCT wants each
+// subband's 18 lines as three runs of six, one per window.
+function reorderShort(xr: Float64Array, layout: BandLayout) {
+  const start = layout.shortStart;
+  if (start >= 576) return;
+  const tmp = new Float64Array(576);
+  const counters = [start / 3, start / 3, start / 3];
+  for (let seg = 0; seg < layout.widths.length; seg++) {
+    const window = layout.windows[seg];
+    if (window < 0) continue;
+    const segStart = layout.starts[seg];
+    for (let j = 0; j < layout.widths[seg]; j++) {
+      const n = counters[window]++;
+      tmp[Math.floor(n / 6) * 18 + window * 6 + (n % 6)] = xr[segStart + j];
+    }
+  }
+  xr.set(tmp.subarray(start), start);
+}
+
+function antialias(xr: Float64Array, info: GranuleInfo) {
+  if (info.blockType === 2 && !info.mixedBlock) return;
+  const boundaries = info.blockType === 2 ? 1 : 31;
+  for (let sb = 1; sb <= boundaries; sb++) {
+    for (let i = 0; i < 8; i++) {
+      const lo = sb * 18 - 1 - i;
+      const hi = sb * 18 + i;
+      const a = xr[lo];
+      const b = xr[hi];
+      xr[lo] = a * ALIAS_CS[i] - b * ALIAS_CA[i];
+      xr[hi] = b * ALIAS_CS[i] + a * ALIAS_CA[i];
+    }
+  }
+}
+
+class ChannelState {
+  overlap = new Float64Array(576);
+  synth = new Float64Array(1024);
+  synthOffset = 0;
+}
+
+const raw = new Float64Array(36);
+
+// IMDCT with overlap-add into `out` (subband-major, 18 samples per subband),
+// followed by frequency inversion of the odd subbands.
+function hybridSynthesis(xr: Float64Array, info: GranuleInfo, state: ChannelState, out: Float64Array) {
+  let lastLine = 575;
+  while (lastLine >= 0 && xr[lastLine] === 0) lastLine--;
+  const activeSubbands = Math.floor(lastLine / 18) + 1;
+
+  for (let sb = 0; sb < 32; sb++) {
+    const base = sb * 18;
+    if (sb >= activeSubbands) {
+      for (let i = 0; i < 18; i++) {
+        out[base + i] = state.overlap[base + i];
+        state.overlap[base + i] = 0;
+      }
+    } else {
+      const blockType = info.mixedBlock && sb < 2 ? 0 : info.blockType;
+      raw.fill(0);
+      if (blockType !== 2) {
+        const window = LONG_WINDOWS[blockType];
+        for (let i = 0; i < 36; i++) {
+          let sum = 0;
+          const row = i * 18;
+          for (let k = 0; k < 18; k++) sum += xr[base + k] * IMDCT_LONG[row + k];
+          raw[i] = sum * window[i];
+        }
+      } else {
+        for (let w = 0; w < 3; w++) {
+          for (let i = 0; i < 12; i++) {
+            let sum = 0;
+            for (let k = 0; k < 6; k++) sum += xr[base + w * 6 + k] * IMDCT_SHORT[i * 6 + k];
+            raw[6 + 6 * w + i] += sum * SHORT_WINDOW[i];
+          }
+        }
+      }
+      for (let i = 0; i < 18; i++) {
+        out[base + i] = raw[i] + state.overlap[base + i];
+        state.overlap[base + i] = raw[18 + i];
+      }
+    }
+
+    if (sb & 1) {
+      for (let i = 1; i < 18; i += 2) out[base + i] = -out[base + i];
+    }
+  }
+}
+
+const subbandSamples = new Float64Array(32);
+const dct = new Float64Array(32);
+
+// Polyphase synthesis filterbank: 18 time slots of 32 subband samples become
+// 576 PCM samples written to `pcm` at `offset`.
+function polyphaseSynthesis(hybrid: Float64Array, state: ChannelState, pcm: Float32Array, offset: number) {
+  const v = state.synth;
+  for (let t = 0; t < 18; t++) {
+    for (let k = 0; k < 32; k++) subbandSamples[k] = hybrid[k * 18 + t];
+    for (let m = 0; m < 32; m++) {
+      let sum = 0;
+      const row = m * 32;
+      for (let k = 0; k < 32; k++) sum += subbandSamples[k] * SYNTH_DCT[row + k];
+      dct[m] = sum;
+    }
+
+    const o = (state.synthOffset = (state.synthOffset - 64) & 1023);
+    for (let i = 0; i < 16; i++) v[o + i] = dct[i + 16];
+    v[o + 16] = 0;
+    for (let i = 17; i < 48; i++) v[o + i] = -dct[48 - i];
+    for (let i = 48; i < 64; i++) v[o + i] = -dct[i - 48];
+
+    const outBase = offset + t * 32;
+    for (let j = 0; j < 32; j++) {
+      let sum = 0;
+      for (let i = 0; i < 8; i++) {
+        sum += v[(o + i * 128 + j) & 1023] * SYNTH_WINDOW[i * 64 + j];
+        sum += v[(o + i * 128 + 96 + j) & 1023] * SYNTH_WINDOW[i * 64 + 32 + j];
+      }
+      if (outBase + j < pcm.length) pcm[outBase + j] = sum;
+    }
+  }
+}
+
+// Stateful frame decoder. Frames must be fed in stream order because of the
+// bit reservoir and the filterbank overlap.
+export class Mp3FrameDecoder {
+  private reservoir = new Uint8Array(0);
+  private readonly states = [new ChannelState(), new ChannelState()];
+  private readonly values = new Int32Array(576);
+  private readonly xr = [new Float64Array(576), new Float64Array(576)];
+  private readonly hybrid = new Float64Array(576);
+
+  // Decodes the frame at `frameOffset` into `out` starting at `outOffset`.
+  // Returns false when the bit reservoir it depends on is missing, in which
+  // case the output is left silent.
+  decodeFrame(bytes: Uint8Array, frameOffset: number, header: FrameHeader, out: Float32Array[], outOffset: number): boolean {
+    const lsf = header.version !== 1;
+    const sideStart = sideInfoOffset(header, frameOffset);
+    const side = readSideInfo(new BitReader(bytes, sideStart), header);
+    const mainStart = sideStart + header.sideInfoLength;
+    const frameEnd = Math.min(bytes.length, frameOffset + header.frameLength);
+    const frameMain = bytes.subarray(mainStart, frameEnd);
+
+    const available = this.reservoir.length;
+    const mainData = new Uint8Array(side.mainDataBegin + frameMain.length);
+    const decodable = side.mainDataBegin <= available;
+    if (decodable) {
+      mainData.set(this.reservoir.subarray(available - side.mainDataBegin));
+      mainData.set(frameMain, side.mainDataBegin);
+    }
+    this.appendReservoir(frameMain);
+    if (!decodable) return false;
+
+    const reader = new BitReader(mainData);
+    const previousScf: (Int32Array | null)[] = [null, null];
+
+    for (let gr = 0; gr < side.granules.length; gr++) {
+      const factors: Scalefactors[] = [];
+      const layouts: BandLayout[] = [];
+
+      for (let ch = 0; ch < header.channels; ch++) {
+        const info = side.granules[gr][ch];
+        const layout = bandLayout(header.sampleRate, lsf, info.blockType, info.mixedBlock);
+        const part2Start = reader.position;
+        const intensityChannel = ch === 1 && header.mode === "joint" && (header.modeExtension & 1) !== 0;
+
+        const scalefactors = lsf
+          ? readScalefactorsLsf(reader, info, layout, intensityChannel)
+          : readScalefactorsMpeg1(reader, info, layout, side.scfsi[ch], gr === 1 ? previousScf[ch] : null);
+        previousScf[ch] = scalefactors.scf;
+
+        const end = part2Start + info.part23Length;
+        const nonzeroEnd = readSpectrum(reader, info, layout, end, this.values);
+        reader.position = end;
+
+        requantize(this.values, nonzeroEnd, info, layout, scalefactors.scf, this.xr[ch]);
+        factors.push(scalefactors);
+        layouts.push(layout);
+      }
+
+      if (header.channels === 2) processStereo(header, this.xr, layouts[1], factors[1]);
+
+      for (let ch = 0; ch < header.channels; ch++) {
+        const info = side.granules[gr][ch];
+        const xr = this.xr[ch];
+        if (info.blockType === 2) reorderShort(xr, layouts[ch]);
+        antialias(xr, info);
+        hybridSynthesis(xr, info, this.states[ch], this.hybrid);
+        polyphaseSynthesis(this.hybrid, this.states[ch], out[Math.min(ch, out.length - 1)], outOffset + gr * 576);
+      }
+    }
+
+    return true;
+  }
+
+  private appendReservoir(bytes: Uint8Array) {
+    // main_data_begin can reach back at most 511 bytes.
+    const keep = Math.min(this.reservoir.length, 511);
+    const next = new Uint8Array(keep + bytes.length);
+    next.set(this.reservoir.subarray(this.reservoir.length - keep));
+    next.set(bytes, keep);
+    this.reservoir = next;
+  }
+}
+
+interface FrameIndex {
+  offsets: number[];
+  headers: FrameHeader[];
+}
+
+// Walks the frame chain, resynchronising past garbage. A candidate header is
+// only trusted when it matches the stream's version and sample rate.
+function indexFrames(bytes: Uint8Array, start: number): FrameIndex {
+  const offsets: number[] = [];
+  const headers: FrameHeader[] = [];
+  let reference: FrameHeader | null = null;
+  let offset = start;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] === 0x54 && bytes[offset + 1] === 0x41 && bytes[offset + 2] === 0x47 && bytes.length - offset <= 128) {
+      break; // ID3v1 "TAG" trailer
+    }
+    const header = parseFrameHeader(bytes, offset);
+    const matches = header && (!reference ||
+      (header.version === reference.version && header.sampleRate === reference.sampleRate));
+    if (!header || !matches) {
+      offset++;
+      continue;
+    }
+    if (!reference) {
+      // Require a second frame right behind the first to rule out false sync.
+      const next = parseFrameHeader(bytes, offset + header.frameLength);
+      if (offset + header.frameLength < bytes.length - 4 && !next) {
+        offset++;
+        continue;
+      }
+      reference = header;
+    }
+    offsets.push(offset);
+    headers.push(header);
+    offset += header.frameLength;
+  }
+
+  return { offsets, headers };
+}
+
+export function isMp3(bytes: Uint8Array): boolean {
+  const id3 = parseId3v2(bytes);
+  const start = id3 ? id3.length : 0;
+  for (let offset = start; offset < Math.min(bytes.length, start + 8192); offset++) {
+    const header = parseFrameHeader(bytes, offset);
+    if (header && parseFrameHeader(bytes, offset + header.frameLength)) return true;
+  }
+  return false;
+}
+
+export function decodeMp3(bytes: Uint8Array): Mp3DecodeResult {
+  const id3 = parseId3v2(bytes);
+  const { offsets, headers } = indexFrames(bytes, id3 ? id3.length : 0);
+  if (offsets.length === 0) throw new Error("No MPEG Layer III frames found");
+
+  const vbr = parseVbrHeader(bytes, offsets[0], headers[0]);
+  const first = vbr ? 1 : 0;
+  const stream = headers[0];
+  const spf = stream.samplesPerFrame;
+  const frameCount = offsets.length - first;
+  const total = frameCount * spf;
+  const pcm = createPcm(total, stream.channels, stream.sampleRate);
+
+  const decoder = new Mp3FrameDecoder();
+  let bits = 0;
+  for (let i = first; i < offsets.length; i++) {
+    const header = headers[i];
+    // Channel mode changes mid-stream are decoded against the first frame's
+    // layout: mono frames fill the left channel only.
+    decoder.decodeFrame(bytes, offsets[i], header, pcm.channels, (i - first) * spf);
+    bits += header.bitrate * (spf / header.sampleRate);
+  }
+
+  let startTrim = 0;
+  let endTrim = 0;
+  if (vbr && vbr.encoderDelay !== undefined) {
+    startTrim = vbr.encoderDelay + DECODER_DELAY;
+    endTrim = Math.max(0, (vbr.encoderPadding ?? 0) - DECODER_DELAY);
+  }
+  const audio: PcmAudio = startTrim + endTrim > 0 && startTrim + endTrim < total
+    ? { sampleRate: pcm.sampleRate, channels: pcm.channels.map(ch => ch.slice(startTrim, total - endTrim)) }
+    : pcm;
+
+  return {
+    audio,
+    tags: id3 ? id3.tags : {},
+    bitrate: Math.round(bits / (total / stream.sampleRate)),
+    vbr,
+  };
+}
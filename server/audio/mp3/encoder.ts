@@ -0,0 +1,741 @@
+import fs from "fs";
+import { BitWriter } from "../bits";
+import { resample } from "../resample";
+import { pcmLength, toChannelCount, type AudioTags, type PcmAudio } from "../types";
+import { encodeId3v2 } from "./header";
+import {
+  ALIAS_CA,
+  ALIAS_CS,
+  BITRATES,
+  PAIR_CODEBOOKS,
+  PAIR_TABLES,
+  QUAD_CODEBOOKS,
+  SAMPLE_RATES,
+  SFB_LONG,
+  SLEN,
+  SYNTHESIS_WINDOW,
+} from "./tables";
+
+// MPEG-1 Layer III encoder. Every granule uses long blocks and frames are
+// self-contained (no bit reservoir), which keeps the encoder simple at some
+// cost in pre-echo and efficiency. Sources at other sample rates are
+// resampled to the nearest MPEG-1 rate.
+
+export type Mp3BitrateMode = "cbr" | "vbr";
+
+export interface Mp3EncodeOptions {
+  mode?: Mp3BitrateMode;
+  // Constant bitrate in kbps, used in CBR mode.
+  bitrate?: number;
+  // VBR quality from 0 (largest, best) to 9 (smallest), like LAME's -V.
+  quality?: number;
+  tags?: AudioTags;
+}
+
+const GRANULE = 576;
+const BAND_COUNT = 22;
+// Largest value a pair can carry: 15 plus 13 linbits.
+const MAX_QUANT = 8206;
+// part2_3_length is a 12-bit field.
+const MAX_GRANULE_BITS = 4095;
+// Scalefactor ranges reachable with the widest slen1/slen2 of 4 and 3 bits.
+const MAX_SCALEFAC = Array.from({ length: BAND_COUNT }, (_, band) => (band < 11 ? 15 : band < 21 ? 7 : 0));
+// Bitrate index used for the Xing frame of VBR streams.
+const VBR_TAG_BITRATE_INDEX = 9;
+// Samples between the input and its reconstruction, split the way the LAME
+// tag records it: the encoder's filterbank and MDCT delay, then the 529 a
+// decoder's synthesis filterbank adds.
+const ENCODER_DELAY = 528;
+const DECODER_DELAY = 529;
+// Decoders only read the gapless fields behind a known encoder string, so
+// the tag is written in LAME's format under its name.
+const LAME_TAG_VERSION = "LAME3.100";
+// "Xing" or "Info", flags, frame and byte counts, and the seek table.
+const XING_TAG_BYTES = 116;
+const LAME_TAG_BYTES = 36;
+
+// LAME's split of the big-values region into three Huffman regions, indexed
+// by the number of scalefactor bands it spans.
+const REGION_SPLIT: [number, number][] = [
+  [0, 0], [0, 0], [0, 0], [0, 0], [0, 0], [0, 1], [1, 1], [1, 1], [1, 2], [2, 2], [2, 3], [2, 3],
+  [3, 4], [3, 4], [3, 4], [4, 5], [4, 5], [4, 6], [5, 6], [5, 6], [5, 7], [6, 7], [6, 7],
+];
+
+// Candidate table_select values by the largest value they must code.
+const SMALL_TABLES: [number, number[]][] = [
+  [1, [1]], [2, [2, 3]], [3, [5, 6]], [5, [7, 8, 9]], [7, [10, 11, 12]], [15, [13, 15]],
+];
+
+const POW43 = new Float64Array(MAX_QUANT + 1);
+for (let i = 0; i < POW43.length; i++) POW43[i] = Math.pow(i, 4 / 3);
+
+// Analysis window C[i] = D[i] / 32 and the 32x64 analysis matrix.
+const ANALYSIS_WINDOW = Float64Array.from(SYNTHESIS_WINDOW, value => value / 65536 / 32);
+const ANALYSIS_MATRIX = new Float64Array(32 * 64);
+for (let k = 0; k < 32; k++) {
+  for (let i = 0; i < 64; i++) ANALYSIS_MATRIX[k * 64 + i] = Math.cos(((2 * k + 1) * (i - 16) * Math.PI) / 64);
+}
+
+// Windowed forward MDCT for 36 subband samples in, 18 lines out. The 1/9
+// undoes the gain of the decoder's unnormalised IMDCT and overlap-add.
+const MDCT = new Float64Array(18 * 36);
+for (let k = 0; k < 18; k++) {
+  for (let i = 0; i < 36; i++) {
+    const window = Math.sin((Math.PI / 36) * (i + 0.5));
+    MDCT[k * 36 + i] = (window * Math.cos((Math.PI / 72) * (2 * i + 1 + 18) * (2 * k + 1))) / 9;
+  }
+}
+
+// Polyphase analysis and MDCT state for one channel.
+class ChannelAnalysis {
+  private readonly fifo = new Float64Array(512);
+  private readonly y = new Float64Array(64);
+  private previous = new Float64Array(GRANULE);
+  private current = new Float64Array(GRANULE);
+
+  // Consumes the next 576 samples of `input` from `offset` (zero past the
+  // end) and writes the granule's spectrum to `xr`.
+  analyze(input: Float32Array, offset: number, xr: Float64Array) {
+    const { fifo, y } = this;
+    const subbands = this.previous;
+    this.previous = this.current;
+    this.current = subbands;
+
+    for (let t = 0; t < 18; t++) {
+      fifo.copyWithin(32, 0, 480);
+      for (let i = 0; i < 32; i++) {
+        const index = offset + t * 32 + i;
+        fifo[31 - i] = index < input.length ? input[index] : 0;
+      }
+      for (let i = 0; i < 64; i++) {
+        let sum = 0;
+        for (let j = 0; j < 8; j++) sum += ANALYSIS_WINDOW[i + 64 * j] * fifo[i + 64 * j];
+        y[i] = sum;
+      }
+      for (let k = 0; k < 32; k++) {
+        let sum = 0;
+        const row = k * 64;
+        for (let i = 0; i < 64; i++) sum += ANALYSIS_MATRIX[row + i] * y[i];
+        // Frequency inversion of the odd subbands, undone by the decoder.
+        subbands[k * 18 + t] = k & 1 && t & 1 ? -sum : sum;
+      }
+    }
+
+    const previous = this.previous;
+    for (let sb = 0; sb < 32; sb++) {
+      const base = sb * 18;
+      for (let k = 0; k < 18; k++) {
+        let sum = 0;
+        const row = k * 36;
+        for (let i = 0; i < 18; i++) sum += MDCT[row + i] * previous[base + i];
+        for (let i = 0; i < 18; i++) sum += MDCT[row + 18 + i] * subbands[base + i];
+        xr[base + k] = sum;
+      }
+    }
+
+    // Inverse of the decoder's alias reduction butterflies.
+    for (let sb = 1; sb < 32; sb++) {
+      for (let i = 0; i < 8; i++) {
+        const lo = sb * 18 - 1 - i;
+        const hi = sb * 18 + i;
+        const a = xr[lo];
+        const b = xr[hi];
+        xr[lo] = a * ALIAS_CS[i] + b * ALIAS_CA[i];
+        xr[hi] = b * ALIAS_CS[i] - a * ALIAS_CA[i];
+      }
+    }
+  }
+}
+
+// Quantisation state and side information for one granule of one channel.
+class Granule {
+  readonly xr = new Float64Array(GRANULE);
+  readonly xrpow = new Float64Array(GRANULE);
+  readonly ix = new Int32Array(GRANULE);
+  readonly xmin = new Float64Array(BAND_COUNT);
+  readonly bandGain = new Int32Array(BAND_COUNT);
+  readonly scalefac = new Int32Array(BAND_COUNT);
+  globalGain = 210;
+  scalefacCompress = 0;
+  part2Length = 0;
+  huffmanBits = 0;
+  bigValues = 0;
+  count1End = 0;
+  tableSelect = [0, 0, 0];
+  region0Count = 0;
+  region1Count = 0;
+  count1Table = 0;
+
+  get part23Length(): number {
+    return this.part2Length + this.huffmanBits;
+  }
+}
+
+// Absolute threshold of hearing in dB SPL (Terhardt), f in Hz.
+function athDb(f: number): number {
+  const khz = Math.max(f, 20) / 1000;
+  return 3.64 * Math.pow(khz, -0.8) - 6.5 * Math.exp(-0.6 * (khz - 3.3) * (khz - 3.3)) + 1e-3 * Math.pow(khz, 4);
+}
+
+// MDCT line energy of a full-scale sine, used to place the hearing threshold
+// with 0 dBFS at 90 dB SPL.
+const FULL_SCALE_LINE_ENERGY = 20;
+const FULL_SCALE_SPL = 90;
+// Share of a band's energy that masks its neighbours.
+const MASK_SPREAD = 0.15;
+
+// Lowpass cutoffs by bitrate per channel in kbps.
+const CBR_CUTOFFS: [number, number][] = [
+  [128, 20000], [96, 19000], [80, 17500], [64, 16500], [56, 15500], [48, 15000], [40, 13500], [32, 11000], [24, 8000],
+];
+
+interface StreamLayout {
+  sampleRate: number;
+  sampleRateIndex: number;
+  channels: number;
+  starts: number[];
+  ath: Float64Array;
+  cutoffLine: number;
+  // Masking threshold relative to the spread band energy.
+  maskRatio: number;
+}
+
+function streamLayout(sampleRate: number, channels: number, options: Mp3EncodeOptions): StreamLayout {
+  const widths = SFB_LONG[sampleRate];
+  const starts = [0];
+  for (const width of widths) starts.push(starts[starts.length - 1] + width);
+
+  const ath = new Float64Array(BAND_COUNT);
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const centre = ((starts[band] + starts[band + 1]) / 2 / GRANULE) * (sampleRate / 2);
+    ath[band] = widths[band] * FULL_SCALE_LINE_ENERGY * Math.pow(10, (athDb(centre) - FULL_SCALE_SPL) / 10);
+  }
+
+  let cutoff: number;
+  let snrDb: number;
+  if (options.mode === "vbr") {
+    const quality = Math.min(9, Math.max(0, options.quality ?? 2));
+    cutoff = 20000 - quality * 700;
+    snrDb = 34 - quality * 3;
+  } else {
+    const perChannel = (options.bitrate ?? 192) / channels;
+    const entry = CBR_CUTOFFS.find(([kbps]) => perChannel >= kbps);
+    cutoff = entry ? entry[1] : 7000;
+    snrDb = 18;
+  }
+
+  return {
+    sampleRate,
+    sampleRateIndex: SAMPLE_RATES[1].indexOf(sampleRate),
+    channels,
+    starts,
+    ath,
+    cutoffLine: Math.min(GRANULE, Math.floor((cutoff / (sampleRate / 2)) * GRANULE)),
+    maskRatio: Math.pow(10, -snrDb / 10),
+  };
+}
+
+// Per-band allowed noise from a crude spreading model floored by the
+// threshold of hearing.
+function computeThresholds(granule: Granule, layout: StreamLayout) {
+  const { xr, xrpow, xmin } = granule;
+  const energy = new Float64Array(BAND_COUNT);
+  for (let i = 0; i < GRANULE; i++) {
+    if (i >= layout.cutoffLine) xr[i] = 0;
+    const magnitude = Math.abs(xr[i]);
+    xrpow[i] = Math.sqrt(magnitude * Math.sqrt(magnitude));
+  }
+  for (let band = 0; band < BAND_COUNT; band++) {
+    let sum = 0;
+    for (let i = layout.starts[band]; i < layout.starts[band + 1]; i++) sum += xr[i] * xr[i];
+    energy[band] = sum;
+  }
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const spread = energy[band] +
+      MASK_SPREAD * ((band > 0 ? energy[band - 1] : 0) + (band < BAND_COUNT - 1 ? energy[band + 1] : 0));
+    xmin[band] = Math.max(spread * layout.maskRatio, layout.ath[band]);
+  }
+}
+
+// Quantisation noise energy of one band at an effective gain, abandoned
+// early once it exceeds `limit`.
+function bandNoise(granule: Granule, start: number, end: number, gain: number, limit: number): number {
+  const step = Math.pow(2, 0.25 * (gain - 210));
+  const factor = Math.pow(2, -0.1875 * (gain - 210));
+  let noise = 0;
+  for (let i = start; i < end; i++) {
+    const q = Math.floor(granule.xrpow[i] * factor + 0.4054);
+    const error = Math.abs(granule.xr[i]) - POW43[Math.min(q, MAX_QUANT)] * step;
+    noise += error * error;
+    if (noise > limit) break;
+  }
+  return noise;
+}
+
+// Finds, per band, the coarsest gain whose noise stays under the band's
+// threshold, then derives scalefactors that shape one global gain to match.
+function shapeNoise(granule: Granule, layout: StreamLayout) {
+  const { starts } = layout;
+  const { bandGain, scalefac, xmin, xrpow } = granule;
+  let coarsest = -1;
+  let limit = Infinity;
+
+  for (let band = 0; band < BAND_COUNT; band++) {
+    let peak = 0;
+    for (let i = starts[band]; i < starts[band + 1]; i++) peak = Math.max(peak, xrpow[i]);
+    if (peak === 0) {
+      bandGain[band] = -1;
+      continue;
+    }
+    // Finest gain that keeps every value within MAX_QUANT.
+    const finest = Math.min(255, Math.max(0, Math.floor(210 - Math.log2((MAX_QUANT + 0.59) / peak) / 0.1875) + 1));
+    let lo = finest;
+    let hi = 255;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (bandNoise(granule, starts[band], starts[band + 1], mid, xmin[band]) <= xmin[band]) lo = mid;
+      else hi = mid - 1;
+    }
+    bandGain[band] = lo;
+    coarsest = Math.max(coarsest, lo);
+    limit = Math.min(limit, lo + 2 * MAX_SCALEFAC[band]);
+  }
+
+  granule.globalGain = coarsest < 0 ? 210 : Math.min(coarsest, limit);
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const needed = bandGain[band] < 0 ? 0 : Math.ceil((granule.globalGain - bandGain[band]) / 2);
+    scalefac[band] = Math.min(MAX_SCALEFAC[band], Math.max(0, needed));
+  }
+  updatePart2(granule);
+}
+
+function updatePart2(granule: Granule) {
+  let max1 = 0;
+  let max2 = 0;
+  for (let band = 0; band < 21; band++) {
+    if (band < 11) max1 = Math.max(max1, granule.scalefac[band]);
+    else max2 = Math.max(max2, granule.scalefac[band]);
+  }
+  let best = -1;
+  let bestBits = Infinity;
+  SLEN.forEach(([slen1, slen2], index) => {
+    if (max1 >= 1 << slen1 || max2 >= 1 << slen2) return;
+    const bits = 11 * slen1 + 10 * slen2;
+    if (bits < bestBits) {
+      best = index;
+      bestBits = bits;
+    }
+  });
+  granule.scalefacCompress = best;
+  granule.part2Length = bestBits;
+}
+
+// Quantises every line at the granule's global gain and scalefactors.
+// Returns false when a value overflows the Huffman range.
+function quantize(granule: Granule, layout: StreamLayout): boolean {
+  const { ix, xrpow, scalefac } = granule;
+  for (let band = 0; band < BAND_COUNT; band++) {
+    const factor = Math.pow(2, -0.1875 * (granule.globalGain - 2 * scalefac[band] - 210));
+    for (let i = layout.starts[band]; i < layout.starts[band + 1]; i++) {
+      const q = Math.floor(xrpow[i] * factor + 0.4054);
+      if (q > MAX_QUANT) return false;
+      ix[i] = q;
+    }
+  }
+  return true;
+}
+
+function pairBits(ix: Int32Array, start: number, end: number, table: number): number {
+  if (table === 0) return 0;
+  const [bookIndex, linbits] = PAIR_TABLES[table];
+  const { size, lengths } = PAIR_CODEBOOKS[bookIndex];
+  let bits = 0;
+  for (let i = start; i < end; i += 2) {
+    const x = ix[i];
+    const y = ix[i + 1];
+    if (linbits > 0) {
+      bits += lengths[Math.min(x, 15) * 16 + Math.min(y, 15)];
+      if (x >= 15) bits += linbits;
+      if (y >= 15) bits += linbits;
+    } else {
+      bits += lengths[x * size + y];
+    }
+    if (x) bits++;
+    if (y) bits++;
+  }
+  return bits;
+}
+
+// Picks the cheapest table able to code the region; returns [table, bits].
+function chooseTable(ix: Int32Array, start: number, end: number): [number, number] {
+  let max = 0;
+  for (let i = start; i < end; i++) max = Math.max(max, ix[i]);
+  if (max === 0) return [0, 0];
+
+  let candidates: number[];
+  const small = SMALL_TABLES.find(([limit]) => max <= limit);
+  if (small) {
+    candidates = small[1];
+  } else {
+    const needed = max - 15;
+    const fits = (table: number) => (1 << PAIR_TABLES[table][1]) > needed;
+    candidates = [16, 24].map(first => {
+      let table = first;
+      while (!fits(table)) table++;
+      return table;
+    });
+  }
+
+  let best: [number, number] = [candidates[0], Infinity];
+  for (const table of candidates) {
+    const bits = pairBits(ix, start, end, table);
+    if (bits < best[1]) best = [table, bits];
+  }
+  return best;
+}
+
+// Splits the quantised spectrum into big-values, count1 and zero regions,
+// chooses Huffman tables and records the resulting bit count.
+function countBits(granule: Granule, layout: StreamLayout): number {
+  const { ix } = granule;
+  let i = GRANULE;
+  while (i > 1 && ix[i - 1] === 0 && ix[i - 2] === 0) i -= 2;
+  granule.count1End = i;
+  while (i > 3 && ix[i - 1] <= 1 && ix[i - 2] <= 1 && ix[i - 3] <= 1 && ix[i - 4] <= 1) i -= 4;
+  const bigEnd = i;
+  granule.bigValues = bigEnd / 2;
+
+  let count1A = 0;
+  let count1B = 0;
+  for (let j = bigEnd; j < granule.count1End; j += 4) {
+    const index = (ix[j] << 3) | (ix[j + 1] << 2) | (ix[j + 2] << 1) | ix[j + 3];
+    const signs = ix[j] + ix[j + 1] + ix[j + 2] + ix[j + 3];
+    count1A += QUAD_CODEBOOKS[0].lengths[index] + signs;
+    count1B += 4 + signs;
+  }
+  granule.count1Table = count1B < count1A ? 1 : 0;
+
+  const { starts } = layout;
+  let bands = 0;
+  while (starts[bands] < bigEnd) bands++;
+  let region0 = REGION_SPLIT[bands][0];
+  while (region0 > 0 && starts[region0 + 1] > bigEnd) region0--;
+  let region1 = REGION_SPLIT[bands][1];
+  while (region1 > 0 && starts[region0 + region1 + 2] > bigEnd) region1--;
+  granule.region0Count = region0;
+  granule.region1Count = region1;
+
+  const bounds = [0, Math.min(starts[region0 + 1], bigEnd), Math.min(starts[region0 + region1 + 2], bigEnd), bigEnd];
+  let bits = Math.min(count1A, count1B);
+  for (let region = 0; region < 3; region++) {
+    const [table, regionBits] = chooseTable(ix, bounds[region], bounds[region + 1]);
+    granule.tableSelect[region] = table;
+    bits += regionBits;
+  }
+  granule.huffmanBits = bits;
+  return bits;
+}
+
+// Quantises at the noise-shaped gain, only coarsening past it when a value
+// overflows. Returns the bits the granule needs.
+function quantizeForQuality(granule: Granule, layout: StreamLayout): number {
+  while (!quantize(granule, layout)) granule.globalGain++;
+  countBits(granule, layout);
+  return granule.part23Length;
+}
+
+// Finds the finest global gain that fits `budget` bits, keeping the shaped
+// scalefactors when they can be afforded.
+function quantizeForBudget(granule: Granule, layout: StreamLayout, budget: number) {
+  const fits = (gain: number) => {
+    granule.globalGain = gain;
+    return quantize(granule, layout) && countBits(granule, layout) + granule.part2Length <= budget;
+  };
+
+  if (!fits(255)) {
+    granule.scalefac.fill(0);
+    updatePart2(granule);
+  }
+  let lo = 0;
+  let hi = 255;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (fits(mid)) hi = mid;
+    else lo = mid + 1;
+  }
+  fits(lo);
+}
+
+function frameLength(bitrateIndex: number, sampleRate: number, padding: boolean): number {
+  return Math.floor((144 * BITRATES.mpeg1[bitrateIndex] * 1000) / sampleRate) + (padding ? 1 : 0);
+}
+
+function sideInfoLength(channels: number): number {
+  return channels === 1 ? 17 : 32;
+}
+
+function writeHeader(writer: BitWriter, layout: StreamLayout, bitrateIndex: number, padding: boolean, ms: boolean) {
+  writer.write(0x7ff, 11);
+  writer.write(3, 2); // MPEG-1
+  writer.write(1, 2); // Layer III
+  writer.write(1, 1); // no CRC
+  writer.write(bitrateIndex, 4);
+  writer.write(layout.sampleRateIndex, 2);
+  writer.write(padding ? 1 : 0, 1);
+  writer.write(0, 1);
+  writer.write(layout.channels === 1 ? 3 : 1, 2); // mono or joint stereo
+  writer.write(ms ? 2 : 0, 2);
+  writer.write(0, 1);
+  writer.write(1, 1); // original
+  writer.write(0, 2);
+}
+
+function writeSideInfo(writer: BitWriter, granules: Granule[][], channels: number) {
+  writer.write(0, 9); // main_data_begin: no bit reservoir
+  writer.write(0, channels === 1 ? 5 : 3);
+  writer.write(0, 4 * channels); // scfsi
+  for (const granule of granules) {
+    for (let ch = 0; ch < channels; ch++) {
+      const info = granule[ch];
+      writer.write(info.part23Length, 12);
+      writer.write(info.bigValues, 9);
+      writer.write(info.globalGain, 8);
+      writer.write(info.scalefacCompress, 4);
+      writer.write(0, 1); // window switching
+      for (let region = 0; region < 3; region++) writer.write(info.tableSelect[region], 5);
+      writer.write(info.region0Count, 4);
+      writer.write(info.region1Count, 3);
+      writer.write(0, 1); // preflag
+      writer.write(0, 1); // scalefac_scale
+      writer.write(info.count1Table, 1);
+    }
+  }
+}
+
+function writeMainData(writer: BitWriter, granule: Granule, layout: StreamLayout) {
+  const [slen1, slen2] = SLEN[granule.scalefacCompress];
+  for (let band = 0; band < 21; band++) {
+    const slen = band < 11 ? slen1 : slen2;
+    if (slen) writer.write(granule.scalefac[band], slen);
+  }
+
+  const { ix, xr } = granule;
+  const { starts } = layout;
+  const bigEnd = granule.bigValues * 2;
+  const region1Start = Math.min(starts[granule.region0Count + 1], bigEnd);
+  const region2Start = Math.min(starts[granule.region0Count + granule.region1Count + 2], bigEnd);
+
+  for (let i = 0; i < bigEnd; i += 2) {
+    const table = granule.tableSelect[i < region1Start ? 0 : i < region2Start ? 1 : 2];
+    if (table === 0) continue;
+    const [bookIndex, linbits] = PAIR_TABLES[table];
+    const book = PAIR_CODEBOOKS[bookIndex];
+    const x = ix[i];
+    const y = ix[i + 1];
+    const index = linbits > 0 ? Math.min(x, 15) * 16 + Math.min(y, 15) : x * book.size + y;
+    writer.write(book.codes[index], book.lengths[index]);
+    if (linbits > 0 && x >= 15) writer.write(x - 15, linbits);
+    if (x) writer.write(xr[i] < 0 ? 1 : 0, 1);
+    if (linbits > 0 && y >= 15) writer.write(y - 15, linbits);
+    if (y) writer.write(xr[i + 1] < 0 ? 1 : 0, 1);
+  }
+
+  const quads = QUAD_CODEBOOKS[granule.count1Table];
+  for (let i = bigEnd; i < granule.count1End; i += 4) {
+    const index = (ix[i] << 3) | (ix[i + 1] << 2) | (ix[i + 2] << 1) | ix[i + 3];
+    writer.write(quads.codes[index], quads.lengths[index]);
+    for (let j = i; j < i + 4; j++) {
+      if (ix[j]) writer.write(xr[j] < 0 ? 1 : 0, 1);
+    }
+  }
+}
+
+// Splits `capacity` bits between granules in proportion to what each needs
+// for transparent quantisation.
+function allocateBudgets(demands: number[], capacity: number): number[] {
+  const total = demands.reduce((sum, bits) => sum + bits, 0);
+  return demands.map(bits => {
+    const share = total > 0 ? Math.floor((capacity * bits) / total) : Math.floor(capacity / demands.length);
+    return Math.min(MAX_GRANULE_BITS, share);
+  });
+}
+
+// Chooses the nearest sample rate MPEG-1 Layer III supports.
+function targetSampleRate(sampleRate: number): number {
+  if (SAMPLE_RATES[1].includes(sampleRate)) return sampleRate;
+  if (sampleRate % 11025 === 0) return 44100;
+  return sampleRate <= 32000 ? 32000 : 48000;
+}
+
+// CRC-16 with the reflected 0x8005 polynomial, as used for the LAME tag.
+function crc16(bytes: Uint8Array, crc = 0): number {
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i];
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+  }
+  return crc;
+}
+
+// The Xing/Info frame, followed by a LAME tag carrying the encoder delay and
+// padding so decoders can trim the stream back to the input's length.
+function xingFrame(
+  layout: StreamLayout,
+  bitrateIndex: number,
+  frames: Uint8Array[],
+  vbr: boolean,
+  padding: number,
+): Uint8Array {
+  const frameSizes = frames.map(frame => frame.length);
+  // Low bitrate frames are too short for the tags; the frame carries no
+  // audio, so a higher bitrate does no harm.
+  const needed = 4 + sideInfoLength(layout.channels) + XING_TAG_BYTES + LAME_TAG_BYTES;
+  while (frameLength(bitrateIndex, layout.sampleRate, false) < needed) bitrateIndex++;
+  const length = frameLength(bitrateIndex, layout.sampleRate, false);
+  const writer = new BitWriter(length);
+  writeHeader(writer, layout, bitrateIndex, false, false);
+  writer.write(0, sideInfoLength(layout.channels) * 8);
+
+  const totalBytes = frameSizes.reduce((sum, size) => sum + size, length);
+  writer.writeBytes(Buffer.from(vbr ? "Xing" : "Info", "ascii"));
+  writer.write(0x7, 32); // frames, bytes and TOC present
+  writer.write(frameSizes.length, 32);
+  writer.write(totalBytes, 32);
+
+  const offsets = [length];
+  for (const size of frameSizes) offsets.push(offsets[offsets.length - 1] + size);
+  for (let i = 0; i < 100; i++) {
+    const frame = Math.floor((i / 100) * frameSizes.length);
+    writer.write(Math.min(255, Math.floor((offsets[frame] / totalBytes) * 256)), 8);
+  }
+
+  writer.writeBytes(Buffer.from(LAME_TAG_VERSION, "ascii"));
+  writer.write(vbr ? 4 : 1, 8); // tag revision 0, VBR method
+  writer.write(0, 8); // lowpass
+  writer.write(0, 32); // peak amplitude
+  writer.write(0, 32); // radio and audiophile replay gain
+  writer.write(0, 8); // encoding flags and ATH type
+  writer.write(vbr ? 0 : BITRATES.mpeg1[bitrateIndex], 8);
+  writer.write(ENCODER_DELAY, 12);
+  writer.write(padding, 12);
+  writer.write(0, 8); // misc
+  writer.write(0, 8); // MP3 gain
+  writer.write(0, 16); // preset and surround info
+  writer.write(totalBytes, 32);
+  writer.write(frames.reduce((crc, frame) => crc16(frame, crc), 0), 16);
+
+  const bytes = new Uint8Array(length);
+  bytes.set(writer.toBytes());
+  const tagCrc = crc16(bytes.subarray(0, writer.length / 8));
+  bytes[writer.length / 8] = tagCrc >> 8;
+  bytes[writer.length / 8 + 1] = tagCrc & 0xff;
+  return bytes;
+}
+
+// Encodes PCM audio to an MP3 file image: an ID3v2 tag when tags are given,
+// a Xing/Info frame with a LAME tag, then the audio frames.
+export function encodeMp3(input: PcmAudio, options: Mp3EncodeOptions = {}): Buffer {
+  const vbr = options.mode === "vbr";
+  let audio = input.channels.length > 2 ? toChannelCount(input, 2) : input;
+  audio = resample(audio, targetSampleRate(audio.sampleRate));
+
+  const channels = audio.channels.length;
+  const layout = streamLayout(audio.sampleRate, channels, options);
+  const sideInfoBytes = sideInfoLength(channels);
+
+  let cbrIndex = 0;
+  if (!vbr) {
+    cbrIndex = BITRATES.mpeg1.indexOf(options.bitrate ?? 192);
+    if (cbrIndex <= 0) throw new Error(`Unsupported MP3 bitrate: ${options.bitrate} kbps`);
+  }
+
+  const analysis = audio.channels.map(() => new ChannelAnalysis());
+  const granules = [0, 1].map(() => audio.channels.map(() => new Granule()));
+  // Enough frames that the last input sample comes out of a decoder before
+  // the stream ends.
+  const frameCount = Math.ceil((pcmLength(audio) + ENCODER_DELAY + DECODER_DELAY) / (2 * GRANULE));
+
+  const frames: Uint8Array[] = [];
+  let paddingRemainder = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let gr = 0; gr < 2; gr++) {
+      const offset = (frame * 2 + gr) * GRANULE;
+      audio.channels.forEach((samples, ch) => analysis[ch].analyze(samples, offset, granules[gr][ch].xr));
+    }
+
+    let ms = false;
+    if (channels === 2) {
+      let mid = 0;
+      let side = 0;
+      for (const [left, right] of granules.map(granule => [granule[0].xr, granule[1].xr])) {
+        for (let i = 0; i < GRANULE; i++) {
+          mid += (left[i] + right[i]) * (left[i] + right[i]);
+          side += (left[i] - right[i]) * (left[i] - right[i]);
+        }
+      }
+      ms = side < 0.3 * mid;
+      if (ms) {
+        for (const [left, right] of granules.map(granule => [granule[0].xr, granule[1].xr])) {
+          for (let i = 0; i < GRANULE; i++) {
+            const l = left[i];
+            const r = right[i];
+            left[i] = (l + r) * Math.SQRT1_2;
+            right[i] = (l - r) * Math.SQRT1_2;
+          }
+        }
+      }
+    }
+
+    const all = granules.reduce<Granule[]>((list, granule) => list.concat(granule), []);
+    const demands = all.map(granule => {
+      computeThresholds(granule, layout);
+      shapeNoise(granule, layout);
+      return quantizeForQuality(granule, layout);
+    });
+
+    let bitrateIndex = cbrIndex;
+    let padding = false;
+    if (vbr) {
+      const needed = demands.reduce((sum, bits) => sum + bits, 0);
+      bitrateIndex = 14;
+      for (let index = 1; index <= 14; index++) {
+        if ((frameLength(index, layout.sampleRate, false) - 4 - sideInfoBytes) * 8 >= needed) {
+          bitrateIndex = index;
+          break;
+        }
+      }
+    } else {
+      // Pad frames so the average length matches the nominal bitrate.
+      paddingRemainder += (144 * BITRATES.mpeg1[cbrIndex] * 1000) % layout.sampleRate;
+      if (paddingRemainder >= layout.sampleRate) {
+        paddingRemainder -= layout.sampleRate;
+        padding = true;
+      }
+    }
+
+    const length = frameLength(bitrateIndex, layout.sampleRate, padding);
+    const capacity = (length - 4 - sideInfoBytes) * 8;
+    const overflow = demands.some(bits => bits > MAX_GRANULE_BITS) ||
+      demands.reduce((sum, bits) => sum + bits, 0) > capacity;
+    if (!vbr || overflow) {
+      const budgets = allocateBudgets(demands, capacity);
+      all.forEach((granule, i) => quantizeForBudget(granule, layout, budgets[i]));
+    }
+
+    const writer = new BitWriter(length);
+    writeHeader(writer, layout, bitrateIndex, padding, ms);
+    writeSideInfo(writer, granules, channels);
+    for (const granule of all) writeMainData(writer, granule, layout);
+    const bytes = new Uint8Array(length);
+    bytes.set(writer.toBytes());
+    frames.push(bytes);
+  }
+
+  const padding = frameCount * 2 * GRANULE - pcmLength(audio) - ENCODER_DELAY;
+  const tagFrame = xingFrame(layout, vbr ? VBR_TAG_BITRATE_INDEX : cbrIndex, frames, vbr, padding);
+  const id3 = options.tags ? encodeId3v2(options.tags) : new Uint8Array(0);
+  return Buffer.concat([id3, tagFrame, ...frames]);
+}
+
+export async function writeMp3File(path: string, audio: PcmAudio, options: Mp3EncodeOptions = {}) {
+  await fs.promises.writeFile(path, encodeMp3(audio, options));
+}
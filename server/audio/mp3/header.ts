@@ -0,0 +1,287 @@
+import { type AudioTags } from "../types";
+import { BITRATES, SAMPLE_RATES, type MpegVersion } from "./tables";
+
+export type ChannelMode = "stereo" | "joint" | "dual" | "mono";
+
+const CHANNEL_MODES: ChannelMode[] = ["stereo", "joint", "dual", "mono"];
+
+export interface FrameHeader {
+  version: MpegVersion;
+  protected: boolean;
+  bitrate: number;
+  sampleRate: number;
+  padding: boolean;
+  mode: ChannelMode;
+  modeExtension: number;
+  channels: number;
+  // Total frame length in bytes, header included.
+  frameLength: number;
+  samplesPerFrame: number;
+  sideInfoLength: number;
+}
+
+// Parses a Layer III frame header at `offset`, or returns null when the bytes
+// there are not one. Free-format streams (bitrate index 0) are rejected.
+export function parseFrameHeader(bytes: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > bytes.length) return null;
+  const b1 = bytes[offset + 1];
+  const b2 = bytes[offset + 2];
+  const b3 = bytes[offset + 3];
+  if (bytes[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (b1 >> 3) & 3;
+  const layerBits = (b1 >> 1) & 3;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 3;
+  if (versionBits === 1 || layerBits !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version: MpegVersion = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const lsf = version !== 1;
+  const bitrate = BITRATES[lsf ? "lsf" : "mpeg1"][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const padding = ((b2 >> 1) & 1) === 1;
+  const mode = CHANNEL_MODES[b3 >> 6];
+  const channels = mode === "mono" ? 1 : 2;
+  const samplesPerFrame = lsf ? 576 : 1152;
+  const frameLength = Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + (padding ? 1 : 0);
+  const sideInfoLength = lsf ? (channels === 1 ? 9 : 17) : (channels === 1 ? 17 : 32);
+
+  return {
+    version,
+    protected: (b1 & 1) === 0,
+    bitrate,
+    sampleRate,
+    padding,
+    mode,
+    modeExtension: (b3 >> 4) & 3,
+    channels,
+    frameLength,
+    samplesPerFrame,
+    sideInfoLength,
+  };
+}
+
+// Offset of the first byte after the frame header and optional CRC.
+export function sideInfoOffset(header: FrameHeader, frameOffset: number): number {
+  return frameOffset + 4 + (header.protected ? 2 : 0);
+}
+
+// Xing/Info VBR header plus the LAME extension's gapless information.
+export interface VbrInfo {
+  frames?: number;
+  bytes?: number;
+  encoderDelay?: number;
+  encoderPadding?: number;
+}
+
+// Looks for a Xing, Info or VBRI header inside the first audio frame. That
+// frame carries no audio and must not be decoded.
+export function parseVbrHeader(bytes: Uint8Array, frameOffset: number, header: FrameHeader): VbrInfo | null {
+  const xingOffset = sideInfoOffset(header, frameOffset) + header.sideInfoLength;
+  const tag = ascii(bytes, xingOffset, 4);
+
+  if (tag === "Xing" || tag === "Info") {
+    const flags = readUInt32BE(bytes, xingOffset + 4);
+    let offset = xingOffset + 8;
+    const info: VbrInfo = {};
+    if (flags & 1) { info.frames = readUInt32BE(bytes, offset); offset += 4; }
+    if (flags & 2) { info.bytes = readUInt32BE(bytes, offset); offset += 4; }
+    if (flags & 4) offset += 100;
+    if (flags & 8) offset += 4;
+
+    // LAME extension: 9 byte encoder version, then fields up to the packed
+    // 12-bit delay and padding 21 bytes in.
+    if (offset + 24 <= frameOffset + header.frameLength && /^(LAME|Lavf|Lavc|GOGO)/.test(ascii(bytes, offset, 4))) {
+      const packed = (bytes[offset + 21] << 16) | (bytes[offset + 22] << 8) | bytes[offset + 23];
+      info.encoderDelay = packed >> 12;
+      info.encoderPadding = packed & 0xfff;
+    }
+    return info;
+  }
+
+  const vbriOffset = frameOffset + 36;
+  if (ascii(bytes, vbriOffset, 4) === "VBRI") {
+    return { bytes: readUInt32BE(bytes, vbriOffset + 10), frames: readUInt32BE(bytes, vbriOffset + 14) };
+  }
+
+  return null;
+}
+
+export interface Id3Tag {
+  // Bytes occupied by the tag, to be skipped before the first frame.
+  length: number;
+  tags: AudioTags;
+}
+
+// Reads an ID3v2.2/2.3/2.4 tag at the start of the file.
+export function parseId3v2(bytes: Uint8Array): Id3Tag | null {
+  if (ascii(bytes, 0, 3) !== "ID3" || bytes.length < 10) return null;
+  const major = bytes[3];
+  const flags = bytes[5];
+  const size = syncsafe(bytes, 6);
+  const length = 10 + size + (flags & 0x10 ? 10 : 0);
+
+  let body = bytes.subarray(10, Math.min(bytes.length, 10 + size));
+  if (flags & 0x80 && major < 4) body = removeUnsynchronisation(body);
+
+  let offset = 0;
+  // Skip the extended header; its size field includes itself in v2.4 only.
+  if (flags & 0x40 && major >= 3) {
+    offset = major === 4 ? syncsafe(body, 0) : readUInt32BE(body, 0) + 4;
+  }
+
+  const tags: AudioTags = {};
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+
+  while (offset + headerLength <= body.length) {
+    const id = ascii(body, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+    const frameSize = major === 2
+      ? (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5]
+      : major === 4 ? syncsafe(body, offset + 4) : readUInt32BE(body, offset + 4);
+    const data = body.subarray(offset + headerLength, offset + headerLength + frameSize);
+    offset += headerLength + frameSize;
+
+    switch (id) {
+      case "TIT2":
+      case "TT2":
+        tags.title = decodeText(data);
+        break;
+      case "TPE1":
+      case "TP1":
+        tags.artist = decodeText(data);
+        break;
+      case "TALB":
+      case "TAL":
+        tags.album = decodeText(data);
+        break;
+      case "COMM":
+      case "COM":
+        tags.comment = decodeComment(data);
+        break;
+    }
+  }
+
+  return { length, tags };
+}
+
+// Builds an ID3v2.3 tag holding the given tags. Text is written as
+// ISO-8859-1 when it fits and as UTF-16 with a BOM otherwise.
+export function encodeId3v2(tags: AudioTags): Uint8Array {
+  const frames: Buffer[] = [];
+  const addFrame = (id: string, body: Buffer) => {
+    const header = Buffer.alloc(10);
+    header.write(id, 0, "ascii");
+    header.writeUInt32BE(body.length, 4);
+    frames.push(header, body);
+  };
+
+  const textFrames: [string, string | undefined][] = [["TIT2", tags.title], ["TPE1", tags.artist], ["TALB", tags.album]];
+  for (const [id, value] of textFrames) {
+    if (value) addFrame(id, Buffer.concat([encodingByte(value), encodeString(value)]));
+  }
+  if (tags.comment) {
+    const encoding = encodingByte(tags.comment);
+    const description = encoding[0] === 1 ? Buffer.from([0xff, 0xfe, 0, 0]) : Buffer.from([0]);
+    addFrame("COMM", Buffer.concat([encoding, Buffer.from("eng", "ascii"), description, encodeString(tags.comment)]));
+  }
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.from([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 0]);
+  header[6] = (body.length >> 21) & 0x7f;
+  header[7] = (body.length >> 14) & 0x7f;
+  header[8] = (body.length >> 7) & 0x7f;
+  header[9] = body.length & 0x7f;
+  return Buffer.concat([header, body]);
+}
+
+function isLatin1(value: string): boolean {
+  return /^[\u0000-\u00ff]*$/.test(value);
+}
+
+function encodingByte(value: string): Buffer {
+  return Buffer.from([isLatin1(value) ? 0 : 1]);
+}
+
+function encodeString(value: string): Buffer {
+  return isLatin1(value)
+    ? Buffer.from(value, "latin1")
+    : Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(value, "utf16le")]);
+}
+
+// Text frames start with an encoding byte: 0 ISO-8859-1, 1 UTF-16 with BOM,
+// 2 UTF-16BE, 3 UTF-8.
+function decodeText(data: Uint8Array): string {
+  if (data.length === 0) return "";
+  return decodeString(data[0], data.subarray(1)).replace(/\0[\s\S]*$/, "");
+}
+
+function decodeComment(data: Uint8Array): string {
+  if (data.length < 4) return "";
+  const encoding = data[0];
+  const rest = data.subarray(4);
+  const wide = encoding === 1 || encoding === 2;
+  // Skip the short content description up to its terminator.
+  let i = 0;
+  if (wide) {
+    while (i + 1 < rest.length && (rest[i] !== 0 || rest[i + 1] !== 0)) i += 2;
+    i += 2;
+  } else {
+    while (i < rest.length && rest[i] !== 0) i++;
+    i += 1;
+  }
+  return decodeString(encoding, rest.subarray(i)).replace(/\0[\s\S]*$/, "");
+}
+
+function decodeString(encoding: number, data: Uint8Array): string {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  switch (encoding) {
+    case 1: {
+      if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+        return swapUtf16(buffer.subarray(2)).toString("utf16le");
+      }
+      const start = buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe ? 2 : 0;
+      return buffer.subarray(start).toString("utf16le");
+    }
+    case 2:
+      return swapUtf16(buffer).toString("utf16le");
+    case 3:
+      return buffer.toString("utf8");
+    default:
+      return buffer.toString("latin1");
+  }
+}
+
+function swapUtf16(buffer: Buffer): Buffer {
+  const copy = Buffer.from(buffer.subarray(0, buffer.length & ~1));
+  return copy.swap16();
+}
+
+function removeUnsynchronisation(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    out.push(data[i]);
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return Uint8Array.from(out);
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) |
+    ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) |
+    (bytes[offset + 3] & 0x7f);
+}
+
+function readUInt32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  let text = "";
+  for (let i = offset; i < offset + length && i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+}
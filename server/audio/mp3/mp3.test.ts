@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { pcmDuration, type PcmAudio } from "../types";
+import { encodeMp3 } from "./encoder";
+import { decodeMp3, isMp3 } from "./decoder";
+import { parseFrameHeader } from "./header";
+
+// The encoder and decoder are checked against each other on generated tones:
+// what comes back must be the same length, rate and pitch as what went in.
+
+function tone(frequency: number, seconds: number, sampleRate: number, channels = 2): PcmAudio {
+  const length = Math.round(seconds * sampleRate);
+  const channel = Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+  return { sampleRate, channels: Array.from({ length: channels }, () => channel.slice()) };
+}
+
+// Frequency from the zero crossings of the middle half, away from the edges.
+function dominantFrequency(channel: Float32Array, sampleRate: number): number {
+  const start = Math.floor(channel.length / 4);
+  const end = Math.floor((channel.length * 3) / 4);
+  let crossings = 0;
+  for (let i = start + 1; i < end; i++) {
+    if ((channel[i - 1] < 0) !== (channel[i] < 0)) crossings++;
+  }
+  return (crossings / 2) * (sampleRate / (end - start));
+}
+
+function rms(channel: Float32Array): number {
+  return Math.sqrt(channel.reduce((sum, sample) => sum + sample * sample, 0) / channel.length);
+}
+
+test("round-trips a stereo tone at a constant bitrate", () => {
+  const input = tone(440, 1, 44100);
+  const bytes = encodeMp3(input, { mode: "cbr", bitrate: 192 });
+  assert.ok(isMp3(bytes));
+
+  const header = parseFrameHeader(bytes, 0)!;
+  assert.equal(header.bitrate, 192000);
+  assert.equal(header.sampleRate, 44100);
+
+  const { audio, bitrate, vbr } = decodeMp3(bytes);
+  assert.equal(audio.sampleRate, 44100);
+  assert.equal(audio.channels.length, 2);
+  assert.equal(pcmDuration(audio), 1);
+  assert.equal(bitrate, 192000);
+  assert.ok(vbr, "an Info frame leads the stream");
+  for (const channel of audio.channels) {
+    assert.ok(Math.abs(dominantFrequency(channel, 44100) - 440) < 5);
+    assert.ok(Math.abs(rms(channel) - rms(input.channels[0])) < 0.05);
+  }
+});
+
+test("records encoder delay and padding so decoding is gapless", () => {
+  for (const [sampleRate, length] of [[44100, 20000], [48000, 12345], [32000, 1]]) {
+    const input: PcmAudio = { sampleRate, channels: [new Float32Array(length)] };
+    const click = Math.floor(length / 2);
+    input.channels[0][click] = 0.9;
+    for (const mode of ["cbr", "vbr"] as const) {
+      const { audio, vbr } = decodeMp3(encodeMp3(input, { mode }));
+      assert.equal(vbr?.encoderDelay, 528);
+      assert.equal(audio.channels[0].length, length);
+      const output = audio.channels[0];
+      const peak = output.reduce((best, sample, i) => (Math.abs(sample) > Math.abs(output[best]) ? i : best), 0);
+      assert.equal(peak, click);
+    }
+  }
+});
+
+test("varies the frame bitrate with the signal in VBR mode", () => {
+  const input = tone(1000, 1, 48000, 1);
+  // Silence for the second half needs far fewer bits than the tone.
+  input.channels[0].fill(0, 24000);
+  const bytes = encodeMp3(input, { mode: "vbr", quality: 2 });
+
+  const { audio, vbr } = decodeMp3(bytes);
+  assert.equal(audio.sampleRate, 48000);
+  assert.equal(audio.channels.length, 1);
+  assert.ok(vbr?.frames && vbr.frames > 0);
+  assert.equal(vbr.bytes, bytes.length);
+
+  const bitrates = new Set<number>();
+  for (let offset = 0; offset < bytes.length; ) {
+    const header = parseFrameHeader(bytes, offset)!;
+    bitrates.add(header.bitrate);
+    offset += header.frameLength;
+  }
+  assert.ok(bitrates.size > 2);
+});
+
+test("resamples to the nearest MPEG-1 rate", () => {
+  const { audio } = decodeMp3(encodeMp3(tone(300, 0.5, 22050), { mode: "cbr", bitrate: 128 }));
+  assert.equal(audio.sampleRate, 44100);
+  assert.ok(Math.abs(dominantFrequency(audio.channels[0], 44100) - 300) < 5);
+});
+
+test("writes and reads ID3v2 tags", () => {
+  const tags = { title: "Night Ride", artist: "Unknown T", album: "Drill", comment: "seed 42" };
+  const bytes = encodeMp3(tone(440, 0.2, 44100), { tags });
+  assert.equal(bytes.toString("ascii", 0, 3), "ID3");
+  assert.deepEqual(decodeMp3(bytes).tags, tags);
+});
+
+test("rejects data without Layer III frames", () => {
+  const noise = Buffer.alloc(4096, 0x55);
+  assert.equal(isMp3(noise), false);
+  assert.throws(() => decodeMp3(noise), /No MPEG Layer III frames/);
+});
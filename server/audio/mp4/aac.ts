@@ -0,0 +1,759 @@
+import { BitReader, buildHuffmanTree, decodeHuffman } from "../bits";
+import { besselI0 } from "../dsp";
+import { FFT } from "../fft";
+import { UnsupportedAudioError } from "../types";
+import {
+  SAMPLE_RATES,
+  SCALEFACTOR_CODES,
+  SCALEFACTOR_LENGTHS,
+  SPECTRAL_CODEBOOKS,
+  SWB_OFFSETS_LONG,
+  SWB_OFFSETS_SHORT,
+  TNS_MAX_BANDS_LONG,
+  TNS_MAX_BANDS_SHORT,
+} from "./tables";
+
+// AAC Low Complexity decoder (ISO/IEC 14496-3 subpart 4) for raw access
+// units, as stored in MP4 files. Main, SSR and LTP tools and the HE-AAC
+// extensions (SBR, PS) are detected and rejected rather than decoded badly.
+
+export const AAC_FRAME_LENGTH = 1024;
+
+const OBJECT_TYPE_LC = 2;
+const OBJECT_TYPE_SBR = 5;
+
+const OBJECT_TYPE_NAMES: Record<number, string> = {
+  1: "AAC Main",
+  3: "AAC SSR",
+  4: "AAC LTP",
+  5: "HE-AAC",
+  23: "AAC-LD",
+  29: "HE-AAC v2",
+  39: "AAC-ELD",
+  42: "xHE-AAC",
+};
+
+// Syntactic element ids of raw_data_block().
+const ID_SCE = 0;
+const ID_CPE = 1;
+const ID_CCE = 2;
+const ID_LFE = 3;
+const ID_DSE = 4;
+const ID_PCE = 5;
+const ID_FIL = 6;
+const ID_END = 7;
+
+// window_sequence values other than ONLY_LONG_SEQUENCE (0).
+const LONG_START_SEQUENCE = 1;
+const EIGHT_SHORT_SEQUENCE = 2;
+const LONG_STOP_SEQUENCE = 3;
+
+// Band types beyond the spectrum codebooks.
+const ZERO_HCB = 0;
+const ESCAPE_HCB = 11;
+const NOISE_HCB = 13;
+const INTENSITY_HCB2 = 14;
+const INTENSITY_HCB = 15;
+
+// Fill element extension types carrying SBR data.
+const EXT_SBR_DATA = 13;
+const EXT_SBR_DATA_CRC = 14;
+
+const MAX_BANDS = 64;
+const SHORT_LENGTH = 128;
+const TNS_MAX_ORDER_LONG = 12;
+const TNS_MAX_ORDER_SHORT = 7;
+// Decoded spectra are on a 16-bit integer scale.
+const OUTPUT_SCALE = 1 / 32768;
+
+export interface AudioSpecificConfig {
+  objectType: number;
+  sampleRateIndex: number;
+  sampleRate: number;
+  channelConfiguration: number;
+}
+
+function readObjectType(reader: BitReader): number {
+  const objectType = reader.read(5);
+  return objectType === 31 ? 32 + reader.read(6) : objectType;
+}
+
+function readSampleRate(reader: BitReader): { index: number; rate: number } {
+  const index = reader.read(4);
+  return index === 15 ? { index, rate: reader.read(24) } : { index, rate: SAMPLE_RATES[index] };
+}
+
+function unsupportedProfile(objectType: number): UnsupportedAudioError {
+  const name = OBJECT_TYPE_NAMES[objectType] ?? `MPEG-4 audio object type ${objectType}`;
+  return new UnsupportedAudioError(`${name} audio is not supported; only AAC-LC can be decoded`);
+}
+
+// Parses the decoder configuration from an MP4 `esds` box and rejects
+// anything but plain AAC-LC, including LC with backward compatible SBR
+// signalling.
+export function parseAudioSpecificConfig(bytes: Uint8Array): AudioSpecificConfig {
+  const reader = new BitReader(bytes);
+  const objectType = readObjectType(reader);
+  const sampleRate = readSampleRate(reader);
+  const channelConfiguration = reader.read(4);
+
+  if (objectType !== OBJECT_TYPE_LC) throw unsupportedProfile(objectType);
+  if (sampleRate.index > 12) throw new UnsupportedAudioError(`AAC at ${sampleRate.rate} Hz is not supported`);
+
+  // GASpecificConfig.
+  if (reader.read(1)) throw new UnsupportedAudioError("AAC with 960 sample frames is not supported");
+  if (reader.read(1)) reader.skip(14);
+  reader.skip(1);
+
+  // A trailing sync extension announces SBR to decoders that understand it.
+  if (channelConfiguration > 0 && reader.bitsLeft >= 16 && reader.read(11) === 0x2b7) {
+    if (readObjectType(reader) === OBJECT_TYPE_SBR && reader.read(1)) throw unsupportedProfile(OBJECT_TYPE_SBR);
+  }
+
+  return { objectType, sampleRateIndex: sampleRate.index, sampleRate: sampleRate.rate, channelConfiguration };
+}
+
+interface IcsInfo {
+  windowSequence: number;
+  windowShape: number;
+  maxSfb: number;
+  // Number of windows in each window group; a single group of one window
+  // for long blocks.
+  groupLengths: number[];
+  swbOffsets: number[];
+}
+
+interface TnsFilter {
+  // First line filtered and the number of lines, walking by `inc`.
+  start: number;
+  length: number;
+  inc: number;
+  lpc: Float64Array;
+  order: number;
+}
+
+// One decoded individual_channel_stream().
+interface ChannelStream {
+  info: IcsInfo;
+  // Indexed by group * MAX_BANDS + band.
+  bandTypes: Uint8Array;
+  // Scalefactor, intensity position or noise energy depending on the band
+  // type.
+  scalefactors: Int32Array;
+  // Dequantised spectrum, short windows at multiples of 128 lines.
+  spectrum: Float64Array;
+  tns: TnsFilter[][] | null;
+}
+
+interface ChannelState {
+  overlap: Float64Array;
+  previousShape: number;
+}
+
+const SCALEFACTOR_TREE = buildHuffmanTree({ codes: SCALEFACTOR_CODES, lengths: SCALEFACTOR_LENGTHS });
+const SPECTRAL_TREES: Record<number, Int32Array> = {};
+for (const key of Object.keys(SPECTRAL_CODEBOOKS)) {
+  SPECTRAL_TREES[Number(key)] = buildHuffmanTree(SPECTRAL_CODEBOOKS[Number(key)]);
+}
+
+const POW43 = new Float64Array(8192);
+for (let i = 0; i < POW43.length; i++) POW43[i] = Math.pow(i, 4 / 3);
+
+function sineWindow(length: number): Float64Array {
+  const window = new Float64Array(length);
+  for (let n = 0; n < length; n++) window[n] = Math.sin((Math.PI / (2 * length)) * (n + 0.5));
+  return window;
+}
+
+// Rising half of a Kaiser-Bessel derived window of 2 * `length` samples.
+function kbdWindow(length: number, alpha: number): Float64Array {
+  const kaiser = new Float64Array(length + 1);
+  let total = 0;
+  for (let n = 0; n <= length; n++) {
+    const r = (n - length / 2) / (length / 2);
+    kaiser[n] = besselI0(Math.PI * alpha * Math.sqrt(Math.max(0, 1 - r * r)));
+    total += kaiser[n];
+  }
+  const window = new Float64Array(length);
+  let sum = 0;
+  for (let n = 0; n < length; n++) {
+    sum += kaiser[n];
+    window[n] = Math.sqrt(sum / total);
+  }
+  return window;
+}
+
+// Rising window halves by window_shape: 0 sine, 1 KBD.
+const LONG_WINDOWS = [sineWindow(1024), kbdWindow(1024, 4)];
+const SHORT_WINDOWS = [sineWindow(128), kbdWindow(128, 6)];
+
+// Inverse MDCT of `size` coefficients into 2 * `size` samples, computed as a
+// DCT-IV through a quarter length complex FFT.
+class Imdct {
+  private readonly fft: FFT;
+  private readonly re: Float64Array;
+  private readonly im: Float64Array;
+  private readonly dct: Float64Array;
+  private readonly preCos: Float64Array;
+  private readonly preSin: Float64Array;
+  private readonly postCos: Float64Array;
+  private readonly postSin: Float64Array;
+
+  constructor(private readonly size: number) {
+    const quarter = size >> 1;
+    this.fft = new FFT(quarter);
+    this.re = new Float64Array(quarter);
+    this.im = new Float64Array(quarter);
+    this.dct = new Float64Array(size);
+    this.preCos = new Float64Array(quarter);
+    this.preSin = new Float64Array(quarter);
+    this.postCos = new Float64Array(quarter);
+    this.postSin = new Float64Array(quarter);
+    for (let n = 0; n < quarter; n++) {
+      this.preCos[n] = Math.cos((-Math.PI * (n + 0.25)) / size);
+      this.preSin[n] = Math.sin((-Math.PI * (n + 0.25)) / size);
+      this.postCos[n] = Math.cos((-Math.PI * n) / size);
+      this.postSin[n] = Math.sin((-Math.PI * n) / size);
+    }
+  }
+
+  // output[n] = scale * sum X[k] cos(pi / size * (n + n0) * (k + 1/2)) with
+  // n0 = (size + 1) / 2.
+  transform(input: Float64Array, inputOffset: number, output: Float64Array, scale: number) {
+    const { size, re, im, dct } = this;
+    const quarter = size >> 1;
+    for (let n = 0; n < quarter; n++) {
+      const a = input[inputOffset + 2 * n];
+      const b = input[inputOffset + size - 1 - 2 * n];
+      re[n] = a * this.preCos[n] - b * this.preSin[n];
+      im[n] = a * this.preSin[n] + b * this.preCos[n];
+    }
+    this.fft.forward(re, im);
+    for (let k = 0; k < quarter; k++) {
+      dct[2 * k] = re[k] * this.postCos[k] - im[k] * this.postSin[k];
+      dct[size - 1 - 2 * k] = -(re[k] * this.postSin[k] + im[k] * this.postCos[k]);
+    }
+    // Unfold the DCT-IV into the symmetric IMDCT output.
+    const half = size >> 1;
+    for (let n = 0; n < 2 * size; n++) {
+      const index = n + half;
+      let value: number;
+      if (index < size) value = dct[index];
+      else if (index < 2 * size) value = -dct[2 * size - 1 - index];
+      else value = -dct[index - 2 * size];
+      output[n] = value * scale;
+    }
+  }
+}
+
+export class AacDecoder {
+  private readonly longImdct = new Imdct(1024);
+  private readonly shortImdct = new Imdct(SHORT_LENGTH);
+  private readonly windowed = new Float64Array(2048);
+  private readonly transformed = new Float64Array(2048);
+  private readonly states: ChannelState[] = [];
+  private randomState = 0x1f2e3d4c;
+
+  constructor(readonly config: AudioSpecificConfig) {}
+
+  // Decodes one raw_data_block into 1024 samples per channel, in element
+  // order.
+  decodeFrame(bytes: Uint8Array): Float32Array[] {
+    const reader = new BitReader(bytes);
+    const output: Float32Array[] = [];
+
+    for (;;) {
+      if (reader.bitsLeft < 3) break;
+      const id = reader.read(3);
+      if (id === ID_END) break;
+      switch (id) {
+        case ID_SCE:
+        case ID_LFE: {
+          reader.skip(4);
+          const stream = this.readChannelStream(reader, null);
+          this.applyNoise(stream, null, null);
+          this.finishChannel(stream, output);
+          break;
+        }
+        case ID_CPE:
+          this.decodePair(reader, output);
+          break;
+        case ID_CCE:
+          throw new UnsupportedAudioError("AAC coupling channel elements are not supported");
+        case ID_DSE: {
+          reader.skip(4);
+          const aligned = reader.read(1);
+          let count = reader.read(8);
+          if (count === 255) count += reader.read(8);
+          if (aligned) reader.byteAlign();
+          reader.skip(count * 8);
+          break;
+        }
+        case ID_PCE:
+          skipProgramConfig(reader);
+          break;
+        case ID_FIL: {
+          let count = reader.read(4);
+          if (count === 15) count += reader.read(8) - 1;
+          if (count > 0) {
+            const extension = reader.read(4);
+            if (extension === EXT_SBR_DATA || extension === EXT_SBR_DATA_CRC) throw unsupportedProfile(OBJECT_TYPE_SBR);
+            reader.skip(count * 8 - 4);
+          }
+          break;
+        }
+      }
+      if (reader.bitsLeft < 0) throw new Error("AAC frame is truncated");
+    }
+    return output;
+  }
+
+  private decodePair(reader: BitReader, output: Float32Array[]) {
+    reader.skip(4);
+    const commonWindow = reader.read(1) === 1;
+    let info: IcsInfo | null = null;
+    let msUsed: Uint8Array | null = null;
+    if (commonWindow) {
+      const common = this.readIcsInfo(reader);
+      const msPresent = reader.read(2);
+      if (msPresent > 0) {
+        const used = new Uint8Array(8 * MAX_BANDS);
+        common.groupLengths.forEach((_, g) => {
+          for (let sfb = 0; sfb < common.maxSfb; sfb++) used[g * MAX_BANDS + sfb] = msPresent === 1 ? reader.read(1) : 1;
+        });
+        msUsed = used;
+      }
+      info = common;
+    }
+    const left = this.readChannelStream(reader, info);
+    const right = this.readChannelStream(reader, info);
+
+    if (msUsed) applyMidSide(left, right, msUsed);
+    const noise = this.applyNoise(left, null, null);
+    this.applyNoise(right, msUsed, noise);
+    applyIntensity(left, right, msUsed);
+
+    this.finishChannel(left, output);
+    this.finishChannel(right, output);
+  }
+
+  private readIcsInfo(reader: BitReader): IcsInfo {
+    const index = this.config.sampleRateIndex;
+    reader.skip(1);
+    const windowSequence = reader.read(2);
+    const windowShape = reader.read(1);
+    if (windowSequence === EIGHT_SHORT_SEQUENCE) {
+      const maxSfb = reader.read(4);
+      const grouping = reader.read(7);
+      const groupLengths = [1];
+      for (let bit = 6; bit >= 0; bit--) {
+        if ((grouping >> bit) & 1) groupLengths[groupLengths.length - 1]++;
+        else groupLengths.push(1);
+      }
+      const swbOffsets = SWB_OFFSETS_SHORT[index];
+      if (maxSfb > swbOffsets.length - 1) throw new Error("AAC max_sfb exceeds the band count");
+      return { windowSequence, windowShape, maxSfb, groupLengths, swbOffsets };
+    }
+
+    const maxSfb = reader.read(6);
+    if (reader.read(1)) throw unsupportedProfile(1);
+    const swbOffsets = SWB_OFFSETS_LONG[index];
+    if (maxSfb > swbOffsets.length - 1) throw new Error("AAC max_sfb exceeds the band count");
+    return { windowSequence, windowShape, maxSfb, groupLengths: [1], swbOffsets };
+  }
+
+  private readChannelStream(reader: BitReader, commonInfo: IcsInfo | null): ChannelStream {
+    const globalGain = reader.read(8);
+    const info = commonInfo ?? this.readIcsInfo(reader);
+    const short = info.windowSequence === EIGHT_SHORT_SEQUENCE;
+    const { maxSfb, groupLengths, swbOffsets } = info;
+
+    // section_data()
+    const bandTypes = new Uint8Array(8 * MAX_BANDS);
+    const sectionBits = short ? 3 : 5;
+    const escape = (1 << sectionBits) - 1;
+    groupLengths.forEach((_, g) => {
+      let sfb = 0;
+      while (sfb < maxSfb) {
+        const bandType = reader.read(4);
+        if (bandType === 12) throw new Error("Reserved AAC section codebook");
+        let length = 0;
+        let increment: number;
+        while ((increment = reader.read(sectionBits)) === escape) {
+          length += escape;
+          if (reader.bitsLeft < 0) throw new Error("AAC frame is truncated");
+        }
+        length += increment;
+        if (sfb + length > maxSfb) throw new Error("AAC section runs past max_sfb");
+        for (let end = sfb + length; sfb < end; sfb++) bandTypes[g * MAX_BANDS + sfb] = bandType;
+      }
+    });
+
+    // scale_factor_data()
+    const scalefactors = new Int32Array(8 * MAX_BANDS);
+    let scalefactor = globalGain;
+    let position = 0;
+    let noiseEnergy = globalGain - 90;
+    let firstNoise = true;
+    groupLengths.forEach((_, g) => {
+      for (let sfb = 0; sfb < maxSfb; sfb++) {
+        const index = g * MAX_BANDS + sfb;
+        const bandType = bandTypes[index];
+        if (bandType === ZERO_HCB) continue;
+        if (bandType === INTENSITY_HCB || bandType === INTENSITY_HCB2) {
+          position += decodeHuffman(SCALEFACTOR_TREE, reader) - 60;
+          scalefactors[index] = position;
+        } else if (bandType === NOISE_HCB) {
+          noiseEnergy += firstNoise ? reader.read(9) - 256 : decodeHuffman(SCALEFACTOR_TREE, reader) - 60;
+          firstNoise = false;
+          scalefactors[index] = noiseEnergy;
+        } else {
+          scalefactor += decodeHuffman(SCALEFACTOR_TREE, reader) - 60;
+          if (scalefactor < 0 || scalefactor > 255) throw new Error("AAC scalefactor out of range");
+          scalefactors[index] = scalefactor;
+        }
+      }
+    });
+
+    // pulse_data()
+    let pulses: { start: number; offsets: number[]; amplitudes: number[] } | null = null;
+    if (reader.read(1)) {
+      if (short) throw new Error("AAC pulse data in a short window");
+      const count = reader.read(2) + 1;
+      const startBand = reader.read(6);
+      if (startBand >= swbOffsets.length - 1) throw new Error("AAC pulse data out of range");
+      pulses = { start: swbOffsets[startBand], offsets: [], amplitudes: [] };
+      for (let i = 0; i < count; i++) {
+        pulses.offsets.push(reader.read(5));
+        pulses.amplitudes.push(reader.read(4));
+      }
+    }
+
+    const tns = reader.read(1) ? this.readTns(reader, info) : null;
+    if (reader.read(1)) throw unsupportedProfile(3);
+
+    // spectral_data(), de-interleaved so window w starts at w * 128.
+    const quantised = new Int32Array(1024);
+    let window = 0;
+    groupLengths.forEach((groupLength, g) => {
+      for (let sfb = 0; sfb < maxSfb; sfb++) {
+        const bandType = bandTypes[g * MAX_BANDS + sfb];
+        if (bandType === ZERO_HCB || bandType >= NOISE_HCB) continue;
+        for (let w = 0; w < groupLength; w++) {
+          const base = (window + w) * SHORT_LENGTH;
+          for (let k = swbOffsets[sfb]; k < swbOffsets[sfb + 1]; ) {
+            k += readSpectralTuple(reader, bandType, quantised, base + k);
+          }
+        }
+      }
+      window += groupLength;
+    });
+
+    if (pulses) {
+      let k = pulses.start;
+      pulses.offsets.forEach((offset, i) => {
+        k += offset;
+        if (k >= 1024) throw new Error("AAC pulse data out of range");
+        quantised[k] += quantised[k] > 0 ? pulses!.amplitudes[i] : -pulses!.amplitudes[i];
+      });
+    }
+
+    // Inverse quantisation.
+    const spectrum = new Float64Array(1024);
+    window = 0;
+    groupLengths.forEach((groupLength, g) => {
+      for (let sfb = 0; sfb < maxSfb; sfb++) {
+        const bandType = bandTypes[g * MAX_BANDS + sfb];
+        if (bandType === ZERO_HCB || bandType >= NOISE_HCB) continue;
+        const gain = Math.pow(2, 0.25 * (scalefactors[g * MAX_BANDS + sfb] - 100));
+        for (let w = 0; w < groupLength; w++) {
+          const base = (window + w) * SHORT_LENGTH;
+          for (let k = base + swbOffsets[sfb]; k < base + swbOffsets[sfb + 1]; k++) {
+            const q = quantised[k];
+            const magnitude = q < 0 ? -q : q;
+            if (magnitude >= POW43.length) throw new Error("AAC spectral value out of range");
+            spectrum[k] = (q < 0 ? -POW43[magnitude] : POW43[magnitude]) * gain;
+          }
+        }
+      }
+      window += groupLength;
+    });
+
+    return { info, bandTypes, scalefactors, spectrum, tns };
+  }
+
+  private readTns(reader: BitReader, info: IcsInfo): TnsFilter[][] {
+    const short = info.windowSequence === EIGHT_SHORT_SEQUENCE;
+    const windows = short ? 8 : 1;
+    const maxBands = Math.min(
+      (short ? TNS_MAX_BANDS_SHORT : TNS_MAX_BANDS_LONG)[this.config.sampleRateIndex],
+      info.maxSfb,
+    );
+    const maxOrder = short ? TNS_MAX_ORDER_SHORT : TNS_MAX_ORDER_LONG;
+    const bandCount = info.swbOffsets.length - 1;
+    const filters: TnsFilter[][] = [];
+
+    for (let w = 0; w < windows; w++) {
+      const windowFilters: TnsFilter[] = [];
+      const count = reader.read(short ? 1 : 2);
+      const coefficientResolution = count > 0 ? reader.read(1) : 0;
+      let top = bandCount;
+      for (let f = 0; f < count; f++) {
+        const length = reader.read(short ? 4 : 6);
+        const order = reader.read(short ? 3 : 5);
+        const bottom = Math.max(top - length, 0);
+        if (order > 0) {
+          const direction = reader.read(1);
+          const compress = reader.read(1);
+          const bits = 3 + coefficientResolution - compress;
+          const parcor: number[] = [];
+          const steps = 1 << (coefficientResolution + 2);
+          for (let i = 0; i < order; i++) {
+            let value = reader.read(bits);
+            if (value >= 1 << (bits - 1)) value -= 1 << bits;
+            const factor = (value >= 0 ? steps - 0.5 : steps + 0.5) / (Math.PI / 2);
+            parcor.push(Math.sin(value / factor));
+          }
+
+          const start = info.swbOffsets[Math.min(bottom, maxBands)];
+          const end = info.swbOffsets[Math.min(top, maxBands)];
+          if (end > start) {
+            const used = Math.min(order, maxOrder);
+            windowFilters.push({
+              start: w * SHORT_LENGTH + (direction ? end - 1 : start),
+              length: end - start,
+              inc: direction ? -1 : 1,
+              lpc: parcorToLpc(parcor, used),
+              order: used,
+            });
+          }
+        }
+        top = bottom;
+      }
+      filters.push(windowFilters);
+    }
+    return filters;
+  }
+
+  private random(): number {
+    this.randomState = (Math.imul(this.randomState, 1664525) + 1013904223) | 0;
+    return this.randomState / 2147483648;
+  }
+
+  // Perceptual noise substitution: noise bands get random lines scaled to the
+  // transmitted energy. Where a pair signals M/S for a band that is noise in
+  // both channels the right channel reuses the left channel's noise. Returns
+  // the unscaled noise generated per band for that purpose.
+  private applyNoise(stream: ChannelStream, msUsed: Uint8Array | null, shared: Map<number, Float64Array> | null) {
+    const generated = new Map<number, Float64Array>();
+    const { groupLengths, maxSfb, swbOffsets } = stream.info;
+    let window = 0;
+    groupLengths.forEach((groupLength, g) => {
+      for (let sfb = 0; sfb < maxSfb; sfb++) {
+        const index = g * MAX_BANDS + sfb;
+        if (stream.bandTypes[index] !== NOISE_HCB) continue;
+        const width = swbOffsets[sfb + 1] - swbOffsets[sfb];
+        for (let w = 0; w < groupLength; w++) {
+          const key = (window + w) * MAX_BANDS + sfb;
+          let noise = msUsed && msUsed[index] ? shared?.get(key) : undefined;
+          if (!noise) {
+            noise = new Float64Array(width);
+            for (let k = 0; k < width; k++) noise[k] = this.random();
+          }
+          generated.set(key, noise);
+          let energy = 0;
+          for (let k = 0; k < width; k++) energy += noise[k] * noise[k];
+          const gain = Math.pow(2, 0.25 * stream.scalefactors[index]) / Math.sqrt(energy || 1);
+          const base = (window + w) * SHORT_LENGTH + swbOffsets[sfb];
+          for (let k = 0; k < width; k++) stream.spectrum[base + k] = noise[k] * gain;
+        }
+      }
+      window += groupLength;
+    });
+    return generated;
+  }
+
+  private finishChannel(stream: ChannelStream, output: Float32Array[]) {
+    const channel = output.length;
+    if (!this.states[channel]) this.states[channel] = { overlap: new Float64Array(1024), previousShape: 0 };
+    const state = this.states[channel];
+
+    if (stream.tns) {
+      for (const windowFilters of stream.tns) {
+        for (const filter of windowFilters) applyTns(stream.spectrum, filter);
+      }
+    }
+
+    const samples = new Float32Array(AAC_FRAME_LENGTH);
+    this.synthesize(stream, state);
+    for (let n = 0; n < AAC_FRAME_LENGTH; n++) {
+      samples[n] = (state.overlap[n] + this.windowed[n]) * OUTPUT_SCALE;
+      state.overlap[n] = this.windowed[1024 + n];
+    }
+    state.previousShape = stream.info.windowShape;
+    output.push(samples);
+  }
+
+  // Inverse transform and windowing (subclause 4.6.11) into `windowed`.
+  private synthesize(stream: ChannelStream, state: ChannelState) {
+    const { windowSequence, windowShape } = stream.info;
+    const out = this.windowed;
+    const block = this.transformed;
+    const longPrevious = LONG_WINDOWS[state.previousShape];
+    const longCurrent = LONG_WINDOWS[windowShape];
+    const shortPrevious = SHORT_WINDOWS[state.previousShape];
+    const shortCurrent = SHORT_WINDOWS[windowShape];
+
+    if (windowSequence === EIGHT_SHORT_SEQUENCE) {
+      out.fill(0);
+      for (let w = 0; w < 8; w++) {
+        this.shortImdct.transform(stream.spectrum, w * SHORT_LENGTH, block, 2 / 256);
+        const rising = w === 0 ? shortPrevious : shortCurrent;
+        const offset = 448 + w * SHORT_LENGTH;
+        for (let n = 0; n < SHORT_LENGTH; n++) {
+          out[offset + n] += block[n] * rising[n];
+          out[offset + SHORT_LENGTH + n] += block[SHORT_LENGTH + n] * shortCurrent[SHORT_LENGTH - 1 - n];
+        }
+      }
+      return;
+    }
+
+    this.longImdct.transform(stream.spectrum, 0, block, 2 / 2048);
+    if (windowSequence === LONG_STOP_SEQUENCE) {
+      for (let n = 0; n < 448; n++) out[n] = 0;
+      for (let n = 0; n < SHORT_LENGTH; n++) out[448 + n] = block[448 + n] * shortPrevious[n];
+      for (let n = 576; n < 1024; n++) out[n] = block[n];
+    } else {
+      for (let n = 0; n < 1024; n++) out[n] = block[n] * longPrevious[n];
+    }
+    if (windowSequence === LONG_START_SEQUENCE) {
+      for (let n = 1024; n < 1472; n++) out[n] = block[n];
+      for (let n = 0; n < SHORT_LENGTH; n++) out[1472 + n] = block[1472 + n] * shortCurrent[SHORT_LENGTH - 1 - n];
+      for (let n = 1600; n < 2048; n++) out[n] = 0;
+    } else {
+      for (let n = 0; n < 1024; n++) out[1024 + n] = block[1024 + n] * longCurrent[1023 - n];
+    }
+  }
+}
+
+// Reads one Huffman codeword and its sign and escape bits into `target`,
+// returning the number of lines written.
+function readSpectralTuple(reader: BitReader, bandType: number, target: Int32Array, offset: number): number {
+  const book = SPECTRAL_CODEBOOKS[bandType];
+  let symbol = decodeHuffman(SPECTRAL_TREES[bandType], reader);
+  for (let i = book.dimension - 1; i >= 0; i--) {
+    target[offset + i] = symbol % book.modulo;
+    symbol = Math.floor(symbol / book.modulo);
+  }
+  if (book.signed) {
+    const centre = (book.modulo - 1) >> 1;
+    for (let i = 0; i < book.dimension; i++) target[offset + i] -= centre;
+    return book.dimension;
+  }
+  for (let i = 0; i < book.dimension; i++) {
+    if (target[offset + i] !== 0 && reader.read(1)) target[offset + i] = -target[offset + i];
+  }
+  if (bandType === ESCAPE_HCB) {
+    for (let i = 0; i < 2; i++) {
+      const value = target[offset + i];
+      if (value !== 16 && value !== -16) continue;
+      let bits = 4;
+      while (reader.read(1)) {
+        if (++bits > 12) throw new Error("Invalid AAC escape sequence");
+      }
+      const magnitude = (1 << bits) + reader.read(bits);
+      target[offset + i] = value < 0 ? -magnitude : magnitude;
+    }
+  }
+  return book.dimension;
+}
+
+function applyMidSide(left: ChannelStream, right: ChannelStream, msUsed: Uint8Array) {
+  const { groupLengths, maxSfb, swbOffsets } = left.info;
+  let window = 0;
+  groupLengths.forEach((groupLength, g) => {
+    for (let sfb = 0; sfb < maxSfb; sfb++) {
+      const index = g * MAX_BANDS + sfb;
+      if (!msUsed[index] || left.bandTypes[index] >= NOISE_HCB || right.bandTypes[index] >= NOISE_HCB) continue;
+      for (let w = 0; w < groupLength; w++) {
+        const base = (window + w) * SHORT_LENGTH;
+        for (let k = base + swbOffsets[sfb]; k < base + swbOffsets[sfb + 1]; k++) {
+          const mid = left.spectrum[k];
+          const side = right.spectrum[k];
+          left.spectrum[k] = mid + side;
+          right.spectrum[k] = mid - side;
+        }
+      }
+    }
+    window += groupLength;
+  });
+}
+
+// Intensity stereo: right channel bands rebuilt from the left channel,
+// scaled by the transmitted position. The sign flips in bands marked M/S,
+// including when M/S is signalled for all bands; that follows FFmpeg, whose
+// encoder relies on it, rather than the letter of the spec.
+function applyIntensity(left: ChannelStream, right: ChannelStream, msUsed: Uint8Array | null) {
+  const { groupLengths, maxSfb, swbOffsets } = right.info;
+  let window = 0;
+  groupLengths.forEach((groupLength, g) => {
+    for (let sfb = 0; sfb < maxSfb; sfb++) {
+      const index = g * MAX_BANDS + sfb;
+      const bandType = right.bandTypes[index];
+      if (bandType !== INTENSITY_HCB && bandType !== INTENSITY_HCB2) continue;
+      let sign = bandType === INTENSITY_HCB ? 1 : -1;
+      if (msUsed && msUsed[index]) sign = -sign;
+      const gain = sign * Math.pow(2, -0.25 * right.scalefactors[index]);
+      for (let w = 0; w < groupLength; w++) {
+        const base = (window + w) * SHORT_LENGTH;
+        for (let k = base + swbOffsets[sfb]; k < base + swbOffsets[sfb + 1]; k++) {
+          right.spectrum[k] = left.spectrum[k] * gain;
+        }
+      }
+    }
+    window += groupLength;
+  });
+}
+
+// Converts reflection coefficients to direct form LPC coefficients, a[0] = 1.
+function parcorToLpc(parcor: number[], order: number): Float64Array {
+  const lpc = new Float64Array(order + 1);
+  const previous = new Float64Array(order + 1);
+  lpc[0] = 1;
+  for (let m = 1; m <= order; m++) {
+    previous.set(lpc);
+    for (let i = 1; i < m; i++) lpc[i] = previous[i] + parcor[m - 1] * previous[m - i];
+    lpc[m] = parcor[m - 1];
+  }
+  return lpc;
+}
+
+// All-pole TNS synthesis filter run along the spectrum in the signalled
+// direction.
+function applyTns(spectrum: Float64Array, filter: TnsFilter) {
+  const state = new Float64Array(filter.order);
+  let k = filter.start;
+  for (let n = 0; n < filter.length; n++, k += filter.inc) {
+    let y = spectrum[k];
+    for (let i = 0; i < filter.order; i++) y -= filter.lpc[i + 1] * state[i];
+    for (let i = filter.order - 1; i > 0; i--) state[i] = state[i - 1];
+    if (filter.order > 0) state[0] = y;
+    spectrum[k] = y;
+  }
+}
+
+function skipProgramConfig(reader: BitReader) {
+  reader.skip(4 + 2 + 4);
+  const front = reader.read(4);
+  const side = reader.read(4);
+  const back = reader.read(4);
+  const lfe = reader.read(2);
+  const assocData = reader.read(3);
+  const validCc = reader.read(4);
+  if (reader.read(1)) reader.skip(4);
+  if (reader.read(1)) reader.skip(4);
+  if (reader.read(1)) reader.skip(3);
+  reader.skip((front + side + back) * 5 + lfe * 4 + assocData * 4 + validCc * 5);
+  reader.byteAlign();
+  reader.skip(reader.read(8) * 8);
+}
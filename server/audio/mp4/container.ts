@@ -0,0 +1,277 @@
+import { type AudioTags } from "../types";
+
+// ISO base media file format (ISO/IEC 14496-12) demuxing for audio-only
+// files such as `.m4a`: finds the first sound track, its codec configuration
+// and the byte range of every sample in `mdat`, plus iTunes-style tags.
+
+export interface Mp4Sample {
+  offset: number;
+  size: number;
+}
+
+export interface Mp4AudioTrack {
+  // Sample entry four character code, e.g. "mp4a" or "alac".
+  codec: string;
+  // ES descriptor objectTypeIndication for "mp4a" entries; 0x40 is MPEG-4
+  // audio and 0x66-0x68 the MPEG-2 AAC profiles.
+  objectType?: number;
+  // DecoderSpecificInfo, i.e. the AudioSpecificConfig for AAC.
+  decoderConfig?: Buffer;
+  channelCount: number;
+  sampleRate: number;
+  // Units per second of the track's media time.
+  timescale: number;
+  samples: Mp4Sample[];
+  // Presented range from the edit list in media time, used to drop encoder
+  // priming and padding. `editDuration` is absent without an edit list.
+  editStart: number;
+  editDuration?: number;
+}
+
+export interface Mp4File {
+  brand: string;
+  audioTrack: Mp4AudioTrack | null;
+  tags: AudioTags;
+}
+
+interface Box {
+  type: string;
+  // Payload range, excluding the header.
+  start: number;
+  end: number;
+}
+
+const TAG_ITEMS: Record<string, keyof AudioTags> = {
+  "©nam": "title",
+  "©ART": "artist",
+  "©alb": "album",
+  "©cmt": "comment",
+};
+
+export function isMp4(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.toString("ascii", 4, 8) === "ftyp";
+}
+
+function readBoxes(buffer: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = buffer.readUInt32BE(offset + 8) * 0x100000000 + buffer.readUInt32BE(offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) throw new Error(`Invalid MP4 box size for '${type}'`);
+    // Truncated files are common; keep what is there.
+    boxes.push({ type, start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(buffer: Buffer, parent: Box, path: string[]): Box | null {
+  let current: Box | null = parent;
+  for (const type of path) {
+    if (!current) return null;
+    current = readBoxes(buffer, current.start, current.end).find(box => box.type === type) ?? null;
+  }
+  return current;
+}
+
+export function parseMp4(buffer: Buffer): Mp4File {
+  if (!isMp4(buffer)) throw new Error("Not an MP4 file");
+  const root: Box = { type: "", start: 0, end: buffer.length };
+  const ftyp = findBox(buffer, root, ["ftyp"])!;
+  const brand = buffer.toString("latin1", ftyp.start, ftyp.start + 4);
+
+  const moov = findBox(buffer, root, ["moov"]);
+  if (!moov) throw new Error("MP4 file has no moov box");
+
+  const mvhd = findBox(buffer, moov, ["mvhd"]);
+  const movieTimescale = mvhd ? buffer.readUInt32BE(mvhd.start + (buffer[mvhd.start] === 1 ? 20 : 12)) : 0;
+
+  let audioTrack: Mp4AudioTrack | null = null;
+  for (const trak of readBoxes(buffer, moov.start, moov.end)) {
+    if (trak.type !== "trak") continue;
+    const hdlr = findBox(buffer, trak, ["mdia", "hdlr"]);
+    if (!hdlr || buffer.toString("latin1", hdlr.start + 8, hdlr.start + 12) !== "soun") continue;
+    audioTrack = parseAudioTrack(buffer, trak, movieTimescale);
+    break;
+  }
+
+  const ilst = findIlst(buffer, moov);
+  return { brand, audioTrack, tags: ilst ? parseTags(buffer, ilst) : {} };
+}
+
+function parseAudioTrack(buffer: Buffer, trak: Box, movieTimescale: number): Mp4AudioTrack {
+  const mdhd = findBox(buffer, trak, ["mdia", "mdhd"]);
+  const stbl = findBox(buffer, trak, ["mdia", "minf", "stbl"]);
+  if (!mdhd || !stbl) throw new Error("MP4 audio track is missing its sample table");
+  const timescale = buffer.readUInt32BE(mdhd.start + (buffer[mdhd.start] === 1 ? 20 : 12));
+
+  const stsd = findBox(buffer, stbl, ["stsd"]);
+  if (!stsd || buffer.readUInt32BE(stsd.start + 4) < 1) throw new Error("MP4 audio track has no sample description");
+  const [entry] = readBoxes(buffer, stsd.start + 8, stsd.end);
+  const track: Mp4AudioTrack = {
+    ...parseSampleEntry(buffer, entry),
+    timescale,
+    samples: parseSampleTable(buffer, stbl),
+    editStart: 0,
+  };
+
+  const elst = findBox(buffer, trak, ["edts", "elst"]);
+  if (elst) {
+    const version = buffer[elst.start];
+    const count = buffer.readUInt32BE(elst.start + 4);
+    let offset = elst.start + 8;
+    for (let i = 0; i < count; i++) {
+      const duration = version === 1 ? readUInt64(buffer, offset) : buffer.readUInt32BE(offset);
+      const mediaTime = version === 1 ? readInt64(buffer, offset + 8) : buffer.readInt32BE(offset + 4);
+      offset += version === 1 ? 20 : 12;
+      // Empty edits (media time -1) only delay the track; skip them.
+      if (mediaTime < 0) continue;
+      track.editStart = mediaTime;
+      if (duration > 0 && movieTimescale > 0) track.editDuration = Math.round((duration * timescale) / movieTimescale);
+      break;
+    }
+  }
+  return track;
+}
+
+type SampleEntry = Pick<Mp4AudioTrack, "codec" | "objectType" | "decoderConfig" | "channelCount" | "sampleRate">;
+
+function parseSampleEntry(buffer: Buffer, entry: Box): SampleEntry {
+  const { start } = entry;
+  // QuickTime sound description versions 1 and 2 extend the ISO layout.
+  const version = buffer.readUInt16BE(start + 8);
+  const result: SampleEntry = {
+    codec: entry.type,
+    channelCount: buffer.readUInt16BE(start + 16),
+    sampleRate: buffer.readUInt32BE(start + 24) / 65536,
+  };
+  let children = start + 28;
+  if (version === 1) {
+    children += 16;
+  } else if (version === 2) {
+    result.sampleRate = buffer.readDoubleBE(start + 32);
+    result.channelCount = buffer.readUInt32BE(start + 40);
+    children += 36;
+  }
+
+  const esds = findBox(buffer, { type: entry.type, start: children, end: entry.end }, ["esds"]) ??
+    findBox(buffer, { type: entry.type, start: children, end: entry.end }, ["wave", "esds"]);
+  if (esds) Object.assign(result, parseEsds(buffer, esds));
+  return result;
+}
+
+// Reads a descriptor tag and its variable length size (ISO/IEC 14496-1 8.3.3).
+function readDescriptor(buffer: Buffer, offset: number): { tag: number; start: number; end: number } {
+  const tag = buffer[offset++];
+  let size = 0;
+  for (let i = 0; i < 4; i++) {
+    const byte = buffer[offset++];
+    size = size * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return { tag, start: offset, end: offset + size };
+}
+
+function parseEsds(buffer: Buffer, esds: Box): Partial<SampleEntry> {
+  const es = readDescriptor(buffer, esds.start + 4);
+  if (es.tag !== 0x03) return {};
+  const flags = buffer[es.start + 2];
+  let offset = es.start + 3;
+  if (flags & 0x80) offset += 2;
+  if (flags & 0x40) offset += 1 + buffer[offset];
+  if (flags & 0x20) offset += 2;
+
+  const config = readDescriptor(buffer, offset);
+  if (config.tag !== 0x04) return {};
+  const result: Partial<SampleEntry> = { objectType: buffer[config.start] };
+  if (config.start + 13 < config.end) {
+    const specific = readDescriptor(buffer, config.start + 13);
+    if (specific.tag === 0x05) result.decoderConfig = buffer.subarray(specific.start, specific.end);
+  }
+  return result;
+}
+
+function parseSampleTable(buffer: Buffer, stbl: Box): Mp4Sample[] {
+  const stsz = findBox(buffer, stbl, ["stsz"]);
+  const stsc = findBox(buffer, stbl, ["stsc"]);
+  const stco = findBox(buffer, stbl, ["stco"]);
+  const co64 = findBox(buffer, stbl, ["co64"]);
+  if (!stsz || !stsc || (!stco && !co64)) throw new Error("MP4 sample table is incomplete");
+
+  const uniformSize = buffer.readUInt32BE(stsz.start + 4);
+  const sampleCount = buffer.readUInt32BE(stsz.start + 8);
+  const sizeAt = (i: number) => (uniformSize > 0 ? uniformSize : buffer.readUInt32BE(stsz.start + 12 + i * 4));
+
+  const chunkOffsets: number[] = [];
+  if (co64) {
+    const count = buffer.readUInt32BE(co64.start + 4);
+    for (let i = 0; i < count; i++) chunkOffsets.push(readUInt64(buffer, co64.start + 8 + i * 8));
+  } else {
+    const count = buffer.readUInt32BE(stco!.start + 4);
+    for (let i = 0; i < count; i++) chunkOffsets.push(buffer.readUInt32BE(stco!.start + 8 + i * 4));
+  }
+
+  // Sample-to-chunk runs: each entry holds from its first chunk until the
+  // next entry's first chunk.
+  const runCount = buffer.readUInt32BE(stsc.start + 4);
+  const runs: { firstChunk: number; samplesPerChunk: number }[] = [];
+  for (let i = 0; i < runCount; i++) {
+    const offset = stsc.start + 8 + i * 12;
+    runs.push({ firstChunk: buffer.readUInt32BE(offset) - 1, samplesPerChunk: buffer.readUInt32BE(offset + 4) });
+  }
+
+  const samples: Mp4Sample[] = [];
+  let run = 0;
+  for (let chunk = 0; chunk < chunkOffsets.length && samples.length < sampleCount; chunk++) {
+    while (run + 1 < runs.length && runs[run + 1].firstChunk <= chunk) run++;
+    let offset = chunkOffsets[chunk];
+    const perChunk = runs.length > 0 ? runs[run].samplesPerChunk : 0;
+    for (let i = 0; i < perChunk && samples.length < sampleCount; i++) {
+      const size = sizeAt(samples.length);
+      if (offset + size > buffer.length) return samples;
+      samples.push({ offset, size });
+      offset += size;
+    }
+  }
+  return samples;
+}
+
+// iTunes metadata lives at moov/udta/meta/ilst. `meta` is a full box in ISO
+// files but a plain container in QuickTime ones.
+function findIlst(buffer: Buffer, moov: Box): Box | null {
+  const meta = findBox(buffer, moov, ["udta", "meta"]);
+  if (!meta) return null;
+  const fullBox = buffer.toString("latin1", meta.start + 4, meta.start + 8) !== "hdlr";
+  return findBox(buffer, { type: "meta", start: meta.start + (fullBox ? 4 : 0), end: meta.end }, ["ilst"]);
+}
+
+function parseTags(buffer: Buffer, ilst: Box): AudioTags {
+  const tags: AudioTags = {};
+  for (const item of readBoxes(buffer, ilst.start, ilst.end)) {
+    const key = TAG_ITEMS[item.type];
+    if (!key) continue;
+    const data = findBox(buffer, item, ["data"]);
+    // Type indicator 1 is UTF-8 text; skip it and the locale.
+    if (data && buffer.readUInt32BE(data.start) === 1) {
+      tags[key] = buffer.toString("utf8", data.start + 8, data.end);
+    }
+  }
+  return tags;
+}
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  return buffer.readUInt32BE(offset) * 0x100000000 + buffer.readUInt32BE(offset + 4);
+}
+
+function readInt64(buffer: Buffer, offset: number): number {
+  return buffer.readInt32BE(offset) * 0x100000000 + buffer.readUInt32BE(offset + 4);
+}
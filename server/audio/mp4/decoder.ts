@@ -0,0 +1,69 @@
+import { createPcm, UnsupportedAudioError, type AudioTags, type PcmAudio } from "../types";
+import { parseMp4 } from "./container";
+import { AAC_FRAME_LENGTH, AacDecoder, parseAudioSpecificConfig } from "./aac";
+
+// ES descriptor object types that carry MPEG-4 audio or MPEG-2 AAC LC. The
+// MPEG-2 Main (0x66) and SSR (0x68) profiles are not decodable here.
+const OBJECT_TYPE_MPEG4_AUDIO = 0x40;
+const OBJECT_TYPE_MPEG2_AAC_LC = 0x67;
+
+const CODEC_NAMES: Record<string, string> = {
+  alac: "Apple Lossless (ALAC)",
+  "ac-3": "Dolby Digital (AC-3)",
+  "ec-3": "Dolby Digital Plus (E-AC-3)",
+  Opus: "Opus",
+  fLaC: "FLAC",
+};
+
+export interface Mp4DecodeResult {
+  audio: PcmAudio;
+  tags: AudioTags;
+}
+
+// Decodes the first audio track of an MP4/M4A file. Only AAC-LC is
+// supported; other codecs and profiles raise UnsupportedAudioError naming
+// what was found.
+export function decodeMp4(buffer: Buffer): Mp4DecodeResult {
+  const file = parseMp4(buffer);
+  const track = file.audioTrack;
+  if (!track) throw new UnsupportedAudioError("The M4A file contains no audio track");
+
+  if (track.codec !== "mp4a") {
+    const name = CODEC_NAMES[track.codec] ?? `'${track.codec}'`;
+    throw new UnsupportedAudioError(`${name} audio in M4A files is not supported; only AAC-LC can be decoded`);
+  }
+  if (track.objectType !== OBJECT_TYPE_MPEG4_AUDIO && track.objectType !== OBJECT_TYPE_MPEG2_AAC_LC) {
+    throw new UnsupportedAudioError("This M4A codec is not supported; only AAC-LC can be decoded");
+  }
+  if (!track.decoderConfig) throw new Error("M4A audio track has no decoder configuration");
+  const config = parseAudioSpecificConfig(track.decoderConfig);
+
+  const decoder = new AacDecoder(config);
+  const frames: Float32Array[][] = [];
+  for (const sample of track.samples) {
+    frames.push(decoder.decodeFrame(buffer.subarray(sample.offset, sample.offset + sample.size)));
+  }
+  const channelCount = frames.reduce((count, frame) => Math.max(count, frame.length), 0);
+  if (channelCount === 0) throw new Error("M4A audio track contains no audio");
+
+  // Apply the edit list, which is how encoders mark priming and padding.
+  const total = frames.length * AAC_FRAME_LENGTH;
+  const scale = config.sampleRate / track.timescale;
+  const start = Math.min(total, Math.round(track.editStart * scale));
+  const presented = track.editDuration !== undefined ? Math.round(track.editDuration * scale) : total - start;
+  const length = Math.max(0, Math.min(total - start, presented));
+
+  const audio = createPcm(length, channelCount, config.sampleRate);
+  audio.channels.forEach((channel, c) => {
+    frames.forEach((frame, i) => {
+      const samples = frame[c];
+      if (!samples) return;
+      const from = i * AAC_FRAME_LENGTH - start;
+      const skip = Math.max(0, -from);
+      if (skip >= samples.length || from + skip >= length) return;
+      channel.set(samples.subarray(skip, Math.min(samples.length, length - from)), from + skip);
+    });
+  });
+
+  return { audio, tags: file.tags };
+}
@@ -0,0 +1,227 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BitWriter } from "../bits";
+import { UnsupportedAudioError } from "../types";
+import { decodeMp4 } from "./decoder";
+import { parseMp4 } from "./container";
+import { SCALEFACTOR_CODES, SCALEFACTOR_LENGTHS, SPECTRAL_CODEBOOKS, SWB_OFFSETS_LONG } from "./tables";
+
+// M4A fixtures are assembled box by box around hand-coded AAC-LC access
+// units: mono frames that are either silent or carry a single spectral line.
+
+const SAMPLE_RATE = 44100;
+const SAMPLE_RATE_INDEX = 4;
+
+function box(type: string, ...children: Buffer[]): Buffer {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+function fullBox(type: string, version: number, ...children: Buffer[]): Buffer {
+  return box(type, Buffer.from([version, 0, 0, 0]), ...children);
+}
+
+function uint32(...values: number[]): Buffer {
+  const bytes = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => bytes.writeInt32BE(value | 0, i * 4));
+  return bytes;
+}
+
+function descriptor(tag: number, ...children: Buffer[]): Buffer {
+  const body = Buffer.concat(children);
+  return Buffer.concat([Buffer.from([tag, body.length]), body]);
+}
+
+// AudioSpecificConfig: object type, sample rate index and channel
+// configuration, with an empty GASpecificConfig.
+function audioSpecificConfig(objectType: number): Buffer {
+  const writer = new BitWriter(2);
+  writer.write(objectType, 5);
+  writer.write(SAMPLE_RATE_INDEX, 4);
+  writer.write(1, 4);
+  writer.write(0, 3);
+  return Buffer.from(writer.toBytes());
+}
+
+function sampleEntry(codec: string, ...children: Buffer[]): Buffer {
+  const fields = Buffer.alloc(28);
+  fields.writeUInt16BE(1, 6);
+  fields.writeUInt16BE(1, 16);
+  fields.writeUInt16BE(16, 18);
+  fields.writeUInt32BE(SAMPLE_RATE * 65536, 24);
+  return box(codec, fields, ...children);
+}
+
+function esds(objectType: number, config: Buffer): Buffer {
+  const decoderConfig = descriptor(0x04, Buffer.from([objectType, 0x15, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]), descriptor(0x05, config));
+  return fullBox("esds", 0, descriptor(0x03, Buffer.from([0, 1, 0]), decoderConfig, descriptor(0x06, Buffer.from([2]))));
+}
+
+interface FixtureOptions {
+  entry?: Buffer;
+  // Edit list start and duration in samples.
+  edit?: [number, number];
+  title?: string;
+}
+
+function m4a(frames: Buffer[], options: FixtureOptions = {}): Buffer {
+  const entry = options.entry ?? sampleEntry("mp4a", esds(0x40, audioSpecificConfig(2)));
+  const ftyp = box("ftyp", Buffer.from("M4A \0\0\0\0isom", "latin1"));
+  const build = (dataOffset: number) => {
+    const stbl = box(
+      "stbl",
+      fullBox("stsd", 0, uint32(1), entry),
+      fullBox("stts", 0, uint32(1, frames.length, 1024)),
+      fullBox("stsc", 0, uint32(1, 1, frames.length, 1)),
+      fullBox("stsz", 0, uint32(0, frames.length, ...frames.map(frame => frame.length))),
+      fullBox("stco", 0, uint32(1, dataOffset)),
+    );
+    const mdia = box(
+      "mdia",
+      fullBox("mdhd", 0, uint32(0, 0, SAMPLE_RATE, frames.length * 1024, 0)),
+      fullBox("hdlr", 0, uint32(0), Buffer.from("soun", "latin1"), Buffer.alloc(13)),
+      box("minf", stbl),
+    );
+    const edts = options.edit ? [box("edts", fullBox("elst", 0, uint32(1, options.edit[1], options.edit[0], 0x10000)))] : [];
+    const udta = options.title
+      ? [
+          box(
+            "udta",
+            fullBox(
+              "meta",
+              0,
+              box("ilst", box("©nam", box("data", uint32(1, 0), Buffer.from(options.title, "utf8")))),
+            ),
+          ),
+        ]
+      : [];
+    return box(
+      "moov",
+      fullBox("mvhd", 0, uint32(0, 0, SAMPLE_RATE, frames.length * 1024), Buffer.alloc(80)),
+      box("trak", ...edts, mdia),
+      ...udta,
+    );
+  };
+  // Sample offsets point into mdat, which follows moov.
+  const moov = build(ftyp.length + build(0).length + 8);
+  return Buffer.concat([ftyp, moov, box("mdat", ...frames)]);
+}
+
+// A single channel element with long windows. `line` puts one quantised
+// value of 1 on that spectral line; without it the frame is silent.
+function aacFrame(line?: number): Buffer {
+  const writer = new BitWriter(64);
+  writer.write(0, 3); // ID_SCE
+  writer.write(0, 4);
+  writer.write(180, 8); // global_gain
+  writer.write(0, 1);
+  writer.write(0, 2); // ONLY_LONG_SEQUENCE
+  writer.write(0, 1);
+
+  const offsets = SWB_OFFSETS_LONG[SAMPLE_RATE_INDEX];
+  const band = line === undefined ? -1 : offsets.findIndex((start, i) => start <= line && line < offsets[i + 1]);
+  writer.write(band + 1, 6); // max_sfb
+  writer.write(0, 1); // predictor_data_present
+  if (band >= 0) {
+    // Zero bands up to the line's band, then codebook 1 for it.
+    if (band > 0) {
+      writer.write(0, 4);
+      writer.write(band, 5);
+    }
+    writer.write(1, 4);
+    writer.write(1, 5);
+    writer.write(SCALEFACTOR_CODES[60], SCALEFACTOR_LENGTHS[60]);
+  }
+  writer.write(0, 3); // no pulse, TNS or gain control data
+  if (band >= 0) {
+    const book = SPECTRAL_CODEBOOKS[1];
+    for (let start = offsets[band]; start < offsets[band + 1]; start += 4) {
+      const quad = [0, 1, 2, 3].map((i): number => (start + i === line ? 1 : 0));
+      const index = quad.reduce((sum, value) => sum * 3 + value + 1, 0);
+      writer.write(book.codes[index], book.lengths[index]);
+    }
+  }
+  writer.write(7, 3); // ID_END
+  writer.byteAlign();
+  return Buffer.from(writer.toBytes());
+}
+
+function peakFrequency(channel: Float32Array, start: number, length: number): number {
+  let best = 0;
+  let bestPower = 0;
+  for (let bin = 1; bin < length / 2; bin++) {
+    let re = 0;
+    let im = 0;
+    for (let i = 0; i < length; i++) {
+      const angle = (2 * Math.PI * bin * i) / length;
+      re += channel[start + i] * Math.cos(angle);
+      im -= channel[start + i] * Math.sin(angle);
+    }
+    if (re * re + im * im > bestPower) {
+      bestPower = re * re + im * im;
+      best = bin;
+    }
+  }
+  return (best * SAMPLE_RATE) / length;
+}
+
+test("demuxes the track layout, samples and tags", () => {
+  const frames = [aacFrame(), aacFrame(40), aacFrame()];
+  const fixture = m4a(frames, { title: "Night Ride" });
+  const file = parseMp4(fixture);
+  assert.equal(file.brand, "M4A ");
+  assert.deepEqual(file.tags, { title: "Night Ride" });
+
+  const track = file.audioTrack!;
+  assert.equal(track.codec, "mp4a");
+  assert.equal(track.objectType, 0x40);
+  assert.equal(track.channelCount, 1);
+  assert.equal(track.sampleRate, SAMPLE_RATE);
+  assert.equal(track.timescale, SAMPLE_RATE);
+  assert.deepEqual(track.samples.map(sample => fixture.subarray(sample.offset, sample.offset + sample.size)), frames);
+});
+
+test("decodes silent AAC-LC frames to silence", () => {
+  const { audio } = decodeMp4(m4a([aacFrame(), aacFrame(), aacFrame()]));
+  assert.equal(audio.sampleRate, SAMPLE_RATE);
+  assert.equal(audio.channels.length, 1);
+  assert.equal(audio.channels[0].length, 3 * 1024);
+  assert.ok(audio.channels[0].every(sample => sample === 0));
+});
+
+test("decodes a spectral line to a tone at its frequency", () => {
+  const line = 40;
+  const { audio } = decodeMp4(m4a(Array.from({ length: 8 }, () => aacFrame(line))));
+  const channel = audio.channels[0];
+  assert.ok(channel.some(sample => Math.abs(sample) > 1e-3));
+  // Line k of a 1024 line MDCT sits at (k + 1/2) * fs / 2048.
+  const expected = ((line + 0.5) * SAMPLE_RATE) / 2048;
+  assert.ok(Math.abs(peakFrequency(channel, 2048, 2048) - expected) < 2 * (SAMPLE_RATE / 2048));
+});
+
+test("applies the edit list to drop priming and padding", () => {
+  const frames = Array.from({ length: 6 }, (_, i) => (i === 0 ? aacFrame() : aacFrame(40)));
+  const { audio } = decodeMp4(m4a(frames, { edit: [2112, 3000] }));
+  assert.equal(audio.channels[0].length, 3000);
+
+  const whole = decodeMp4(m4a(frames)).audio.channels[0];
+  assert.deepEqual(audio.channels[0], whole.subarray(2112, 2112 + 3000));
+});
+
+test("rejects HE-AAC and codecs other than AAC", () => {
+  assert.throws(
+    () => decodeMp4(m4a([aacFrame()], { entry: sampleEntry("mp4a", esds(0x40, audioSpecificConfig(5))) })),
+    (error: Error) => error instanceof UnsupportedAudioError && /HE-AAC|SBR/.test(error.message),
+  );
+  assert.throws(
+    () => decodeMp4(m4a([aacFrame()], { entry: sampleEntry("alac") })),
+    (error: Error) => error instanceof UnsupportedAudioError && /Apple Lossless/.test(error.message),
+  );
+});
+
+test("rejects files without a moov box", () => {
+  assert.throws(() => parseMp4(box("ftyp", Buffer.from("M4A \0\0\0\0", "latin1"))), /no moov box/);
+});
@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import fs from "fs";
+import { encodeFlacStream, type FlacEncodeOptions } from "./flac";
+import { type PcmAudio } from "./types";
+
+// Ogg bitstream framing (RFC 3533) and the Ogg FLAC mapping, which is what
+// `.ogg` downloads carry: lossless audio in a container every browser that
+// plays Ogg can open.
+
+export interface OggPacket {
+  data: Uint8Array;
+  // Granule position once this packet is complete; -1 when not meaningful.
+  granule: number;
+  // Ends the page after this packet, as the stream headers require.
+  flush?: boolean;
+}
+
+// Pages are closed once they hold roughly this many bytes.
+const TARGET_PAGE_SIZE = 4096;
+
+const CRC_TABLE = new Uint32Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  CRC_TABLE[i] = crc >>> 0;
+}
+
+function oggCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+}
+
+// Splits packets into lacing segments and pages for one logical bitstream.
+export function oggPages(packets: OggPacket[], serial: number): Buffer {
+  const pages: Buffer[] = [];
+  let segments: number[] = [];
+  let chunks: Uint8Array[] = [];
+  let size = 0;
+  let granule = -1;
+  let continued = false;
+  let sequence = 0;
+
+  const flushPage = (last: boolean) => {
+    const header = Buffer.alloc(27 + segments.length);
+    header.write("OggS", 0, "ascii");
+    header[4] = 0;
+    header[5] = (continued ? 1 : 0) | (sequence === 0 ? 2 : 0) | (last ? 4 : 0);
+    if (granule < 0) {
+      header.writeUInt32LE(0xffffffff, 6);
+      header.writeUInt32LE(0xffffffff, 10);
+    } else {
+      header.writeUInt32LE(granule % 0x100000000, 6);
+      header.writeUInt32LE(Math.floor(granule / 0x100000000), 10);
+    }
+    header.writeUInt32LE(serial, 14);
+    header.writeUInt32LE(sequence++, 18);
+    header[26] = segments.length;
+    segments.forEach((segment, i) => (header[27 + i] = segment));
+
+    const page = Buffer.concat([header, ...chunks]);
+    page.writeUInt32LE(oggCrc(page), 22);
+    pages.push(page);
+    segments = [];
+    chunks = [];
+    size = 0;
+    granule = -1;
+    continued = false;
+  };
+
+  packets.forEach((packet, index) => {
+    const { data } = packet;
+    let offset = 0;
+    // A packet whose length is a multiple of 255 ends with a zero segment.
+    for (;;) {
+      if (segments.length === 255) {
+        flushPage(false);
+        continued = offset > 0;
+      }
+      const length = Math.min(255, data.length - offset);
+      segments.push(length);
+      chunks.push(data.subarray(offset, offset + length));
+      size += length;
+      offset += length;
+      if (length < 255) break;
+    }
+    granule = packet.granule;
+
+    const last = index === packets.length - 1;
+    if (last || packet.flush || size >= TARGET_PAGE_SIZE) flushPage(last);
+  });
+
+  return Buffer.concat(pages);
+}
+
+// Wraps a FLAC stream per the Ogg FLAC mapping: an identification packet
+// carrying STREAMINFO, one packet per further metadata block, then one packet
+// per audio frame.
+export function encodeOggFlac(audio: PcmAudio, options: FlacEncodeOptions = {}): Buffer {
+  const stream = encodeFlacStream(audio, options);
+  const [streamInfo, ...otherMetadata] = stream.metadata;
+
+  const identification = Buffer.alloc(13);
+  identification[0] = 0x7f;
+  identification.write("FLAC", 1, "ascii");
+  identification[5] = 1;
+  identification[6] = 0;
+  identification.writeUInt16BE(otherMetadata.length, 7);
+  identification.write("fLaC", 9, "ascii");
+
+  const packets: OggPacket[] = [{ data: Buffer.concat([identification, streamInfo]), granule: 0, flush: true }];
+  otherMetadata.forEach((block, i) => {
+    packets.push({ data: block, granule: 0, flush: i === otherMetadata.length - 1 });
+  });
+
+  let samples = 0;
+  stream.frames.forEach((frame, i) => {
+    samples += stream.frameSamples[i];
+    packets.push({ data: frame, granule: samples });
+  });
+
+  return oggPages(packets, crypto.randomBytes(4).readUInt32LE(0));
+}
+
+export async function writeOggFlacFile(path: string, audio: PcmAudio, options: FlacEncodeOptions = {}) {
+  await fs.promises.writeFile(path, encodeOggFlac(audio, options));
+}
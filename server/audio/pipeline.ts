@@ -0,0 +1,363 @@
+import fs from "fs";
+import path from "path";
+import { type Conversion, type ConversionMetadata, type SongSection, type StemId } from "@shared/schema";
+import { pipelineStages, type PipelineStageId } from "@shared/pipeline";
+import { createPcm, mixInto, pcmDuration, pcmLength, toChannelCount, type AudioTags, type PcmAudio } from "./types";
+import { applyFilters, Biquad, normalizePeak, softClip } from "./dsp";
+import { decodeAudio } from "./decode";
+import { writeWavFile, type WavInfo } from "./wav";
+import { exportVariant, masterInfo, masterPath, stemPath } from "./export";
+import { defaultDrillPattern, renderDrums, type DrumSection } from "./drums";
+import { bassSteps, grooveTemplates } from "./grooves";
+import { render808, type KeyRegion } from "./bass808";
+import { resolveProfile, type RenderProfile } from "./presets";
+import { chooseTargetTempo, estimateTempo } from "./tempo";
+import { estimateKey, PITCH_CLASSES } from "./key";
+import { separateHarmonicPercussive } from "./hpss";
+import { extractVocals, processVocals } from "./vocals";
+import { transpose } from "./pitch";
+import { master } from "./master";
+import { duck, sidechainGain } from "./sidechain";
+import { renderAtmosphere } from "./atmosphere";
+import { segmentSections } from "./structure";
+import { arrangeBass, sectionArrangements, sweepSections } from "./arrangement";
+
+const DEFAULT_BPM = 140;
+// G minor, a common drill key, for sources without pitched content.
+const DEFAULT_KEY: KeyRegion = { start: 0, tonic: 7, mode: "minor" };
+// Key changes are looked for in sections of this many bars.
+const KEY_SECTION_BARS = 8;
+// Tempo changes smaller than this fraction aren't worth a stretch.
+const MIN_TEMPO_CHANGE = 0.005;
+// A source stretched by this fraction or more keeps none of its own drums.
+const MAX_PERCUSSION_STRETCH = 0.25;
+const TRUE_PEAK_CEILING = -1;
+
+export type ProgressListener = (progress: number, metadata: ConversionMetadata) => Promise<void> | void;
+
+export interface RenderResult {
+  outputPath: string;
+  metadata: ConversionMetadata;
+}
+
+interface RenderContext {
+  conversion: Conversion;
+  // The upload's bytes, when the caller has already read them.
+  upload?: Buffer;
+  profile: RenderProfile;
+  seed: number;
+  outputPath: string;
+  metadata: ConversionMetadata;
+  source?: PcmAudio;
+  tags?: AudioTags;
+  // LIST/INFO entries of a WAV source.
+  sourceInfo?: WavInfo;
+  bpm?: number;
+  // Sample position of the first beat, where generated bars start.
+  beatOffset?: number;
+  keys?: KeyRegion[];
+  // Song sections in seconds, following the source through the stretch.
+  sections?: SongSection[];
+  drums?: Float32Array;
+  // The generated kick alone, keying the sidechain.
+  kick?: Float32Array;
+  bass?: Float32Array;
+  atmosphere?: PcmAudio;
+  // Centred vocal lifted out of the source, then its processed version.
+  vocal?: Float32Array;
+  processedVocal?: PcmAudio;
+  mix?: PcmAudio;
+}
+
+type Stage = (ctx: RenderContext) => Promise<void> | void;
+
+function trackTitle(ctx: RenderContext): string {
+  return ctx.tags?.title || path.parse(ctx.conversion.originalFilename).name;
+}
+
+// Stems are float WAV masters like the render itself.
+async function writeStem(ctx: RenderContext, stem: StemId, audio: PcmAudio) {
+  await writeWavFile(stemPath(ctx.conversion.id, stem), audio, {
+    bitsPerSample: 32,
+    sampleFormat: "float",
+    info: masterInfo({ ...ctx.tags, title: `${trackTitle(ctx)} (${stem} stem)` }),
+  });
+  const stems = ctx.metadata.stems ?? [];
+  if (!stems.includes(stem)) ctx.metadata.stems = [...stems, stem];
+}
+
+const stages: Record<PipelineStageId, Stage> = {
+  async decode(ctx) {
+    const file = ctx.upload ?? (await fs.promises.readFile(ctx.conversion.originalFilePath));
+    const decoded = decodeAudio(file);
+    ctx.source = toChannelCount(decoded.audio, 2);
+    ctx.tags = decoded.tags;
+    ctx.sourceInfo = decoded.wavInfo;
+    ctx.metadata.sampleRate = ctx.source.sampleRate;
+    ctx.metadata.channels = ctx.source.channels.length;
+    ctx.metadata.durationSeconds = pcmDuration(ctx.source);
+  },
+
+  analyze(ctx) {
+    const source = ctx.source!;
+    // Without a measurable pulse, fall back to a stock drill tempo from the
+    // top of the file.
+    const tempo = estimateTempo(source);
+    const requested = ctx.conversion.params.targetBpm;
+    ctx.bpm = tempo?.bpm ?? requested ?? DEFAULT_BPM;
+    ctx.beatOffset = Math.round((tempo?.offset ?? 0) * source.sampleRate);
+    ctx.metadata.targetBpm = ctx.bpm;
+    ctx.metadata.stretchRatio = 1;
+    if (tempo) {
+      ctx.metadata.tempo = {
+        bpm: tempo.bpm,
+        confidence: tempo.confidence,
+        beatGrid: { offset: tempo.offset, interval: 60 / tempo.bpm },
+      };
+      // Without a measured tempo there is nothing to conform; the drums just
+      // play at the requested one.
+      const target = requested ?? chooseTargetTempo(tempo.bpm);
+      if (Math.abs(target / tempo.bpm - 1) >= MIN_TEMPO_CHANGE) {
+        ctx.metadata.targetBpm = target;
+        ctx.metadata.stretchRatio = target / tempo.bpm;
+      }
+    }
+
+    ctx.sections = segmentSections(source, ctx.bpm, ctx.beatOffset / source.sampleRate);
+    ctx.metadata.sections = ctx.sections;
+
+    const detected = estimateKey(source, (KEY_SECTION_BARS * 4 * 60) / ctx.bpm);
+    ctx.keys = detected?.sections ?? [DEFAULT_KEY];
+    if (detected) {
+      const { key, sections } = detected;
+      ctx.metadata.key = PITCH_CLASSES[key.tonic];
+      ctx.metadata.mode = key.mode;
+      ctx.metadata.keyChanges = sections.map(section => ({
+        start: Math.round(section.start * 1000) / 1000,
+        key: PITCH_CLASSES[section.tonic],
+        mode: section.mode,
+      }));
+    }
+  },
+
+  async separate(ctx) {
+    const source = ctx.source!;
+    const stems = separateHarmonicPercussive(source);
+    await writeStem(ctx, "harmonic", stems.harmonic);
+    await writeStem(ctx, "percussive", stems.percussive);
+
+    // Keep some of the source's drums at gentler intensities; the two stems
+    // sum back to the source. Drums stretched off their own tempo smear and
+    // fight the new ones, so the further the stretch the less is kept.
+    const stretch = Math.abs((ctx.metadata.stretchRatio ?? 1) - 1);
+    const keep = (1 - ctx.profile.percussionReduction) * Math.max(0, 1 - stretch / MAX_PERCUSSION_STRETCH);
+    source.channels.forEach((channel, c) => {
+      const harmonic = stems.harmonic.channels[c];
+      const percussive = stems.percussive.channels[c];
+      for (let i = 0; i < channel.length; i++) channel[i] = harmonic[i] + percussive[i] * keep;
+    });
+
+    // Lift the vocal out so it can be processed on its own and mixed back.
+    const vocal = extractVocals(stems.harmonic);
+    for (const channel of source.channels) {
+      for (let i = 0; i < channel.length; i++) channel[i] -= vocal[i];
+    }
+    ctx.vocal = vocal;
+  },
+
+  stretch(ctx) {
+    const ratio = ctx.metadata.stretchRatio ?? 1;
+    const semitones = ctx.conversion.transposeSemitones;
+    if (ratio === 1 && semitones === 0) return;
+    // Everything timed against the source moves with it, and the 808
+    // follows the transposed key.
+    const stretch = 1 / ratio;
+    const source = ctx.source!;
+    ctx.source = transpose(source, semitones, stretch);
+    ctx.vocal = transpose({ sampleRate: source.sampleRate, channels: [ctx.vocal!] }, semitones, stretch).channels[0];
+    ctx.bpm = ctx.metadata.targetBpm;
+    ctx.beatOffset = Math.round(ctx.beatOffset! * stretch);
+    ctx.sections = ctx.sections!.map(section => ({
+      ...section,
+      start: section.start * stretch,
+      end: section.end * stretch,
+    }));
+    ctx.keys = ctx.keys!.map(key => ({
+      ...key,
+      start: key.start * stretch,
+      tonic: (((key.tonic + semitones) % 12) + 12) % 12,
+    }));
+  },
+
+  drums(ctx) {
+    const source = ctx.source!;
+    const length = pcmLength(source);
+    const { groove, swing } = ctx.conversion.params;
+    const pattern = {
+      groove: { ...grooveTemplates[groove], swing: swing ?? grooveTemplates[groove].swing },
+      hats: {
+        ...defaultDrillPattern.hats,
+        subdivision: ctx.profile.hatSubdivision,
+        rollChance: ctx.profile.hatRollChance,
+      },
+    };
+    // Each section's arrangement mutes voices and restyles the hats.
+    const sections = ctx.sections!;
+    const drumSections: DrumSection[] = sections.map(section => {
+      const arrangement = sectionArrangements[section.label];
+      return {
+        start: Math.round(section.start * source.sampleRate),
+        voices: arrangement.drums,
+        hats: {
+          ...pattern.hats,
+          subdivision: arrangement.hatSubdivision ?? pattern.hats.subdivision,
+          rollChance: Math.min(1, pattern.hats.rollChance * arrangement.rollScale),
+        },
+      };
+    });
+    const drums = renderDrums(length, source.sampleRate, ctx.bpm!, pattern, ctx.seed, ctx.beatOffset, drumSections);
+    ctx.drums = drums.mix;
+    ctx.kick = drums.kick;
+    const bassLine = arrangeBass({
+      length,
+      sampleRate: source.sampleRate,
+      bpm: ctx.bpm!,
+      offset: ctx.beatOffset!,
+      kickSteps: bassSteps(pattern.groove),
+      keys: ctx.keys!,
+      slideChance: ctx.profile.slideChance,
+      seed: ctx.seed + 3,
+    }, sections);
+    ctx.bass = render808(bassLine, length, source.sampleRate, ctx.profile.drive);
+
+    // The first section's pads and bells start with the first bar.
+    const boundaries = sections.map((section, index) =>
+      index === 0 ? ctx.beatOffset! : Math.round(section.start * source.sampleRate),
+    );
+    const settings = ctx.profile.atmosphere;
+    const atmosphere = renderAtmosphere({
+      length,
+      sampleRate: source.sampleRate,
+      bpm: ctx.bpm!,
+      boundaries,
+      keys: ctx.keys!,
+      seed: ctx.seed + 5,
+      settings,
+    });
+    ctx.atmosphere = atmosphere.audio;
+    ctx.metadata.atmosphere = {
+      ...settings,
+      progression: atmosphere.progression,
+      swells: atmosphere.swells.map(swell => Math.round((swell / source.sampleRate) * 1000) / 1000),
+    };
+  },
+
+  async effects(ctx) {
+    const { sampleRate } = ctx.source!;
+    // Darken the source so the drill layers own the top and bottom end.
+    applyFilters(ctx.source!, () => [
+      new Biquad("highpass", sampleRate, 90),
+      new Biquad("highshelf", sampleRate, 6000, Math.SQRT1_2, ctx.profile.sourceHighShelfDb),
+    ]);
+    const bassShelf = new Biquad("lowshelf", sampleRate, 80, Math.SQRT1_2, ctx.profile.bassLowShelfDb);
+    bassShelf.processBuffer(ctx.bass!);
+
+    // Intros open up and outros close down behind a filter sweep; the vocal
+    // stays clear of it.
+    for (const signal of [...ctx.source!.channels, ...ctx.atmosphere!.channels, ctx.drums!, ctx.bass!]) {
+      sweepSections(signal, sampleRate, ctx.sections!);
+    }
+
+    // Duck the source, atmosphere and 808 under the kick so the low end
+    // doesn't pile up.
+    const sidechain = { ...ctx.profile.sidechain, ...ctx.metadata.sidechain };
+    ctx.metadata.sidechain = sidechain;
+    const gain = sidechainGain(ctx.kick!, sampleRate, sidechain);
+    duck(ctx.source!.channels, gain);
+    duck(ctx.atmosphere!.channels, gain);
+    duck([ctx.bass!], gain);
+
+    ctx.processedVocal = processVocals(ctx.vocal!, sampleRate, ctx.profile.vocal, {
+      bpm: ctx.bpm!,
+      offset: ctx.beatOffset!,
+    });
+    await writeStem(ctx, "vocals", ctx.processedVocal);
+  },
+
+  mix(ctx) {
+    const source = ctx.source!;
+    const mix = createPcm(pcmLength(source), source.channels.length, source.sampleRate);
+    mixInto(mix, source, ctx.profile.sourceGain);
+    mixInto(mix, ctx.atmosphere!, ctx.profile.atmosphere.amount);
+    mixInto(mix, ctx.processedVocal!, ctx.profile.sourceGain);
+    mixInto(mix, { sampleRate: source.sampleRate, channels: [ctx.drums!] }, ctx.profile.drumGain);
+    mixInto(mix, { sampleRate: source.sampleRate, channels: [ctx.bass!] }, ctx.profile.bassGain);
+
+    normalizePeak(mix, 0);
+    for (const channel of mix.channels) {
+      for (let i = 0; i < channel.length; i++) channel[i] = softClip(channel[i], ctx.profile.drive);
+    }
+
+    const { input, output } = master(mix, { targetLufs: ctx.conversion.params.targetLufs, ceilingDbtp: TRUE_PEAK_CEILING });
+    const round = (value: number) => Math.round(value * 10) / 10;
+    ctx.metadata.loudness = {
+      input: { integrated: round(input.integrated), range: round(input.range), truePeak: round(input.truePeak) },
+      output: { integrated: round(output.integrated), range: round(output.range), truePeak: round(output.truePeak) },
+    };
+    ctx.mix = mix;
+  },
+
+  async encode(ctx) {
+    const { conversion, tags } = ctx;
+    await writeWavFile(ctx.outputPath, ctx.mix!, {
+      bitsPerSample: 32,
+      sampleFormat: "float",
+      // The source's own entries carry over; the render's title and software
+      // replace the source's.
+      info: {
+        ...ctx.sourceInfo,
+        ...masterInfo({
+          title: trackTitle(ctx),
+          artist: tags?.artist,
+          album: tags?.album,
+          comment: `drill conversion (${conversion.intensity} intensity)`,
+        }),
+      },
+    });
+    // Pre-render the default download so the player can start right away.
+    await exportVariant(ctx.outputPath, { format: "mp3" });
+  },
+};
+
+// Renders a conversion through every stage in order. Before each stage starts
+// the listener receives the progress reached so far and metadata naming the
+// stage. Aborting `signal` stops the render at the next stage boundary.
+export async function renderConversion(
+  conversion: Conversion,
+  onProgress: ProgressListener,
+  upload?: Buffer,
+  signal?: AbortSignal,
+): Promise<RenderResult> {
+  const ctx: RenderContext = {
+    conversion,
+    upload,
+    profile: resolveProfile(conversion.intensity, conversion.params),
+    seed: conversion.params.seed,
+    outputPath: masterPath(conversion.id),
+    metadata: { ...(conversion.metadata as ConversionMetadata | null) },
+  };
+
+  let progress = 0;
+  for (const stage of pipelineStages) {
+    ctx.metadata.stage = stage.id;
+    await onProgress(progress, { ...ctx.metadata });
+    // Yield between stages so pending messages and I/O get handled, a
+    // cancellation among them.
+    await new Promise(resolve => setImmediate(resolve));
+    signal?.throwIfAborted();
+    await stages[stage.id](ctx);
+    progress = stage.progress;
+  }
+
+  return { outputPath: ctx.outputPath, metadata: ctx.metadata };
+}
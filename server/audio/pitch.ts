@@ -0,0 +1,102 @@
+import { Stft } from "./stft";
+import { timeStretch } from "./stretch";
+import { resample } from "./resample";
+import { type PcmAudio } from "./types";
+
+// Pitch shifting without changing duration. The shift itself comes from the
+// time stretcher (`transpose`); voices can then have their spectral envelope
+// put back where it was, so a shifted voice keeps its character instead of
+// sounding smaller or larger.
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+// Width of the moving average that estimates the spectral envelope; wide
+// enough to bridge the harmonics of a voice.
+const ENVELOPE_HZ = 400;
+// Limit on the envelope correction either way, so bins the shift emptied or
+// filled don't get boosted into noise.
+const MAX_CORRECTION = 4;
+
+export interface PitchShiftOptions {
+  preserveFormants?: boolean;
+}
+
+// Moving average of `magnitude` over `radius` bins either side.
+function spectralEnvelope(magnitude: Float64Array, envelope: Float64Array, radius: number) {
+  const bins = magnitude.length;
+  let sum = 0;
+  let count = 0;
+  for (let k = 0; k < Math.min(radius, bins); k++) {
+    sum += magnitude[k];
+    count++;
+  }
+  for (let k = 0; k < bins; k++) {
+    if (k + radius < bins) {
+      sum += magnitude[k + radius];
+      count++;
+    }
+    if (k - radius - 1 >= 0) {
+      sum -= magnitude[k - radius - 1];
+      count--;
+    }
+    envelope[k] = sum / count;
+  }
+}
+
+// Reshapes each frame of `shifted` so its spectral envelope matches the same
+// frame of `original`.
+function restoreFormants(original: Float32Array, shifted: Float32Array, sampleRate: number): Float32Array {
+  const stft = new Stft(FRAME_SIZE, HOP_SIZE);
+  const { bins, frameSize } = stft;
+  const radius = Math.max(1, Math.round(ENVELOPE_HZ / 2 / (sampleRate / frameSize)));
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const shiftedRe = new Float64Array(frameSize);
+  const shiftedIm = new Float64Array(frameSize);
+  const magnitude = new Float64Array(bins);
+  const target = new Float64Array(bins);
+  const envelope = new Float64Array(bins);
+  const out = new Float32Array(shifted.length);
+
+  const frames = stft.frameCount(shifted.length);
+  for (let frame = 0; frame < frames; frame++) {
+    stft.analyze(original, frame, re, im);
+    for (let k = 0; k < bins; k++) magnitude[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+    spectralEnvelope(magnitude, target, radius);
+    stft.analyze(shifted, frame, shiftedRe, shiftedIm);
+    for (let k = 0; k < bins; k++) magnitude[k] = Math.sqrt(shiftedRe[k] * shiftedRe[k] + shiftedIm[k] * shiftedIm[k]);
+    spectralEnvelope(magnitude, envelope, radius);
+
+    for (let k = 0; k < frameSize; k++) {
+      const bin = k < bins ? k : frameSize - k;
+      const correction = envelope[bin] > 0
+        ? Math.min(MAX_CORRECTION, Math.max(1 / MAX_CORRECTION, target[bin] / envelope[bin]))
+        : 1;
+      shiftedRe[k] *= correction;
+      shiftedIm[k] *= correction;
+    }
+    stft.synthesize(shiftedRe, shiftedIm, frame, out);
+  }
+  return out;
+}
+
+// Shifts `signal` by `semitones`, returning a new signal of the same length.
+export function pitchShift(signal: Float32Array, sampleRate: number, semitones: number, options: PitchShiftOptions = {}): Float32Array {
+  if (semitones === 0) return signal.slice();
+  const shifted = transpose({ sampleRate, channels: [signal] }, semitones).channels[0];
+  return options.preserveFormants ? restoreFormants(signal, shifted, sampleRate) : shifted;
+}
+
+// Transposes a whole mix by `semitones` with the time stretcher: the audio is
+// stretched by the pitch ratio, then resampled back to its own length, which
+// raises or lowers every partial together and keeps transients intact.
+// `stretch` changes the duration in the same pass. The stretched signal is
+// read at a whole-number rate, so the pitch ratio is exact to within a
+// sample per second.
+export function transpose(audio: PcmAudio, semitones: number, stretch = 1): PcmAudio {
+  const { sampleRate } = audio;
+  const readRate = Math.round(sampleRate * Math.pow(2, semitones / 12));
+  if (readRate === sampleRate) return stretch === 1 ? audio : timeStretch(audio, stretch);
+  const stretched = timeStretch(audio, (stretch * readRate) / sampleRate);
+  return resample({ sampleRate: readRate, channels: stretched.channels }, sampleRate);
+}
@@ -0,0 +1,97 @@
+import { type ConversionParams, type Intensity, type SidechainSettings } from "@shared/schema";
+import { type VocalChainSettings } from "./vocals";
+import { type AtmosphereSettings } from "./atmosphere";
+
+// Hat density at which the hats move from 8ths to 16ths.
+const SIXTEENTH_HATS_DENSITY = 0.5;
+// Vocal low-pass cutoff with no darkness; full darkness takes it down by
+// this factor.
+const VOCAL_OPEN_HZ = 12000;
+const VOCAL_DARK_FACTOR = 0.375;
+// Darkness below this keeps the pitched double out of the vocal.
+const VOCAL_DOUBLE_THRESHOLD = 0.2;
+
+// Mix and processing amounts for each intensity level that the conversion
+// params don't cover. Gains are linear.
+export interface IntensityProfile {
+  sourceGain: number;
+  // How much of the source's own percussion to remove, 0-1.
+  percussionReduction: number;
+  drumGain: number;
+  sourceHighShelfDb: number;
+  bassLowShelfDb: number;
+  drive: number;
+  // Chance that an 808 note slides in from the previous one.
+  slideChance: number;
+  vocal: Pick<VocalChainSettings, "pitchSemitones" | "stutter">;
+  // Ducking of the source and 808 under the kick.
+  sidechain: SidechainSettings;
+  atmosphere: AtmosphereSettings;
+}
+
+export const intensityProfiles: Record<Intensity, IntensityProfile> = {
+  soft: {
+    sourceGain: 0.9,
+    percussionReduction: 0.5,
+    drumGain: 0.45,
+    sourceHighShelfDb: -1.5,
+    bassLowShelfDb: 2,
+    drive: 1.2,
+    slideChance: 0.15,
+    vocal: { pitchSemitones: -12, stutter: false },
+    sidechain: { attackMs: 5, releaseMs: 120, depthDb: 3 },
+    atmosphere: { amount: 0.12, bellDensity: 0.2, swellChance: 0.35 },
+  },
+  medium: {
+    sourceGain: 0.75,
+    percussionReduction: 0.75,
+    drumGain: 0.65,
+    sourceHighShelfDb: -3,
+    bassLowShelfDb: 4,
+    drive: 1.8,
+    slideChance: 0.3,
+    vocal: { pitchSemitones: -12, stutter: false },
+    sidechain: { attackMs: 3, releaseMs: 150, depthDb: 6 },
+    atmosphere: { amount: 0.18, bellDensity: 0.35, swellChance: 0.6 },
+  },
+  heavy: {
+    sourceGain: 0.6,
+    percussionReduction: 0.9,
+    drumGain: 0.8,
+    sourceHighShelfDb: -6,
+    bassLowShelfDb: 6,
+    drive: 2.6,
+    slideChance: 0.5,
+    vocal: { pitchSemitones: -12, stutter: true },
+    sidechain: { attackMs: 1, releaseMs: 180, depthDb: 10 },
+    atmosphere: { amount: 0.25, bellDensity: 0.5, swellChance: 1 },
+  },
+};
+
+// Everything a render needs: the intensity's profile with the params'
+// levels, hats and vocal darkness worked out.
+export interface RenderProfile extends Omit<IntensityProfile, "vocal"> {
+  bassGain: number;
+  hatSubdivision: 2 | 4;
+  // Chance that a beat of the hat groove becomes a roll.
+  hatRollChance: number;
+  vocal: VocalChainSettings;
+}
+
+export function resolveProfile(intensity: Intensity, params: ConversionParams): RenderProfile {
+  const profile = intensityProfiles[intensity];
+  const darkness = params.vocalDarkness;
+  return {
+    ...profile,
+    bassGain: params.bassLevel,
+    hatSubdivision: params.hatDensity >= SIXTEENTH_HATS_DENSITY ? 4 : 2,
+    hatRollChance: params.hatDensity / 2,
+    vocal: {
+      ...profile.vocal,
+      pitchMix: Math.max(0, darkness - VOCAL_DOUBLE_THRESHOLD) / (1 - VOCAL_DOUBLE_THRESHOLD) / 2,
+      lowpassHz: VOCAL_OPEN_HZ * Math.pow(VOCAL_DARK_FACTOR, darkness),
+      reverbMix: 0.1 + 0.2 * darkness,
+      saturation: 1 + 1.2 * darkness,
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { createPcm, pcmLength, type PcmAudio } from "./types";
+import { besselI0 } from "./dsp";
+
+// Band-limited sample rate conversion with a Kaiser-windowed sinc kernel.
+// The kernel is tabulated once per conversion and linearly interpolated
+// between phases.
+
+const ZERO_CROSSINGS = 16;
+const PHASES = 512;
+const KAISER_BETA = 8;
+// Passband edge as a fraction of the lower Nyquist frequency.
+const ROLLOFF = 0.95;
+
+// Kernel values at t = i / PHASES source samples from the centre, already
+// scaled by the cutoff so the passband gain is one.
+function buildKernel(cutoff: number, halfWidth: number): Float64Array {
+  const size = Math.ceil(halfWidth * PHASES) + 2;
+  const kernel = new Float64Array(size);
+  const norm = besselI0(KAISER_BETA);
+  for (let i = 0; i < size; i++) {
+    const t = i / PHASES;
+    if (t >= halfWidth) break;
+    const x = Math.PI * cutoff * t;
+    const sinc = x === 0 ? 1 : Math.sin(x) / x;
+    const r = t / halfWidth;
+    kernel[i] = cutoff * sinc * (besselI0(KAISER_BETA * Math.sqrt(1 - r * r)) / norm);
+  }
+  return kernel;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+// Precomputed filter taps for each output phase when the rate ratio reduces
+// to at most this many phases.
+const MAX_PHASES = 4096;
+
+export function resample(audio: PcmAudio, targetRate: number): PcmAudio {
+  if (audio.sampleRate === targetRate) return audio;
+
+  const ratio = targetRate / audio.sampleRate;
+  const cutoff = Math.min(1, ratio) * ROLLOFF;
+  const halfWidth = ZERO_CROSSINGS / cutoff;
+  const kernel = buildKernel(cutoff, halfWidth);
+  const taps = 2 * Math.ceil(halfWidth) + 1;
+  const tap = (distance: number) => {
+    const t = Math.abs(distance) * PHASES;
+    const index = Math.floor(t);
+    if (index + 1 >= kernel.length) return 0;
+    return kernel[index] + (kernel[index + 1] - kernel[index]) * (t - index);
+  };
+
+  // Output sample n sits at source position n * step / phases.
+  const divisor = gcd(audio.sampleRate, targetRate);
+  const phases = targetRate / divisor;
+  const step = audio.sampleRate / divisor;
+  const table = phases <= MAX_PHASES ? new Float64Array(phases * taps) : null;
+  if (table) {
+    for (let phase = 0; phase < phases; phase++) {
+      const fraction = phase / phases;
+      for (let k = 0; k < taps; k++) table[phase * taps + k] = tap(fraction - (k - (taps >> 1)));
+    }
+  }
+
+  const inputLength = pcmLength(audio);
+  const outputLength = Math.round(inputLength * ratio);
+  const out = createPcm(outputLength, audio.channels.length, targetRate);
+
+  audio.channels.forEach((input, c) => {
+    const output = out.channels[c];
+    for (let n = 0; n < outputLength; n++) {
+      const whole = Math.floor((n * step) / phases);
+      const phase = (n * step) % phases;
+      const first = whole - (taps >> 1);
+      let sum = 0;
+      for (let k = Math.max(0, -first); k < taps && first + k < inputLength; k++) {
+        const weight = table ? table[phase * taps + k] : tap(phase / phases - (k - (taps >> 1)));
+        sum += input[first + k] * weight;
+      }
+      output[n] = sum;
+    }
+  });
+
+  return out;
+}
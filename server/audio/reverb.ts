@@ -0,0 +1,129 @@
+import { createPcm, type PcmAudio } from "./types";
+
+// Plate reverb after Dattorro, "Effect Design Part 1" (JAES 1997): four
+// input diffusers feed a figure-eight tank of two cross-coupled branches,
+// and the stereo output is tapped from several points inside the tank. The
+// tank's modulated allpasses are left static. Delay lengths are the paper's,
+// given at its 29.761 kHz rate and scaled to the render rate.
+
+const REFERENCE_RATE = 29761;
+const INPUT_DIFFUSERS: [number, number][] = [
+  [142, 0.75],
+  [107, 0.75],
+  [379, 0.625],
+  [277, 0.625],
+];
+const DECAY_DIFFUSION_1 = 0.7;
+const DECAY_DIFFUSION_2 = 0.5;
+
+export interface PlateOptions {
+  // Tank feedback, 0-1; around 0.5 is a medium plate.
+  decay: number;
+  // High frequency loss in the tank, 0-1.
+  damping: number;
+  preDelaySeconds: number;
+}
+
+class DelayLine {
+  private readonly buffer: Float32Array;
+  private index = 0;
+
+  constructor(readonly length: number) {
+    this.buffer = new Float32Array(Math.max(1, length));
+  }
+
+  // The sample written `length` samples ago.
+  read(): number {
+    return this.buffer[this.index];
+  }
+
+  // The sample written `delay` samples ago, for delay in 1..length.
+  tap(delay: number): number {
+    return this.buffer[(this.index - delay + this.buffer.length) % this.buffer.length];
+  }
+
+  write(value: number) {
+    this.buffer[this.index] = value;
+    this.index = (this.index + 1) % this.buffer.length;
+  }
+}
+
+class Allpass extends DelayLine {
+  constructor(length: number, private readonly gain: number) {
+    super(length);
+  }
+
+  process(input: number): number {
+    const delayed = this.read();
+    const v = input - this.gain * delayed;
+    this.write(v);
+    return delayed + this.gain * v;
+  }
+}
+
+// One half of the tank: allpass, delay, damping, allpass, delay.
+class TankBranch {
+  readonly allpass1: Allpass;
+  readonly delay1: DelayLine;
+  readonly allpass2: Allpass;
+  readonly delay2: DelayLine;
+  private damped = 0;
+
+  constructor(lengths: [number, number, number, number], private readonly decay: number, private readonly damping: number) {
+    this.allpass1 = new Allpass(lengths[0], -DECAY_DIFFUSION_1);
+    this.delay1 = new DelayLine(lengths[1]);
+    this.allpass2 = new Allpass(lengths[2], DECAY_DIFFUSION_2);
+    this.delay2 = new DelayLine(lengths[3]);
+  }
+
+  // The branch's tail, to be fed to the other branch.
+  output(): number {
+    return this.delay2.read() * this.decay;
+  }
+
+  process(input: number) {
+    this.delay1.write(this.allpass1.process(input));
+    this.damped += (1 - this.damping) * (this.delay1.read() - this.damped);
+    this.delay2.write(this.allpass2.process(this.damped * this.decay));
+  }
+}
+
+// Runs `input` through the plate and returns a wet-only stereo signal.
+export function plateReverb(input: Float32Array, sampleRate: number, options: PlateOptions): PcmAudio {
+  const scale = (length: number) => Math.max(1, Math.round((length * sampleRate) / REFERENCE_RATE));
+  const preDelay = new DelayLine(Math.max(1, Math.round(options.preDelaySeconds * sampleRate)));
+  const diffusers = INPUT_DIFFUSERS.map(([length, gain]) => new Allpass(scale(length), gain));
+  const { decay, damping } = options;
+  const left = new TankBranch([scale(672), scale(4453), scale(1800), scale(3720)], decay, damping);
+  const right = new TankBranch([scale(908), scale(4217), scale(2656), scale(3163)], decay, damping);
+  const leftTaps = [266, 2974, 1913, 1996, 1990, 187, 1066].map(scale);
+  const rightTaps = [353, 3627, 1228, 2673, 2111, 335, 121].map(scale);
+
+  const out = createPcm(input.length, 2, sampleRate);
+  const [outLeft, outRight] = out.channels;
+  let bandwidth = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    preDelay.write(input[i]);
+    bandwidth += 0.9995 * (preDelay.read() - bandwidth);
+    let diffused = bandwidth;
+    for (const diffuser of diffusers) diffused = diffuser.process(diffused);
+
+    // Each branch takes the diffused input plus the other branch's tail.
+    const fromLeft = left.output();
+    left.process(diffused + right.output());
+    right.process(diffused + fromLeft);
+
+    outLeft[i] = 0.6 * (
+      right.delay1.tap(leftTaps[0]) + right.delay1.tap(leftTaps[1]) - right.allpass2.tap(leftTaps[2]) +
+      right.delay2.tap(leftTaps[3]) - left.delay1.tap(leftTaps[4]) - left.allpass2.tap(leftTaps[5]) -
+      left.delay2.tap(leftTaps[6])
+    );
+    outRight[i] = 0.6 * (
+      left.delay1.tap(rightTaps[0]) + left.delay1.tap(rightTaps[1]) - left.allpass2.tap(rightTaps[2]) +
+      left.delay2.tap(rightTaps[3]) - right.delay1.tap(rightTaps[4]) - right.allpass2.tap(rightTaps[5]) -
+      right.delay2.tap(rightTaps[6])
+    );
+  }
+  return out;
+}
@@ -0,0 +1,37 @@
+import { type SidechainSettings } from "@shared/schema";
+import { dbToGain } from "./dsp";
+
+// Sidechain ducking: an envelope follower on the key signal (the generated
+// kick) turns other layers down while it plays, so the kick punches through
+// the 808 and the source instead of summing with them.
+
+// Gain curve for `key`: 1 where it is silent, down to -depthDb where its
+// envelope peaks. The envelope is scaled to its own peak so the depth means
+// the same thing whatever level the kick was rendered at.
+export function sidechainGain(key: Float32Array, sampleRate: number, settings: SidechainSettings): Float32Array {
+  const attack = Math.exp(-1 / ((settings.attackMs / 1000) * sampleRate));
+  const release = Math.exp(-1 / ((settings.releaseMs / 1000) * sampleRate));
+  const envelope = new Float32Array(key.length);
+  let level = 0;
+  let peak = 0;
+  for (let i = 0; i < key.length; i++) {
+    const input = Math.abs(key[i]);
+    const coefficient = input > level ? attack : release;
+    level = coefficient * level + (1 - coefficient) * input;
+    envelope[i] = level;
+    if (level > peak) peak = level;
+  }
+
+  const gain = new Float32Array(key.length);
+  for (let i = 0; i < key.length; i++) {
+    gain[i] = peak > 0 ? dbToGain((-settings.depthDb * envelope[i]) / peak) : 1;
+  }
+  return gain;
+}
+
+// Multiplies every channel by `gain` in place.
+export function duck(channels: Float32Array[], gain: Float32Array) {
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) channel[i] *= gain[i];
+  }
+}
@@ -0,0 +1,59 @@
+import { FFT } from "./fft";
+
+// Short-time Fourier transform with a periodic square root Hann window on
+// both analysis and synthesis, so frames resynthesized unchanged overlap-add
+// back to the input exactly for any hop that divides half the frame size.
+// Frames start before the signal so every sample is covered by a full set of
+// overlapping frames; samples outside the signal read as silence.
+export class Stft {
+  readonly bins: number;
+  private readonly fft: FFT;
+  private readonly window: Float64Array;
+  private readonly gain: number;
+
+  constructor(readonly frameSize: number, readonly hop: number) {
+    if ((frameSize / 2) % hop !== 0) throw new Error(`STFT hop ${hop} must divide half the frame size ${frameSize}`);
+    this.bins = frameSize / 2 + 1;
+    this.fft = new FFT(frameSize);
+    this.window = new Float64Array(frameSize);
+    for (let i = 0; i < frameSize; i++) this.window[i] = Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize));
+    // Overlapping squared windows sum to frameSize / (2 * hop); undo that
+    // and the unscaled inverse FFT together.
+    this.gain = (2 * hop) / frameSize / frameSize;
+  }
+
+  frameCount(length: number): number {
+    return Math.ceil((length + this.frameSize - this.hop) / this.hop);
+  }
+
+  frameStart(frame: number): number {
+    return frame * this.hop - (this.frameSize - this.hop);
+  }
+
+  // Spectrum of `frame` of `signal` into `re`/`im`, both frameSize long.
+  analyze(signal: Float32Array, frame: number, re: Float64Array, im: Float64Array) {
+    this.analyzeAt(signal, this.frameStart(frame), re, im);
+  }
+
+  // Spectrum of the frame starting at sample `start`, which needn't fall on
+  // the hop grid.
+  analyzeAt(signal: Float32Array, start: number, re: Float64Array, im: Float64Array) {
+    for (let i = 0; i < this.frameSize; i++) {
+      const index = start + i;
+      re[i] = index >= 0 && index < signal.length ? signal[index] * this.window[i] : 0;
+      im[i] = 0;
+    }
+    this.fft.forward(re, im);
+  }
+
+  // Inverse transforms a full, conjugate symmetric spectrum and adds it into
+  // `out` at `frame`'s position. Overwrites `re` and `im`.
+  synthesize(re: Float64Array, im: Float64Array, frame: number, out: Float32Array) {
+    this.fft.inverse(re, im);
+    const start = this.frameStart(frame);
+    for (let i = 0; i < this.frameSize; i++) {
+      const index = start + i;
+      if (index >= 0 && index < out.length) out[index] += re[i] * this.window[i] * this.gain;
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { Stft } from "./stft";
+import { wrapPhase } from "./dsp";
+import { createPcm, pcmLength, type PcmAudio } from "./types";
+
+// Phase vocoder time stretching. Output frames sit on a fixed hop and each
+// reads the input at the matching, scaled position; phases are advanced at
+// each spectral peak's measured frequency and the bins around a peak keep
+// their phase relative to it (identity phase locking, Laroche and Dolson
+// 1999), which avoids most of the vocoder's smear. Frames where a transient
+// starts take the input phases unchanged so attacks stay sharp. Every
+// channel shares the phase changes worked out on the mid signal, keeping the
+// stereo image intact.
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+// A frame starts a transient when its energy above TRANSIENT_HZ jumps by
+// this factor over the previous frame and makes up at least
+// TRANSIENT_SHARE of the frame, so leakage around tones doesn't count.
+const TRANSIENT_HZ = 2000;
+const TRANSIENT_RATIO = 4;
+const TRANSIENT_SHARE = 0.01;
+
+// Stretches `audio` to `stretch` times its length without changing pitch.
+export function timeStretch(audio: PcmAudio, stretch: number): PcmAudio {
+  const inputLength = pcmLength(audio);
+  const output = createPcm(Math.round(inputLength * stretch), audio.channels.length, audio.sampleRate);
+  const stft = new Stft(FRAME_SIZE, HOP_SIZE);
+  const { bins, frameSize, hop } = stft;
+  const transientBin = Math.ceil((TRANSIENT_HZ * frameSize) / audio.sampleRate);
+
+  const re = audio.channels.map(() => new Float64Array(frameSize));
+  const im = audio.channels.map(() => new Float64Array(frameSize));
+  const magnitude = new Float64Array(bins);
+  const phase = new Float64Array(bins);
+  const previousPhase = new Float64Array(bins);
+  const synthesisPhase = new Float64Array(bins);
+  const rotation = new Float64Array(bins);
+  const peaks = new Int32Array(bins);
+  let previousStart: number | null = null;
+  let previousEnergy = 0;
+  let previousReset = false;
+
+  const frames = stft.frameCount(pcmLength(output));
+  for (let frame = 0; frame < frames; frame++) {
+    // Input frame whose centre maps onto this output frame's centre.
+    const start = Math.round((stft.frameStart(frame) + frameSize / 2) / stretch - frameSize / 2);
+    audio.channels.forEach((channel, c) => stft.analyzeAt(channel, start, re[c], im[c]));
+
+    let energy = 0;
+    let total = 0;
+    for (let k = 0; k < bins; k++) {
+      let midRe = 0;
+      let midIm = 0;
+      for (let c = 0; c < re.length; c++) {
+        midRe += re[c][k];
+        midIm += im[c][k];
+      }
+      magnitude[k] = Math.sqrt(midRe * midRe + midIm * midIm);
+      phase[k] = Math.atan2(midIm, midRe);
+      total += magnitude[k] * magnitude[k];
+      if (k >= transientBin) energy += magnitude[k] * magnitude[k];
+    }
+
+    const analysisHop = previousStart === null ? 0 : start - previousStart;
+    const transient = energy > TRANSIENT_RATIO * previousEnergy && energy > TRANSIENT_SHARE * total;
+    const reset: boolean = analysisHop <= 0 || (!previousReset && transient);
+    if (reset) {
+      synthesisPhase.set(phase);
+      rotation.fill(0);
+    } else {
+      let peakCount = 0;
+      for (let k = 1; k < bins - 1; k++) {
+        if (magnitude[k] > magnitude[k - 1] && magnitude[k] >= magnitude[k + 1]) peaks[peakCount++] = k;
+      }
+      for (let i = 0; i < peakCount; i++) {
+        const peak = peaks[i];
+        const expected = (2 * Math.PI * peak * analysisHop) / frameSize;
+        // Radians per sample at the peak's true frequency.
+        const frequency = (expected + wrapPhase(phase[peak] - previousPhase[peak] - expected)) / analysisHop;
+        rotation[peak] = wrapPhase(synthesisPhase[peak] + frequency * hop - phase[peak]);
+      }
+      // Every other bin turns with its nearest peak.
+      let nearest = 0;
+      for (let k = 0; k < bins; k++) {
+        if (peakCount === 0) {
+          rotation[k] = 0;
+          continue;
+        }
+        while (nearest + 1 < peakCount && Math.abs(peaks[nearest + 1] - k) < Math.abs(peaks[nearest] - k)) nearest++;
+        rotation[k] = rotation[peaks[nearest]];
+      }
+      for (let k = 0; k < bins; k++) synthesisPhase[k] = wrapPhase(phase[k] + rotation[k]);
+    }
+    previousPhase.set(phase);
+    previousStart = start;
+    previousEnergy = energy;
+    previousReset = reset;
+
+    // DC and Nyquist must stay real, so they keep their input phase.
+    rotation[0] = 0;
+    rotation[bins - 1] = 0;
+    output.channels.forEach((channel, c) => {
+      const channelRe = re[c];
+      const channelIm = im[c];
+      for (let k = 0; k < bins; k++) {
+        const cos = Math.cos(rotation[k]);
+        const sin = Math.sin(rotation[k]);
+        const real = channelRe[k] * cos - channelIm[k] * sin;
+        channelIm[k] = channelRe[k] * sin + channelIm[k] * cos;
+        channelRe[k] = real;
+      }
+      for (let k = 1; k < bins - 1; k++) {
+        channelRe[frameSize - k] = channelRe[k];
+        channelIm[frameSize - k] = -channelIm[k];
+      }
+      stft.synthesize(channelRe, channelIm, frame, channel);
+    });
+  }
+  return output;
+}
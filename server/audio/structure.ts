@@ -0,0 +1,234 @@
+import { type SectionLabel, type SongSection } from "@shared/schema";
+import { Stft } from "./stft";
+import { pcmDuration, pcmLength, type PcmAudio } from "./types";
+
+// Song structure from a bar-level self-similarity matrix (Foote 2000): each
+// bar is described by its chroma and the balance of its energy across a few
+// bands, a Gaussian-tapered checkerboard kernel slid along the matrix's
+// diagonal scores how much the music changes at every bar line, and the
+// strongest changes become section boundaries. Sections that sound alike
+// are grouped; the loudest group is the hook, and quiet first and last
+// sections are the intro and outro.
+
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 2048;
+const CHROMA_MIN_HZ = 80;
+const CHROMA_MAX_HZ = 5000;
+// Edges of the energy bands: sub, low mids, presence, air.
+const BAND_EDGES_HZ = [150, 1000, 5000];
+// Weight of the energy balance against chroma in the bar descriptors, and
+// the change in a band's level that counts as much as a change of chord.
+const TIMBRE_WEIGHT = 1;
+const BAND_SCALE_DB = 6;
+// Half width of the checkerboard kernel.
+const KERNEL_BARS = 4;
+const MIN_SECTION_BARS = 4;
+// Changes on four-bar phrase lines are favoured by this much.
+const PHRASE_BARS = 4;
+const PHRASE_BONUS = 0.2;
+// A change has to score at least MIN_NOVELTY, and more than any bar within
+// PEAK_RADIUS_BARS, to start a section; a track that loops one idea
+// throughout stays a single section.
+const MIN_NOVELTY = 0.04;
+const PEAK_RADIUS_BARS = 2;
+// Sections whose mean descriptors are at least this similar are the same
+// part of the song.
+const SAME_PART_SIMILARITY = 0.9;
+// First and last sections quieter than this share of the mean are the intro
+// and outro.
+const QUIET_EDGE = 0.8;
+
+interface Bars {
+  // Seconds where each bar starts; the first always starts at 0.
+  starts: number[];
+  // Unit length descriptor of each bar.
+  descriptors: Float64Array[];
+  // RMS level of each bar.
+  levels: number[];
+}
+
+function normalize(vector: Float64Array): Float64Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Chroma and band energies summed over the frames centred in each bar.
+function describeBars(audio: PcmAudio, bpm: number, offsetSeconds: number): Bars {
+  const { sampleRate } = audio;
+  const length = pcmLength(audio);
+  const mono = new Float32Array(length);
+  for (const channel of audio.channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / audio.channels.length;
+  }
+
+  const barSeconds = (4 * 60) / bpm;
+  // Bars line up with the beat at `offsetSeconds`; a pickup shorter than a
+  // bar is folded into the first.
+  const firstStart = ((offsetSeconds % barSeconds) + barSeconds) % barSeconds;
+  const barCount = Math.max(1, Math.ceil((pcmDuration(audio) - firstStart) / barSeconds));
+  const chroma = Array.from({ length: barCount }, () => new Float64Array(12));
+  const bands = Array.from({ length: barCount }, () => new Float64Array(BAND_EDGES_HZ.length + 1));
+  const power = new Float64Array(barCount);
+  const frameCounts = new Float64Array(barCount);
+
+  const stft = new Stft(FRAME_SIZE, HOP_SIZE);
+  const binHz = sampleRate / FRAME_SIZE;
+  const pitchClass = new Int32Array(stft.bins).fill(-1);
+  const band = new Int32Array(stft.bins);
+  for (let k = 1; k < stft.bins; k++) {
+    const frequency = k * binHz;
+    if (frequency >= CHROMA_MIN_HZ && frequency <= CHROMA_MAX_HZ) {
+      pitchClass[k] = (((Math.round(69 + 12 * Math.log2(frequency / 440)) % 12) + 12) % 12);
+    }
+    while (band[k] < BAND_EDGES_HZ.length && frequency >= BAND_EDGES_HZ[band[k]]) band[k]++;
+  }
+
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  const frames = stft.frameCount(length);
+  for (let frame = 0; frame < frames; frame++) {
+    const centre = (stft.frameStart(frame) + FRAME_SIZE / 2) / sampleRate;
+    const bar = Math.max(0, Math.floor((centre - firstStart) / barSeconds));
+    if (centre < 0 || bar >= barCount) continue;
+    stft.analyze(mono, frame, re, im);
+    for (let k = 1; k < stft.bins; k++) {
+      const energy = re[k] * re[k] + im[k] * im[k];
+      if (pitchClass[k] >= 0) chroma[bar][pitchClass[k]] += Math.sqrt(energy);
+      bands[bar][band[k]] += energy;
+      power[bar] += energy;
+    }
+    frameCounts[bar]++;
+  }
+
+  // Band energies in dB around their mean over the track.
+  const logBands = bands.map((values, bar) =>
+    Array.from(values, value => 10 * Math.log10(value / Math.max(1, frameCounts[bar]) + 1e-12)),
+  );
+  const bandCount = BAND_EDGES_HZ.length + 1;
+  const descriptors = chroma.map(values => {
+    const descriptor = new Float64Array(12 + bandCount);
+    descriptor.set(normalize(values.slice()));
+    return descriptor;
+  });
+  for (let b = 0; b < bandCount; b++) {
+    const mean = logBands.reduce((sum, values) => sum + values[b], 0) / barCount;
+    descriptors.forEach((descriptor, bar) => {
+      descriptor[12 + b] = (TIMBRE_WEIGHT * (logBands[bar][b] - mean)) / BAND_SCALE_DB / Math.sqrt(bandCount);
+    });
+  }
+
+  return {
+    starts: Array.from({ length: barCount }, (_, bar) => (bar === 0 ? 0 : firstStart + bar * barSeconds)),
+    descriptors: descriptors.map(normalize),
+    levels: Array.from(power, (value, bar) => Math.sqrt(value / Math.max(1, frameCounts[bar]))),
+  };
+}
+
+// How much the music changes at the start of each bar.
+function novelty(similarity: number[][]): number[] {
+  const count = similarity.length;
+  const width = KERNEL_BARS / 2;
+  const scores: number[] = [];
+  for (let bar = 0; bar < count; bar++) {
+    let sum = 0;
+    let weights = 0;
+    for (let i = -KERNEL_BARS; i < KERNEL_BARS; i++) {
+      for (let j = -KERNEL_BARS; j < KERNEL_BARS; j++) {
+        const a = bar + i;
+        const b = bar + j;
+        if (a < 0 || b < 0 || a >= count || b >= count) continue;
+        const taper = Math.exp(-((i + 0.5) * (i + 0.5) + (j + 0.5) * (j + 0.5)) / (2 * width * width));
+        sum += ((i < 0) === (j < 0) ? 1 : -1) * taper * similarity[a][b];
+        weights += taper;
+      }
+    }
+    scores.push(weights > 0 ? sum / weights : 0);
+  }
+  return scores;
+}
+
+// Bars where sections start, the first always 0.
+function pickBoundaries(scores: number[]): number[] {
+  const count = scores.length;
+  const candidates: { bar: number; score: number }[] = [];
+  for (let bar = MIN_SECTION_BARS; bar <= count - MIN_SECTION_BARS; bar++) {
+    if (scores[bar] < MIN_NOVELTY) continue;
+    const neighbours = scores.slice(Math.max(0, bar - PEAK_RADIUS_BARS), bar + PEAK_RADIUS_BARS + 1);
+    if (scores[bar] < Math.max(...neighbours)) continue;
+    const bonus = bar % PHRASE_BARS === 0 ? 1 + PHRASE_BONUS : 1;
+    candidates.push({ bar, score: scores[bar] * bonus });
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const boundaries = [0];
+  for (const { bar } of candidates) {
+    if (boundaries.every(other => Math.abs(other - bar) >= MIN_SECTION_BARS) && count - bar >= MIN_SECTION_BARS) {
+      boundaries.push(bar);
+    }
+  }
+  return boundaries.sort((a, b) => a - b);
+}
+
+// Splits `audio` into labelled sections on the bar grid given by `bpm` and
+// the beat at `offsetSeconds`.
+export function segmentSections(audio: PcmAudio, bpm: number, offsetSeconds: number): SongSection[] {
+  const duration = pcmDuration(audio);
+  const { starts, descriptors, levels } = describeBars(audio, bpm, offsetSeconds);
+  const similarity = descriptors.map(a => descriptors.map(b => dot(a, b)));
+  const boundaries = pickBoundaries(novelty(similarity));
+
+  const spans = boundaries.map((bar, index) => {
+    const end = index + 1 < boundaries.length ? boundaries[index + 1] : starts.length;
+    const descriptor = new Float64Array(descriptors[0].length);
+    let level = 0;
+    for (let b = bar; b < end; b++) {
+      for (let i = 0; i < descriptor.length; i++) descriptor[i] += descriptors[b][i];
+      level += levels[b] / (end - bar);
+    }
+    return { bar, end, descriptor: normalize(descriptor), level };
+  });
+
+  // Group sections that sound alike, each against the group's first.
+  const groups: number[] = [];
+  const leaders: number[] = [];
+  spans.forEach((span, index) => {
+    const group = leaders.findIndex(leader => dot(spans[leader].descriptor, span.descriptor) >= SAME_PART_SIMILARITY);
+    if (group >= 0) {
+      groups.push(group);
+    } else {
+      groups.push(leaders.length);
+      leaders.push(index);
+    }
+  });
+
+  const meanLevel = levels.reduce((sum, level) => sum + level, 0) / levels.length;
+  const groupLevel = leaders.map((_, group) => {
+    const members = spans.filter((_, index) => groups[index] === group);
+    return members.reduce((sum, span) => sum + span.level, 0) / members.length;
+  });
+  // With a single part there is nothing to set a hook apart from.
+  const hook = leaders.length > 1 ? groupLevel.indexOf(Math.max(...groupLevel)) : -1;
+
+  return spans.map((span, index) => {
+    let label: SectionLabel = groups[index] === hook ? "hook" : "verse";
+    const quiet = span.level < QUIET_EDGE * meanLevel;
+    if (label !== "hook" && quiet && spans.length > 1) {
+      if (index === 0) label = "intro";
+      else if (index === spans.length - 1) label = "outro";
+    }
+    return {
+      start: Math.round(starts[span.bar] * 1000) / 1000,
+      end: Math.round((span.end < starts.length ? starts[span.end] : duration) * 1000) / 1000,
+      label,
+    };
+  });
+}
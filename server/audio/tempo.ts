@@ -0,0 +1,203 @@
+import { FFT } from "./fft";
+import { pcmLength, type PcmAudio } from "./types";
+
+// Tempo estimation from a spectral flux onset envelope. Candidate tempi are
+// scored by autocorrelating the envelope with a comb of lags, and only one
+// octave of tempi is considered: the one centred on typical drill tempo, so
+// a half-time source at 70 BPM comes out as 140.
+
+const FRAME_SIZE = 1024;
+// Onset envelope frames per second.
+const FRAME_RATE = 100;
+// Tempo octave candidates are folded into, centred on DRILL_CENTER_BPM.
+export const DRILL_TEMPO_RANGE = { min: 100, max: 200 };
+const DRILL_CENTER_BPM = 141;
+// Tempi a source is conformed to when no target is requested. Detected tempi
+// inside the band are kept; others are stretched to its nearer edge.
+const DRILL_TARGET_RANGE = { min: 138, max: 146 };
+// Width of the preference for tempi near the centre, in octaves.
+const TEMPO_PRIOR_WIDTH = 1;
+// Autocorrelation lags, as multiples of the beat period, and their weights.
+const COMB = [
+  { multiple: 1, weight: 1 },
+  { multiple: 2, weight: 0.75 },
+  { multiple: 3, weight: 0.5 },
+  { multiple: 4, weight: 0.5 },
+];
+// Shorter sources don't hold enough beats to measure.
+const MIN_DURATION_SECONDS = 4;
+
+export interface TempoEstimate {
+  bpm: number;
+  // How periodic the onset envelope is at the chosen tempo, 0-1.
+  confidence: number;
+  // Time of the first beat in seconds; beats then repeat every 60 / bpm.
+  offset: number;
+}
+
+// Positive spectral flux of the mono mix on log magnitudes, with the local
+// mean removed so sustained loudness changes don't register as onsets. The
+// compression is light so accented hits still outweigh the hats between
+// them; otherwise a busy 16th grid looks periodic at any multiple of a step.
+function onsetEnvelope(audio: PcmAudio, hop: number): Float64Array {
+  const length = pcmLength(audio);
+  const frames = Math.max(0, Math.floor((length - FRAME_SIZE) / hop) + 1);
+  const fft = new FFT(FRAME_SIZE);
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  const bins = FRAME_SIZE / 2;
+  let previous = new Float64Array(bins);
+  let current = new Float64Array(bins);
+  const flux = new Float64Array(frames);
+  const channels = audio.channels;
+
+  for (let frame = 0; frame < frames; frame++) {
+    const start = frame * hop;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      let sample = 0;
+      for (const channel of channels) sample += channel[start + i];
+      re[i] = (sample / channels.length) * window[i];
+      im[i] = 0;
+    }
+    fft.forward(re, im);
+    let sum = 0;
+    for (let k = 1; k < bins; k++) {
+      current[k] = Math.log(1 + Math.sqrt(re[k] * re[k] + im[k] * im[k]));
+      const rise = current[k] - previous[k];
+      if (rise > 0 && frame > 0) sum += rise;
+    }
+    flux[frame] = sum;
+    const swap = previous;
+    previous = current;
+    current = swap;
+  }
+
+  // Subtract a half second moving average and half-wave rectify.
+  const radius = Math.round(FRAME_RATE / 4);
+  const envelope = new Float64Array(frames);
+  let windowSum = 0;
+  let windowCount = 0;
+  for (let i = 0; i < Math.min(radius, frames); i++) {
+    windowSum += flux[i];
+    windowCount++;
+  }
+  for (let i = 0; i < frames; i++) {
+    if (i + radius < frames) {
+      windowSum += flux[i + radius];
+      windowCount++;
+    }
+    if (i - radius - 1 >= 0) {
+      windowSum -= flux[i - radius - 1];
+      windowCount--;
+    }
+    envelope[i] = Math.max(0, flux[i] - windowSum / windowCount);
+  }
+  return envelope;
+}
+
+function autocorrelation(envelope: Float64Array, maxLag: number): Float64Array {
+  const result = new Float64Array(maxLag + 2);
+  for (let lag = 0; lag < result.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    // Unbiased, so long lags aren't penalised for overlapping less.
+    result[lag] = sum / (envelope.length - lag);
+  }
+  return result;
+}
+
+function interpolate(values: Float64Array, position: number): number {
+  const index = Math.floor(position);
+  if (index + 1 >= values.length) return 0;
+  return values[index] + (values[index + 1] - values[index]) * (position - index);
+}
+
+// Periodicity at a beat period of `lag` frames, relative to the envelope's
+// energy.
+function combScore(acf: Float64Array, lag: number): number {
+  let score = 0;
+  let weights = 0;
+  for (const { multiple, weight } of COMB) {
+    score += weight * interpolate(acf, lag * multiple);
+    weights += weight;
+  }
+  return acf[0] > 0 ? score / weights / acf[0] : 0;
+}
+
+// The phase, in frames, of the beat grid with the given period that lands
+// on the most onset energy, and that energy averaged per beat.
+function alignGrid(envelope: Float64Array, period: number): { phase: number; energy: number } {
+  let best = { phase: 0, energy: -1 };
+  for (let phase = 0; phase < period; phase += 0.5) {
+    let energy = 0;
+    let beats = 0;
+    for (let position = phase; position < envelope.length - 1; position += period) {
+      energy += interpolate(envelope, position);
+      beats++;
+    }
+    if (beats > 0 && energy / beats > best.energy) best = { phase, energy: energy / beats };
+  }
+  return best;
+}
+
+function tempoPrior(bpm: number): number {
+  const octaves = Math.log2(bpm / DRILL_CENTER_BPM) / TEMPO_PRIOR_WIDTH;
+  return Math.exp(-0.5 * octaves * octaves);
+}
+
+// Folds a tempo by octaves into DRILL_TEMPO_RANGE.
+export function foldTempo(bpm: number): number {
+  let folded = bpm;
+  while (folded < DRILL_TEMPO_RANGE.min) folded *= 2;
+  while (folded >= DRILL_TEMPO_RANGE.max) folded /= 2;
+  return folded;
+}
+
+// Drill tempo to conform a source detected at `bpm` to.
+export function chooseTargetTempo(bpm: number): number {
+  return Math.min(Math.max(bpm, DRILL_TARGET_RANGE.min), DRILL_TARGET_RANGE.max);
+}
+
+// Estimates the tempo of `audio` within DRILL_TEMPO_RANGE and the phase of
+// its beat grid. Returns null when the audio is too short or has no onsets.
+export function estimateTempo(audio: PcmAudio): TempoEstimate | null {
+  const { sampleRate } = audio;
+  if (pcmLength(audio) < sampleRate * MIN_DURATION_SECONDS) return null;
+
+  const hop = sampleRate / FRAME_RATE;
+  const envelope = onsetEnvelope(audio, Math.round(hop));
+  const frameRate = sampleRate / Math.round(hop);
+  const slowestLag = (60 / DRILL_TEMPO_RANGE.min) * frameRate;
+  const acf = autocorrelation(envelope, Math.ceil(slowestLag * COMB[COMB.length - 1].multiple));
+  if (acf[0] <= 0) return null;
+
+  // The autocorrelation only resolves whole frames of lag, about 3 BPM at
+  // drill tempo, so refine the best candidate by aligning a beat grid with
+  // the whole envelope, which accumulates the error over every beat.
+  const score = (bpm: number) => combScore(acf, (60 / bpm) * frameRate) * tempoPrior(bpm);
+  let coarse = DRILL_TEMPO_RANGE.min;
+  for (let step = 0; step < (DRILL_TEMPO_RANGE.max - DRILL_TEMPO_RANGE.min) * 2; step++) {
+    const bpm = DRILL_TEMPO_RANGE.min + step / 2;
+    if (score(bpm) > score(coarse)) coarse = bpm;
+  }
+  let best = { bpm: coarse, phase: 0, energy: -1 };
+  for (let step = -100; step <= 100; step++) {
+    const bpm = coarse + step / 50;
+    const grid = alignGrid(envelope, (60 / bpm) * frameRate);
+    if (grid.energy > best.energy) best = { bpm, ...grid };
+  }
+  const bpm = Math.round(foldTempo(best.bpm) * 100) / 100;
+
+  // Flux at frame i measures the change centred on the frame's middle.
+  const interval = 60 / bpm;
+  const offset = ((best.phase / frameRate + FRAME_SIZE / 2 / sampleRate) % interval + interval) % interval;
+
+  return {
+    bpm,
+    confidence: Math.round(Math.max(0, Math.min(1, combScore(acf, interval * frameRate))) * 100) / 100,
+    offset: Math.round(offset * 1000) / 1000,
+  };
+}
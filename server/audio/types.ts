@@ -0,0 +1,89 @@
+// Planar floating point audio, one Float32Array per channel, nominally in
+// the range [-1, 1]. Every decoder produces it and every encoder consumes it.
+export interface PcmAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export function createPcm(length: number, channelCount: number, sampleRate: number): PcmAudio {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < channelCount; c++) {
+    channels.push(new Float32Array(length));
+  }
+  return { sampleRate, channels };
+}
+
+export function pcmLength(audio: PcmAudio): number {
+  return audio.channels.length > 0 ? audio.channels[0].length : 0;
+}
+
+export function pcmDuration(audio: PcmAudio): number {
+  return pcmLength(audio) / audio.sampleRate;
+}
+
+// Down- or up-mixes to the requested channel count. Mono sources are copied
+// to every output channel; wider sources are folded by averaging.
+export function toChannelCount(audio: PcmAudio, channelCount: number): PcmAudio {
+  const source = audio.channels;
+  if (source.length === channelCount) return audio;
+
+  const length = pcmLength(audio);
+  const out = createPcm(length, channelCount, audio.sampleRate);
+  if (source.length === 1) {
+    for (const channel of out.channels) channel.set(source[0]);
+    return out;
+  }
+
+  if (channelCount === 1) {
+    const mono = out.channels[0];
+    for (const channel of source) {
+      for (let i = 0; i < length; i++) mono[i] += channel[i] / source.length;
+    }
+    return out;
+  }
+
+  for (let c = 0; c < channelCount; c++) {
+    out.channels[c].set(source[c % source.length]);
+  }
+  return out;
+}
+
+// Adds `layer` into `target` starting at `offset` samples, scaled by `gain`.
+// Channels are matched modulo the layer's channel count.
+export function mixInto(target: PcmAudio, layer: PcmAudio, gain = 1, offset = 0) {
+  const length = pcmLength(target);
+  target.channels.forEach((out, c) => {
+    const input = layer.channels[c % layer.channels.length];
+    const end = Math.min(length, offset + input.length);
+    for (let i = Math.max(0, offset); i < end; i++) {
+      out[i] += input[i - offset] * gain;
+    }
+  });
+}
+
+// Descriptive tags carried from the source file through to the output.
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  comment?: string;
+}
+
+// Thrown for input that is well formed but uses a codec, profile or feature
+// the pipeline cannot decode. The message is shown to the user as the reason
+// the conversion failed.
+export class UnsupportedAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedAudioError";
+  }
+}
+
+// Thrown for a file that parses but holds no sample frames, such as a WAV
+// whose data chunk is empty. There is nothing to render from it.
+export class EmptyAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmptyAudioError";
+  }
+}
@@ -0,0 +1,140 @@
+import { Stft } from "./stft";
+import { Biquad } from "./dsp";
+import { pitchShift } from "./pitch";
+import { plateReverb } from "./reverb";
+import { createPcm, pcmLength, type PcmAudio } from "./types";
+
+// Lead vocals sit in the centre of a mix and in the voice band, so the
+// extractor keeps the part of the mid channel that dominates the side
+// channel within that band. It runs on the harmonic stem, where drums,
+// which are also centred, have mostly been removed already.
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+// Voice band with raised-cosine edges an octave wide.
+const BAND_LOW_HZ = 150;
+const BAND_HIGH_HZ = 7000;
+const STUTTER_FADE_SECONDS = 0.002;
+// Stutters repeat a 16th over the last beat of every four bars.
+const STUTTER_PHRASE_BEATS = 16;
+const TAPE_BIAS = 0.15;
+
+export interface VocalChainSettings {
+  // A formant-kept double shifted by this many semitones is blended under
+  // the vocal; whole octaves keep it in key.
+  pitchSemitones: number;
+  // Share of the shifted double, 0-1.
+  pitchMix: number;
+  lowpassHz: number;
+  // Wet share of the plate reverb, 0-1.
+  reverbMix: number;
+  // Tape saturation drive; 1 leaves the signal clean.
+  saturation: number;
+  stutter: boolean;
+}
+
+export interface VocalTiming {
+  bpm: number;
+  // Sample position of the first beat.
+  offset: number;
+}
+
+function bandWeight(frequency: number): number {
+  const rise = Math.log2(frequency / BAND_LOW_HZ) + 0.5;
+  const fall = Math.log2(BAND_HIGH_HZ / frequency) + 0.5;
+  const edge = Math.min(rise, fall);
+  if (edge <= 0) return 0;
+  if (edge >= 1) return 1;
+  return 0.5 - 0.5 * Math.cos(Math.PI * edge);
+}
+
+// Mono estimate of the centred vocal in a stereo signal. Subtracting it from
+// both channels leaves the rest of the mix.
+export function extractVocals(audio: PcmAudio): Float32Array {
+  const length = pcmLength(audio);
+  const [left, right = left] = audio.channels;
+  const stft = new Stft(FRAME_SIZE, HOP_SIZE);
+  const { bins, frameSize } = stft;
+  const band = new Float64Array(bins);
+  for (let k = 1; k < bins; k++) band[k] = bandWeight((k * audio.sampleRate) / frameSize);
+
+  const leftRe = new Float64Array(frameSize);
+  const leftIm = new Float64Array(frameSize);
+  const rightRe = new Float64Array(frameSize);
+  const rightIm = new Float64Array(frameSize);
+  const out = new Float32Array(length);
+  const frames = stft.frameCount(length);
+
+  for (let frame = 0; frame < frames; frame++) {
+    stft.analyze(left, frame, leftRe, leftIm);
+    stft.analyze(right, frame, rightRe, rightIm);
+    // Mid spectrum into the left buffers, masked bin by bin.
+    for (let k = 0; k < frameSize; k++) {
+      const bin = k < bins ? k : frameSize - k;
+      const midRe = (leftRe[k] + rightRe[k]) / 2;
+      const midIm = (leftIm[k] + rightIm[k]) / 2;
+      const sideRe = (leftRe[k] - rightRe[k]) / 2;
+      const sideIm = (leftIm[k] - rightIm[k]) / 2;
+      const mid = midRe * midRe + midIm * midIm;
+      const side = sideRe * sideRe + sideIm * sideIm;
+      // Bins that are no more centre than side get nothing.
+      const centre = mid + side > 0 ? mid / (mid + side) : 0;
+      const mask = Math.max(0, 2 * centre - 1) * band[bin];
+      leftRe[k] = midRe * mask;
+      leftIm[k] = midIm * mask;
+    }
+    stft.synthesize(leftRe, leftIm, frame, out);
+  }
+  return out;
+}
+
+// Tape-style saturation: a biased tanh curve adds even as well as odd
+// harmonics, and the bias is taken back out so the signal stays centred.
+function saturate(signal: Float32Array, drive: number) {
+  if (drive <= 1) return;
+  const rest = Math.tanh(drive * TAPE_BIAS);
+  const scale = 1 / Math.tanh(drive);
+  for (let i = 0; i < signal.length; i++) {
+    signal[i] = (Math.tanh(drive * (signal[i] + TAPE_BIAS)) - rest) * scale;
+  }
+}
+
+// Repeats the first 16th of the last beat of every phrase over that beat.
+function stutter(signal: Float32Array, sampleRate: number, timing: VocalTiming) {
+  const beat = (60 / timing.bpm) * sampleRate;
+  const slice = Math.round(beat / 4);
+  const fade = Math.max(1, Math.round(STUTTER_FADE_SECONDS * sampleRate));
+  const gate = (i: number) => Math.min(1, i / fade, (slice - i) / fade);
+
+  for (let phrase = 0; ; phrase++) {
+    const start = Math.round(timing.offset + (phrase * STUTTER_PHRASE_BEATS + STUTTER_PHRASE_BEATS - 1) * beat);
+    if (start + 4 * slice > signal.length) break;
+    const source = signal.slice(start, start + slice);
+    for (let repeat = 0; repeat < 4; repeat++) {
+      for (let i = 0; i < slice; i++) signal[start + repeat * slice + i] = source[i] * gate(i);
+    }
+  }
+}
+
+// Runs the extracted vocal through the dark vocal chain: a pitched double,
+// low pass, tape saturation, an optional stutter and a plate. Returns
+// stereo, with the dry vocal centred and the plate spread across both sides.
+export function processVocals(vocal: Float32Array, sampleRate: number, settings: VocalChainSettings, timing: VocalTiming): PcmAudio {
+  const dry = vocal.slice();
+  if (settings.pitchMix > 0) {
+    const double = pitchShift(vocal, sampleRate, settings.pitchSemitones, { preserveFormants: true });
+    for (let i = 0; i < dry.length; i++) dry[i] = dry[i] * (1 - settings.pitchMix) + double[i] * settings.pitchMix;
+  }
+  const lowpass = [new Biquad("lowpass", sampleRate, settings.lowpassHz), new Biquad("lowpass", sampleRate, settings.lowpassHz)];
+  for (const filter of lowpass) filter.processBuffer(dry);
+  saturate(dry, settings.saturation);
+  if (settings.stutter) stutter(dry, sampleRate, timing);
+
+  const wet = plateReverb(dry, sampleRate, { decay: 0.6, damping: 0.4, preDelaySeconds: 0.02 });
+  const out = createPcm(dry.length, 2, sampleRate);
+  out.channels.forEach((channel, c) => {
+    const plate = wet.channels[c];
+    for (let i = 0; i < dry.length; i++) channel[i] = dry[i] * (1 - settings.reverbMix) + plate[i] * settings.reverbMix;
+  });
+  return out;
+}
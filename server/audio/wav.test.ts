@@ -0,0 +1,161 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { encodeWav, parseWav, WavParser } from "./wav";
+
+// Fixtures are built byte by byte here rather than with WavWriter, so the
+// parser is checked against the layouts other software writes.
+
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+function chunk(id: string, data: Buffer, size = data.length): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, "ascii");
+  header.writeUInt32LE(size, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length & 1)]);
+}
+
+function riff(...chunks: Buffer[]): Buffer {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(4 + body.length, 4);
+  header.write("WAVE", 8, "ascii");
+  return Buffer.concat([header, body]);
+}
+
+function fmt(channels: number, sampleRate: number, bitsPerSample: number, tag = 1): Buffer {
+  const data = Buffer.alloc(16);
+  const blockAlign = (bitsPerSample / 8) * channels;
+  data.writeUInt16LE(tag, 0);
+  data.writeUInt16LE(channels, 2);
+  data.writeUInt32LE(sampleRate, 4);
+  data.writeUInt32LE(sampleRate * blockAlign, 8);
+  data.writeUInt16LE(blockAlign, 12);
+  data.writeUInt16LE(bitsPerSample, 14);
+  return chunk("fmt ", data);
+}
+
+function extensibleFmt(channels: number, sampleRate: number, bitsPerSample: number, tag: number, mask: number): Buffer {
+  const data = Buffer.alloc(40);
+  const blockAlign = (bitsPerSample / 8) * channels;
+  data.writeUInt16LE(0xfffe, 0);
+  data.writeUInt16LE(channels, 2);
+  data.writeUInt32LE(sampleRate, 4);
+  data.writeUInt32LE(sampleRate * blockAlign, 8);
+  data.writeUInt16LE(blockAlign, 12);
+  data.writeUInt16LE(bitsPerSample, 14);
+  data.writeUInt16LE(22, 16);
+  data.writeUInt16LE(bitsPerSample, 18);
+  data.writeUInt32LE(mask, 20);
+  data.writeUInt16LE(tag, 24);
+  Buffer.from(SUBFORMAT_GUID_TAIL).copy(data, 26);
+  return chunk("fmt ", data);
+}
+
+function int16(...samples: number[]): Buffer {
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => data.writeInt16LE(sample, i * 2));
+  return data;
+}
+
+test("reads 16-bit PCM", () => {
+  const wav = parseWav(riff(fmt(2, 44100, 16), chunk("data", int16(16384, -16384, 0, 32767))));
+  assert.deepEqual(wav.format, { sampleFormat: "pcm", bitsPerSample: 16, channels: 2, sampleRate: 44100, channelMask: undefined });
+  assert.deepEqual(Array.from(wav.audio.channels[0]), [0.5, 0]);
+  assert.deepEqual(Array.from(wav.audio.channels[1]), [-0.5, 32767 / 32768]);
+});
+
+test("reads WAVE_FORMAT_EXTENSIBLE with its subformat and channel mask", () => {
+  const data = Buffer.alloc(8);
+  data.writeIntLE(4194304, 0, 3);
+  data.writeIntLE(-8388608, 3, 3);
+  const wav = parseWav(riff(extensibleFmt(1, 48000, 24, 1, 0x4), chunk("data", data.subarray(0, 6))));
+  assert.equal(wav.format.sampleFormat, "pcm");
+  assert.equal(wav.format.bitsPerSample, 24);
+  assert.equal(wav.format.channelMask, 0x4);
+  assert.deepEqual(Array.from(wav.audio.channels[0]), [0.5, -1]);
+
+  const float = Buffer.alloc(8);
+  float.writeFloatLE(0.25, 0);
+  float.writeFloatLE(-0.75, 4);
+  const floatWav = parseWav(riff(extensibleFmt(2, 48000, 32, 3, 0x3), chunk("data", float)));
+  assert.equal(floatWav.format.sampleFormat, "float");
+  assert.deepEqual(Array.from(floatWav.audio.channels[1]), [-0.75]);
+});
+
+test("rejects an extensible subformat that isn't PCM or float", () => {
+  const fixture = riff(extensibleFmt(1, 48000, 16, 1, 0x4), chunk("data", int16(0)));
+  fixture[12 + 8 + 26] = 0xff;
+  assert.throws(() => parseWav(fixture), /subformat/);
+});
+
+test("skips the pad byte after odd-sized chunks", () => {
+  const odd = Buffer.from("abc", "ascii");
+  const wav = parseWav(riff(fmt(1, 8000, 8), chunk("junk", odd), chunk("data", Buffer.from([0xc0, 0x40, 0x80]))));
+  assert.deepEqual(wav.chunks, [{ id: "junk", data: odd }]);
+  // An odd 8-bit data chunk is padded too, and whatever follows still parses.
+  assert.deepEqual(Array.from(wav.audio.channels[0]), [0.5, -0.5, 0]);
+
+  const trailing = parseWav(riff(fmt(1, 8000, 8), chunk("data", Buffer.from([0xc0])), chunk("cue ", odd)));
+  assert.deepEqual(Array.from(trailing.audio.channels[0]), [0.5]);
+  assert.deepEqual(trailing.chunks, [{ id: "cue ", data: odd }]);
+});
+
+test("reads LIST/INFO entries and keeps other LIST chunks", () => {
+  const info = Buffer.concat([
+    Buffer.from("INFO", "ascii"),
+    chunk("INAM", Buffer.from("Night Ride\0", "utf8")),
+    chunk("IART", Buffer.from("Unknown T\0\0", "utf8")),
+  ]);
+  const adtl = Buffer.concat([Buffer.from("adtl", "ascii"), chunk("labl", Buffer.alloc(4))]);
+  const wav = parseWav(riff(fmt(1, 8000, 16), chunk("LIST", info), chunk("LIST", adtl), chunk("data", int16(0))));
+  assert.deepEqual(wav.info, { INAM: "Night Ride", IART: "Unknown T" });
+  assert.deepEqual(wav.chunks.map(other => other.id), ["LIST"]);
+  assert.equal(wav.chunks[0].data.toString("ascii", 0, 4), "adtl");
+});
+
+test("keeps the complete frames of a truncated data chunk", () => {
+  const full = riff(fmt(2, 44100, 16), chunk("data", int16(100, 200, 300, 400, 500, 600)));
+  // Cut into the third frame's right sample.
+  const wav = parseWav(full.subarray(0, full.length - 3));
+  assert.equal(wav.audio.channels[0].length, 2);
+  assert.equal(wav.audio.channels[1][1], 400 / 32768);
+});
+
+test("reads to the end of the file when the data size is 0xFFFFFFFF", () => {
+  const wav = parseWav(riff(fmt(1, 22050, 16), chunk("data", int16(1000, 2000, 3000), 0xffffffff)));
+  assert.deepEqual(Array.from(wav.audio.channels[0]), [1000 / 32768, 2000 / 32768, 3000 / 32768]);
+});
+
+test("parses the same file fed a byte at a time", () => {
+  const fixture = riff(
+    fmt(2, 44100, 16),
+    chunk("LIST", Buffer.concat([Buffer.from("INFO", "ascii"), chunk("ICMT", Buffer.from("x\0", "utf8"))])),
+    chunk("data", int16(1, 2, 3, 4, 5, 6)),
+  );
+  const parser = new WavParser();
+  const left: number[] = [];
+  for (let i = 0; i < fixture.length; i++) {
+    const frames = parser.write(fixture.subarray(i, i + 1));
+    if (frames.length > 0) left.push(...Array.from(frames[0]));
+  }
+  parser.end();
+  assert.deepEqual(left, [1, 3, 5].map(sample => sample / 32768));
+  assert.deepEqual(parser.info, { ICMT: "x" });
+});
+
+test("rejects files without a fmt chunk before the data", () => {
+  assert.throws(() => parseWav(riff(chunk("data", int16(0)))), /precedes fmt/);
+  assert.throws(() => parseWav(Buffer.from("RIFF\0\0\0\0AVI LIST", "ascii")), /Not a RIFF\/WAVE/);
+});
+
+test("round-trips what WavWriter writes", () => {
+  const channels = [new Float32Array([0, 0.5, -0.5]), new Float32Array([1, -1, 0.25])];
+  for (const options of [{ bitsPerSample: 16 as const }, { bitsPerSample: 24 as const }, { sampleFormat: "float" as const }]) {
+    const wav = parseWav(encodeWav({ sampleRate: 48000, channels }, { ...options, info: { INAM: "Loop" } }));
+    assert.equal(wav.info.INAM, "Loop");
+    wav.audio.channels.forEach((channel, c) =>
+      channel.forEach((sample, i) => assert.ok(Math.abs(sample - channels[c][i]) < 1e-4)),
+    );
+  }
+});
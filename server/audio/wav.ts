@@ -0,0 +1,433 @@
+import fs from "fs";
+import { createPcm, pcmLength, type PcmAudio } from "./types";
+
+// RIFF/WAVE reading and writing. This is the pipeline's canonical
+// intermediate format: every decoder produces PcmAudio and anything written
+// to disk between stages goes through here.
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Trailing 14 bytes of the KSDATAFORMAT_SUBTYPE_* GUIDs; the first two bytes
+// carry the plain format tag.
+const SUBFORMAT_GUID_TAIL = Buffer.from([
+  0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71,
+]);
+
+// Speaker masks used when writing WAVE_FORMAT_EXTENSIBLE for common layouts.
+const DEFAULT_CHANNEL_MASKS: Record<number, number> = {
+  1: 0x4,
+  2: 0x3,
+  3: 0x7,
+  4: 0x33,
+  5: 0x37,
+  6: 0x3f,
+  8: 0x63f,
+};
+
+export type WavSampleFormat = "pcm" | "float";
+
+export interface WavFormat {
+  sampleFormat: WavSampleFormat;
+  bitsPerSample: number;
+  channels: number;
+  sampleRate: number;
+  channelMask?: number;
+}
+
+// Raw chunk kept for passthrough, e.g. `bext` or `cue `.
+export interface WavChunk {
+  id: string;
+  data: Buffer;
+}
+
+// LIST/INFO entries keyed by their four character id (INAM, IART, ICMT...).
+export type WavInfo = Record<string, string>;
+
+export interface WavFile {
+  format: WavFormat;
+  audio: PcmAudio;
+  info: WavInfo;
+  chunks: WavChunk[];
+}
+
+export interface WavEncodeOptions {
+  bitsPerSample?: 16 | 24 | 32;
+  sampleFormat?: WavSampleFormat;
+  info?: WavInfo;
+  chunks?: WavChunk[];
+}
+
+export function isWav(buffer: Buffer): boolean {
+  return buffer.length >= 12 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WAVE";
+}
+
+type ParserState = "riff" | "chunkHeader" | "chunkBody" | "data" | "done";
+
+// Incremental RIFF/WAVE parser. Feed it arbitrary slices of the file with
+// `write`; each call returns the sample frames that became available, so a
+// file never has to be held in memory twice.
+export class WavParser {
+  format: WavFormat | null = null;
+  info: WavInfo = {};
+  chunks: WavChunk[] = [];
+
+  private state: ParserState = "riff";
+  private pending: Buffer = Buffer.alloc(0);
+  private chunkId = "";
+  private chunkSize = 0;
+  private dataRemaining = 0;
+  private dataPadded = false;
+
+  write(bytes: Buffer): Float32Array[] {
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, bytes]) : bytes;
+    const blocks: Float32Array[][] = [];
+
+    while (this.state !== "done") {
+      if (this.state === "riff") {
+        if (this.pending.length < 12) break;
+        if (!isWav(this.pending)) throw new Error("Not a RIFF/WAVE file");
+        this.consume(12);
+        this.state = "chunkHeader";
+      } else if (this.state === "chunkHeader") {
+        if (this.pending.length < 8) break;
+        this.chunkId = this.pending.toString("ascii", 0, 4);
+        this.chunkSize = this.pending.readUInt32LE(4);
+        this.consume(8);
+        if (this.chunkId === "data") {
+          if (!this.format) throw new Error("WAV data chunk precedes fmt chunk");
+          // Streamed writers leave the size as 0 or 0xFFFFFFFF; read to EOF.
+          const unknownSize = this.chunkSize === 0 || this.chunkSize === 0xffffffff;
+          this.dataRemaining = unknownSize ? Infinity : this.chunkSize;
+          this.dataPadded = !unknownSize && (this.chunkSize & 1) === 1;
+          this.state = "data";
+        } else {
+          this.state = "chunkBody";
+        }
+      } else if (this.state === "chunkBody") {
+        const padded = this.chunkSize + (this.chunkSize & 1);
+        if (this.pending.length < padded) break;
+        this.readChunk(this.chunkId, Buffer.from(this.pending.subarray(0, this.chunkSize)));
+        this.consume(padded);
+        this.state = "chunkHeader";
+      } else if (this.state === "data") {
+        const blockAlign = this.blockAlign();
+        const available = Math.min(this.pending.length, this.dataRemaining);
+        const frames = Math.floor(available / blockAlign);
+        if (frames > 0) {
+          blocks.push(this.readFrames(this.pending, frames));
+          this.consume(frames * blockAlign);
+          this.dataRemaining -= frames * blockAlign;
+        }
+        if (this.dataRemaining < blockAlign) {
+          // Drop a trailing partial frame along with the pad byte.
+          const skip = this.dataRemaining + (this.dataPadded ? 1 : 0);
+          if (this.pending.length < skip) break;
+          this.consume(skip);
+          this.dataRemaining = 0;
+          this.state = "chunkHeader";
+        } else {
+          break;
+        }
+      }
+    }
+
+    return concatBlocks(blocks, this.format?.channels ?? 0);
+  }
+
+  // Signals end of input. Truncated files keep whatever frames were complete.
+  end() {
+    if (!this.format) throw new Error("WAV file has no fmt chunk");
+    if (this.state === "riff") throw new Error("Not a RIFF/WAVE file");
+    this.state = "done";
+    this.pending = Buffer.alloc(0);
+  }
+
+  private consume(count: number) {
+    this.pending = this.pending.subarray(count);
+  }
+
+  private blockAlign(): number {
+    const format = this.format!;
+    return (format.bitsPerSample / 8) * format.channels;
+  }
+
+  private readChunk(id: string, data: Buffer) {
+    if (id === "fmt ") {
+      this.format = parseFormat(data);
+    } else if (id === "LIST" && data.toString("ascii", 0, 4) === "INFO") {
+      Object.assign(this.info, parseInfo(data.subarray(4)));
+    } else {
+      this.chunks.push({ id, data });
+    }
+  }
+
+  private readFrames(bytes: Buffer, frames: number): Float32Array[] {
+    const { channels, bitsPerSample, sampleFormat } = this.format!;
+    const out: Float32Array[] = [];
+    for (let c = 0; c < channels; c++) out.push(new Float32Array(frames));
+
+    const bytesPerSample = bitsPerSample / 8;
+    let offset = 0;
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < channels; c++) {
+        out[c][i] = readSample(bytes, offset, bitsPerSample, sampleFormat);
+        offset += bytesPerSample;
+      }
+    }
+    return out;
+  }
+}
+
+function parseFormat(data: Buffer): WavFormat {
+  if (data.length < 16) throw new Error("WAV fmt chunk is too short");
+
+  let tag = data.readUInt16LE(0);
+  const channels = data.readUInt16LE(2);
+  const sampleRate = data.readUInt32LE(4);
+  const bitsPerSample = data.readUInt16LE(14);
+  let channelMask: number | undefined;
+
+  if (tag === WAVE_FORMAT_EXTENSIBLE) {
+    if (data.length < 40) throw new Error("WAVE_FORMAT_EXTENSIBLE fmt chunk is too short");
+    channelMask = data.readUInt32LE(20);
+    if (!data.subarray(26, 40).equals(SUBFORMAT_GUID_TAIL)) {
+      throw new Error("Unsupported WAVE_FORMAT_EXTENSIBLE subformat");
+    }
+    tag = data.readUInt16LE(24);
+  }
+
+  let sampleFormat: WavSampleFormat;
+  if (tag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample)) {
+    sampleFormat = "pcm";
+  } else if (tag === WAVE_FORMAT_IEEE_FLOAT && (bitsPerSample === 32 || bitsPerSample === 64)) {
+    sampleFormat = "float";
+  } else {
+    throw new Error(`Unsupported WAV encoding (format ${tag}, ${bitsPerSample}-bit)`);
+  }
+
+  if (channels < 1) throw new Error("WAV file declares no channels");
+  return { sampleFormat, bitsPerSample, channels, sampleRate, channelMask };
+}
+
+function parseInfo(data: Buffer): WavInfo {
+  const info: WavInfo = {};
+  let offset = 0;
+  while (offset + 8 <= data.length) {
+    const id = data.toString("ascii", offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const end = Math.min(data.length, offset + 8 + size);
+    info[id] = data.toString("utf8", offset + 8, end).replace(/\0+$/, "");
+    offset = offset + 8 + size + (size & 1);
+  }
+  return info;
+}
+
+function readSample(bytes: Buffer, offset: number, bits: number, sampleFormat: WavSampleFormat): number {
+  if (sampleFormat === "float") {
+    return bits === 32 ? bytes.readFloatLE(offset) : bytes.readDoubleLE(offset);
+  }
+  switch (bits) {
+    case 8:
+      return (bytes[offset] - 128) / 128;
+    case 16:
+      return bytes.readInt16LE(offset) / 32768;
+    case 24:
+      return bytes.readIntLE(offset, 3) / 8388608;
+    default:
+      return bytes.readInt32LE(offset) / 2147483648;
+  }
+}
+
+function concatBlocks(blocks: Float32Array[][], channels: number): Float32Array[] {
+  if (blocks.length === 1) return blocks[0];
+  const length = blocks.reduce((total, block) => total + block[0].length, 0);
+  const out: Float32Array[] = [];
+  for (let c = 0; c < channels; c++) {
+    const channel = new Float32Array(length);
+    let offset = 0;
+    for (const block of blocks) {
+      channel.set(block[c], offset);
+      offset += block[c].length;
+    }
+    out.push(channel);
+  }
+  return out;
+}
+
+export function parseWav(buffer: Buffer): WavFile {
+  const parser = new WavParser();
+  const channels = parser.write(buffer);
+  parser.end();
+  return toWavFile(parser, [channels]);
+}
+
+export function decodeWav(buffer: Buffer): PcmAudio {
+  return parseWav(buffer).audio;
+}
+
+export async function readWavFile(filePath: string): Promise<WavFile> {
+  const parser = new WavParser();
+  const blocks: Float32Array[][] = [];
+  for await (const chunk of fs.createReadStream(filePath, { highWaterMark: 1 << 20 })) {
+    const frames = parser.write(chunk as Buffer);
+    if (frames.length > 0 && frames[0].length > 0) blocks.push(frames);
+  }
+  parser.end();
+  return toWavFile(parser, blocks);
+}
+
+function toWavFile(parser: WavParser, blocks: Float32Array[][]): WavFile {
+  const format = parser.format!;
+  const nonEmpty = blocks.filter(block => block.length > 0);
+  const channels = nonEmpty.length > 0
+    ? concatBlocks(nonEmpty, format.channels)
+    : createPcm(0, format.channels, format.sampleRate).channels;
+  return {
+    format,
+    audio: { sampleRate: format.sampleRate, channels },
+    info: parser.info,
+    chunks: parser.chunks,
+  };
+}
+
+// Builds RIFF headers and interleaved sample data for a known frame count.
+// Headers can be emitted before any samples exist, so callers can stream
+// frames to disk block by block.
+export class WavWriter {
+  readonly format: WavFormat;
+  private readonly info: WavInfo;
+  private readonly chunks: WavChunk[];
+
+  constructor(channels: number, sampleRate: number, options: WavEncodeOptions = {}) {
+    const sampleFormat = options.sampleFormat ?? "pcm";
+    const bitsPerSample = sampleFormat === "float" ? 32 : options.bitsPerSample ?? 16;
+    this.format = {
+      sampleFormat,
+      bitsPerSample,
+      channels,
+      sampleRate,
+      channelMask: DEFAULT_CHANNEL_MASKS[channels] ?? 0,
+    };
+    this.info = options.info ?? {};
+    this.chunks = options.chunks ?? [];
+  }
+
+  private get blockAlign(): number {
+    return (this.format.bitsPerSample / 8) * this.format.channels;
+  }
+
+  // Extensible headers are required for more than two channels or samples
+  // wider than 16 bits.
+  private get extensible(): boolean {
+    return this.format.channels > 2 || this.format.bitsPerSample > 16;
+  }
+
+  header(frames: number): Buffer {
+    const { channels, sampleRate, bitsPerSample, sampleFormat } = this.format;
+    const tag = sampleFormat === "float" ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+    const fmt = Buffer.alloc(this.extensible ? 40 : 16);
+    fmt.writeUInt16LE(this.extensible ? WAVE_FORMAT_EXTENSIBLE : tag, 0);
+    fmt.writeUInt16LE(channels, 2);
+    fmt.writeUInt32LE(sampleRate, 4);
+    fmt.writeUInt32LE(sampleRate * this.blockAlign, 8);
+    fmt.writeUInt16LE(this.blockAlign, 12);
+    fmt.writeUInt16LE(bitsPerSample, 14);
+    if (this.extensible) {
+      fmt.writeUInt16LE(22, 16);
+      fmt.writeUInt16LE(bitsPerSample, 18);
+      fmt.writeUInt32LE(this.format.channelMask ?? 0, 20);
+      fmt.writeUInt16LE(tag, 24);
+      SUBFORMAT_GUID_TAIL.copy(fmt, 26);
+    }
+
+    const parts = [chunk("fmt ", fmt)];
+    const infoEntries = Object.entries(this.info).filter(([id]) => id.length === 4);
+    if (infoEntries.length > 0) {
+      const entries = infoEntries.map(([id, value]) => chunk(id, Buffer.from(`${value}\0`, "utf8")));
+      parts.push(chunk("LIST", Buffer.concat([Buffer.from("INFO", "ascii"), ...entries])));
+    }
+    for (const extra of this.chunks) parts.push(chunk(extra.id, extra.data));
+
+    const dataSize = frames * this.blockAlign;
+    const dataHeader = Buffer.alloc(8);
+    dataHeader.write("data", 0, "ascii");
+    dataHeader.writeUInt32LE(dataSize, 4);
+    parts.push(dataHeader);
+
+    const body = Buffer.concat(parts);
+    const riff = Buffer.alloc(12);
+    riff.write("RIFF", 0, "ascii");
+    riff.writeUInt32LE(4 + body.length + dataSize + (dataSize & 1), 4);
+    riff.write("WAVE", 8, "ascii");
+    return Buffer.concat([riff, body]);
+  }
+
+  // Interleaves frames [start, end) of `channels`, clamping integer formats.
+  encode(channels: Float32Array[], start = 0, end = channels[0]?.length ?? 0): Buffer {
+    const { bitsPerSample, sampleFormat } = this.format;
+    const bytesPerSample = bitsPerSample / 8;
+    const out = Buffer.alloc((end - start) * this.blockAlign);
+    let offset = 0;
+    for (let i = start; i < end; i++) {
+      for (const channel of channels) {
+        const sample = channel[i];
+        if (sampleFormat === "float") {
+          out.writeFloatLE(sample, offset);
+        } else {
+          const clamped = Math.max(-1, Math.min(1, sample));
+          if (bitsPerSample === 16) {
+            out.writeInt16LE(Math.round(clamped * 32767), offset);
+          } else if (bitsPerSample === 24) {
+            out.writeIntLE(Math.round(clamped * 8388607), offset, 3);
+          } else {
+            out.writeInt32LE(Math.round(clamped * 2147483647), offset);
+          }
+        }
+        offset += bytesPerSample;
+      }
+    }
+    return out;
+  }
+
+  // Pad byte owed after the data chunk when its size is odd.
+  trailer(frames: number): Buffer {
+    return Buffer.alloc((frames * this.blockAlign) & 1);
+  }
+}
+
+function chunk(id: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, "ascii");
+  header.writeUInt32LE(data.length, 4);
+  const parts = [header, data];
+  if (data.length & 1) parts.push(Buffer.alloc(1));
+  return Buffer.concat(parts);
+}
+
+export function encodeWav(audio: PcmAudio, options: WavEncodeOptions = {}): Buffer {
+  const frames = pcmLength(audio);
+  const writer = new WavWriter(audio.channels.length, audio.sampleRate, options);
+  return Buffer.concat([writer.header(frames), writer.encode(audio.channels), writer.trailer(frames)]);
+}
+
+const WRITE_BLOCK_FRAMES = 65536;
+
+export async function writeWavFile(filePath: string, audio: PcmAudio, options: WavEncodeOptions = {}) {
+  const frames = pcmLength(audio);
+  const writer = new WavWriter(audio.channels.length, audio.sampleRate, options);
+  const handle = await fs.promises.open(filePath, "w");
+  try {
+    await handle.write(writer.header(frames));
+    for (let start = 0; start < frames; start += WRITE_BLOCK_FRAMES) {
+      const end = Math.min(frames, start + WRITE_BLOCK_FRAMES);
+      await handle.write(writer.encode(audio.channels, start, end));
+    }
+    await handle.write(writer.trailer(frames));
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { conversionPresets, type InsertConversion } from "@shared/schema";
+import { decodeAudio } from "./audio/decode";
+import { EmptyAudioError, UnsupportedAudioError } from "./audio/types";
+import { encodeWav } from "./audio/wav";
+import { describeFailure, recordFailure, retryDelay } from "./failures";
+import { ConversionQueue, type ConversionJob } from "./queue";
+import { RenderWorkerError } from "./render-pool";
+import { MemStorage } from "./storage";
+
+// Failed renders go through the real queue and in-memory storage, with a job
+// that fails the way `processAudioFile` records a failure. Timers and the
+// clock are mocked so retries fall due without waiting for them.
+
+const upload: InsertConversion = {
+  originalFilename: "track.wav",
+  originalFilePath: "uploads/track",
+  intensity: "medium",
+  params: { ...conversionPresets.medium, seed: 1 },
+};
+
+function systemError(code: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(code), { code });
+}
+
+// Counts an attempt, then fails it with `error` in the mix stage.
+function failingJob(storage: MemStorage, error: unknown, renders: number[]): ConversionJob {
+  return async conversionId => {
+    renders.push(Date.now());
+    const conversion = await storage.getConversion(conversionId);
+    const attempts = conversion!.attempts + 1;
+    await storage.updateConversion(conversionId, { attempts });
+    await recordFailure(storage, conversionId, attempts, error, "mix");
+  };
+}
+
+// Storage and the stub job only wait on promises, so one turn of the event
+// loop sees every follow-up through.
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test("classifies failures by whether they may pass", () => {
+  assert.deepEqual(describeFailure(new UnsupportedAudioError("HE-AAC is not supported"), "decode"), {
+    code: "unsupported_audio",
+    message: "HE-AAC is not supported",
+    stage: "decode",
+    retryable: false,
+  });
+  assert.equal(describeFailure(new EmptyAudioError("No audio"), "decode").code, "decode_failed");
+  assert.equal(describeFailure(new EmptyAudioError("No audio"), "decode").retryable, false);
+  assert.equal(describeFailure(new RenderWorkerError("exited"), "mix").code, "worker_crashed");
+  assert.equal(describeFailure(new RenderWorkerError("exited"), "mix").retryable, true);
+  assert.equal(describeFailure(systemError("ENOSPC"), "encode").code, "io_error");
+  assert.equal(describeFailure(systemError("ENOSPC"), "encode").retryable, true);
+  assert.equal(describeFailure(systemError("ENOENT")).code, "upload_missing");
+  assert.equal(describeFailure(new Error("bad frame"), "decode").code, "unreadable_audio");
+  assert.equal(describeFailure(new Error("NaN in mix"), "mix").code, "render_failed");
+  assert.equal(describeFailure(new Error("NaN in mix"), "mix").retryable, false);
+});
+
+test("rejects a WAV without sample frames instead of rendering silence", () => {
+  const empty = encodeWav({ sampleRate: 44100, channels: [new Float32Array(0), new Float32Array(0)] });
+  assert.throws(() => decodeAudio(empty), EmptyAudioError);
+});
+
+test("backs off 5 s, then 10 s, for three attempts in all", () => {
+  assert.equal(retryDelay(1), 5000);
+  assert.equal(retryDelay(2), 10000);
+  assert.equal(retryDelay(3), null);
+});
+
+test("requeues a transient failure until its retryAt and fails the third attempt", async t => {
+  t.mock.timers.enable({ apis: ["setTimeout", "Date"] });
+  const storage = new MemStorage();
+  const renders: number[] = [];
+  const queue = new ConversionQueue(storage, failingJob(storage, new RenderWorkerError("exited"), renders), 1);
+  const { id } = await storage.createConversion(upload);
+
+  await queue.enqueue();
+  await settle();
+  let conversion = await storage.getConversion(id);
+  assert.equal(conversion?.status, "pending");
+  assert.equal(conversion?.attempts, 1);
+  assert.equal(conversion?.error?.code, "worker_crashed");
+  assert.equal(conversion?.retryAt?.getTime(), 5000);
+
+  // Passed over until the retry falls due.
+  t.mock.timers.tick(4999);
+  await settle();
+  assert.deepEqual(renders, [0]);
+  t.mock.timers.tick(1);
+  await settle();
+  assert.deepEqual(renders, [0, 5000]);
+  conversion = await storage.getConversion(id);
+  assert.equal(conversion?.status, "pending");
+  assert.equal(conversion?.retryAt?.getTime(), 15000);
+
+  t.mock.timers.tick(10000);
+  await settle();
+  assert.deepEqual(renders, [0, 5000, 15000]);
+  conversion = await storage.getConversion(id);
+  assert.equal(conversion?.status, "failed");
+  assert.equal(conversion?.attempts, 3);
+  assert.equal(conversion?.retryAt, null);
+  assert.equal(conversion?.error?.retryable, true);
+
+  t.mock.timers.tick(60000);
+  await settle();
+  assert.equal(renders.length, 3);
+});
+
+test("fails a permanent failure on the first attempt", async t => {
+  t.mock.timers.enable({ apis: ["setTimeout", "Date"] });
+  const storage = new MemStorage();
+  const renders: number[] = [];
+  const queue = new ConversionQueue(storage, failingJob(storage, new Error("NaN in mix"), renders), 1);
+  const { id } = await storage.createConversion(upload);
+
+  await queue.enqueue();
+  await settle();
+  t.mock.timers.tick(60000);
+  await settle();
+  assert.equal(renders.length, 1);
+  const conversion = await storage.getConversion(id);
+  assert.equal(conversion?.status, "failed");
+  assert.equal(conversion?.attempts, 1);
+  assert.equal(conversion?.retryAt, null);
+  assert.deepEqual(conversion?.error, {
+    code: "render_failed",
+    message: "Something went wrong while rendering this track.",
+    stage: "mix",
+    retryable: false,
+  });
+});
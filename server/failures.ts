@@ -0,0 +1,68 @@
+import { type ConversionError } from "@shared/schema";
+import { type PipelineStageId } from "@shared/pipeline";
+import { EmptyAudioError, UnsupportedAudioError } from "./audio/types";
+import { RenderWorkerError } from "./render-pool";
+import { type IStorage } from "./storage";
+
+// Failed renders are described for the user and, when the cause may be
+// temporary, retried automatically a few times with exponential backoff.
+
+// Renders per conversion, the first included, before a failure sticks.
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 5000;
+// File system errors that can clear up on their own.
+const TRANSIENT_IO_CODES = ["EAGAIN", "EBUSY", "EMFILE", "ENFILE", "ENOMEM", "ENOSPC", "ETIMEDOUT"];
+
+export function describeFailure(error: unknown, stage?: PipelineStageId): ConversionError {
+  if (error instanceof UnsupportedAudioError) {
+    return { code: "unsupported_audio", message: error.message, stage, retryable: false };
+  }
+  if (error instanceof EmptyAudioError) {
+    return { code: "decode_failed", message: error.message, stage, retryable: false };
+  }
+  if (error instanceof RenderWorkerError) {
+    return {
+      code: "worker_crashed",
+      message: "The renderer stopped unexpectedly, most likely after running out of memory.",
+      stage,
+      retryable: true,
+    };
+  }
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  if (code === "ENOENT" && stage === undefined) {
+    return { code: "upload_missing", message: "The uploaded file is no longer on the server. Please upload it again.", retryable: false };
+  }
+  if (code && TRANSIENT_IO_CODES.includes(code)) {
+    return { code: "io_error", message: "The server couldn't read or write audio files.", stage, retryable: true };
+  }
+  if (stage === "decode") {
+    const detail = error instanceof Error ? ` (${error.message})` : "";
+    return { code: "unreadable_audio", message: `The file looks damaged and couldn't be decoded${detail}.`, stage, retryable: false };
+  }
+  return { code: "render_failed", message: "Something went wrong while rendering this track.", stage, retryable: false };
+}
+
+// How long to wait before the next attempt after `attempts` renders, or null
+// once they're used up.
+export function retryDelay(attempts: number): number | null {
+  return attempts < MAX_ATTEMPTS ? RETRY_BASE_MS * Math.pow(2, attempts - 1) : null;
+}
+
+// Stores a failed render on the conversion after its `attempts`th render:
+// back in the queue until its `retryAt` when it may pass, `failed` otherwise.
+export async function recordFailure(
+  storage: IStorage,
+  conversionId: string,
+  attempts: number,
+  error: unknown,
+  stage?: PipelineStageId,
+) {
+  const failure = describeFailure(error, stage);
+  const delay = failure.retryable ? retryDelay(attempts) : null;
+  await storage.updateConversion(conversionId, {
+    status: delay === null ? "failed" : "pending",
+    progress: 0,
+    error: failure,
+    retryAt: delay === null ? null : new Date(Date.now() + delay),
+  });
+}
@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { conversionPresets, type InsertConversion } from "@shared/schema";
+import { masterPath, removeOutputs, stemPath, variantPath } from "./audio/export";
+import { ConversionQueue, type ConversionJob } from "./queue";
+import { MemStorage } from "./storage";
+
+// Cancellation through the real queue on in-memory storage. The stub job holds
+// its render open until it's aborted, then cleans up the way
+// `processAudioFile` does; outputs are written under a scratch directory.
+
+const upload: InsertConversion = {
+  originalFilename: "track.wav",
+  originalFilePath: "uploads/track",
+  intensity: "medium",
+  params: { ...conversionPresets.medium, seed: 1 },
+};
+
+// Storage and the stub job only wait on promises and file system calls, so a
+// few turns of the event loop see every follow-up through.
+async function settle() {
+  for (let i = 0; i < 10; i++) await new Promise(resolve => setImmediate(resolve));
+}
+
+function renderUntilAborted(storage: MemStorage, started: string[]): ConversionJob {
+  return async (conversionId, signal) => {
+    started.push(conversionId);
+    await new Promise(resolve => signal.addEventListener("abort", resolve, { once: true }));
+    await removeOutputs(conversionId);
+    await storage.updateConversion(conversionId, { status: "cancelled" });
+  };
+}
+
+function inScratchDirectory(t: { after: (fn: () => void) => void }) {
+  const cwd = process.cwd();
+  const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "queue-test-"));
+  fs.mkdirSync(path.join(scratch, "uploads"));
+  process.chdir(scratch);
+  t.after(() => {
+    process.chdir(cwd);
+    fs.rmSync(scratch, { recursive: true, force: true });
+  });
+}
+
+test("cancelling a waiting conversion takes it out of the queue and renumbers the rest", async t => {
+  inScratchDirectory(t);
+  const storage = new MemStorage();
+  const started: string[] = [];
+  const queue = new ConversionQueue(storage, renderUntilAborted(storage, started), 1);
+  const ids: string[] = [];
+  for (let i = 0; i < 4; i++) ids.push((await storage.createConversion(upload)).id);
+  await queue.enqueue();
+
+  const positions = async () => Promise.all(ids.map(async id => (await storage.getConversion(id))?.queuePosition));
+  assert.deepEqual(started, [ids[0]]);
+  assert.deepEqual(await positions(), [null, 1, 2, 3]);
+
+  assert.equal(await queue.cancel(ids[2]), true);
+  const cancelled = await storage.getConversion(ids[2]);
+  assert.equal(cancelled?.status, "cancelled");
+  assert.deepEqual(await positions(), [null, 1, null, 2]);
+  // Nothing to cancel the second time.
+  assert.equal(await queue.cancel(ids[2]), false);
+
+  await queue.cancel(ids[0]);
+  await settle();
+  assert.deepEqual(started, [ids[0], ids[1]]);
+  assert.deepEqual(await positions(), [null, null, null, 1]);
+  await queue.cancel(ids[1]);
+  await queue.cancel(ids[3]);
+  await settle();
+});
+
+test("cancelling a rendering conversion stops it and deletes its outputs", async t => {
+  inScratchDirectory(t);
+  const storage = new MemStorage();
+  const started: string[] = [];
+  const queue = new ConversionQueue(storage, renderUntilAborted(storage, started), 1);
+  const running = await storage.createConversion(upload);
+  const waiting = await storage.createConversion(upload);
+  await queue.enqueue();
+  assert.deepEqual(started, [running.id]);
+
+  const master = masterPath(running.id);
+  const outputs = [
+    master,
+    stemPath(running.id, "vocals"),
+    stemPath(running.id, "percussive"),
+    variantPath(master, { format: "mp3" }),
+    variantPath(master, { format: "flac", bitDepth: 16, sampleRate: 48000 }),
+    `${variantPath(master, { format: "wav" })}.1234.0.tmp`,
+  ];
+  const unrelated = masterPath(waiting.id);
+  for (const file of [...outputs, unrelated]) fs.writeFileSync(file, "");
+
+  assert.equal(await queue.cancel(running.id), true);
+  await settle();
+  assert.equal((await storage.getConversion(running.id))?.status, "cancelled");
+  assert.deepEqual(outputs.filter(file => fs.existsSync(file)), []);
+  assert.ok(fs.existsSync(unrelated));
+
+  // The freed slot goes to the next conversion in line.
+  assert.deepEqual(started, [running.id, waiting.id]);
+  assert.equal((await storage.getConversion(waiting.id))?.status, "processing");
+  await queue.cancel(waiting.id);
+  await settle();
+});
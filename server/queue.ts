@@ -0,0 +1,101 @@
+import { type IStorage } from "./storage";
+
+// Conversions render through a queue instead of as soon as they're uploaded.
+// The queue itself only knows what it is running: a conversion waiting its
+// turn is `pending` in storage, oldest first, so with durable storage the
+// queue survives a restart and `resume` picks up where it left off. A
+// conversion due to be retried keeps its place but is passed over until its
+// `retryAt`.
+
+// Renders a conversion, stopping early once `signal` is aborted.
+export type ConversionJob = (conversionId: string, signal: AbortSignal) => Promise<void>;
+
+export class ConversionQueue {
+  private running = new Map<string, AbortController>();
+  // Scheduling passes and cancellations run one at a time so no conversion
+  // starts twice or after being cancelled.
+  private scheduling: Promise<unknown> = Promise.resolve();
+  // Wakes the queue when the next retry falls due.
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly storage: IStorage,
+    private readonly job: ConversionJob,
+    private readonly concurrency: number,
+  ) {}
+
+  // Starts pending conversions while there's room; call after creating one.
+  async enqueue() {
+    await this.serialize(() => this.schedule()).catch(() => undefined);
+  }
+
+  // Requeues conversions an earlier process was rendering when it stopped,
+  // then starts the queue. Being the oldest, they go back in at the front.
+  async resume() {
+    const interrupted = await this.storage.getConversionsByStatus("processing");
+    for (const conversion of interrupted) {
+      if (this.running.has(conversion.id)) continue;
+      await this.storage.updateConversion(conversion.id, { status: "pending", progress: 0 });
+    }
+    await this.enqueue();
+  }
+
+  // Marks a waiting or rendering conversion cancelled and signals its job to
+  // stop. Returns false when there was nothing to cancel.
+  cancel(conversionId: string): Promise<boolean> {
+    return this.serialize(async () => {
+      const conversion = await this.storage.getConversion(conversionId);
+      if (!conversion || (conversion.status !== "pending" && conversion.status !== "processing")) return false;
+      this.running.get(conversionId)?.abort();
+      await this.storage.updateConversion(conversionId, { status: "cancelled", queuePosition: null });
+      await this.schedule();
+      return true;
+    });
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.scheduling.then(task);
+    this.scheduling = result.catch(error => console.error("Queue error:", error));
+    return result;
+  }
+
+  private async schedule() {
+    const pending = await this.storage.getConversionsByStatus("pending");
+    const now = Date.now();
+    let nextRetry = Infinity;
+    let position = 0;
+    for (const conversion of pending) {
+      if (this.running.has(conversion.id)) continue;
+      const retryAt = conversion.retryAt?.getTime() ?? 0;
+      if (retryAt <= now && this.running.size < this.concurrency) {
+        await this.storage.updateConversion(conversion.id, { status: "processing", queuePosition: null, retryAt: null });
+        this.start(conversion.id);
+        continue;
+      }
+      if (retryAt > now) nextRetry = Math.min(nextRetry, retryAt);
+      if (conversion.queuePosition !== ++position) {
+        await this.storage.updateConversion(conversion.id, { queuePosition: position });
+      }
+    }
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (nextRetry < Infinity) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.enqueue();
+      }, nextRetry - now);
+    }
+  }
+
+  private start(conversionId: string) {
+    const controller = new AbortController();
+    this.running.set(conversionId, controller);
+    this.job(conversionId, controller.signal)
+      .catch(error => console.error("Conversion job error:", error))
+      .finally(() => {
+        this.running.delete(conversionId);
+        void this.enqueue();
+      });
+  }
+}
@@ -0,0 +1,192 @@
+import fs from "fs";
+import { Worker } from "worker_threads";
+import { type Conversion, type ConversionMetadata, type DownloadOptions } from "@shared/schema";
+import { type ProgressListener, type RenderResult } from "./audio/pipeline";
+import { EmptyAudioError, UnsupportedAudioError } from "./audio/types";
+
+// Renders run on worker threads so the DSP never blocks the HTTP server. The
+// upload's bytes are transferred to the worker rather than copied, the worker
+// reports back through the messages below, and a worker that dies takes only
+// its own conversion down with it before being replaced. Download renditions
+// are transcoded by the same workers, since encoding is as heavy as mixing.
+
+// Messages to a worker: a job to render, a download to transcode, or to
+// abandon the render it's on.
+export type RenderRequest =
+  | { type: "render"; conversion: Conversion; upload: Uint8Array }
+  | { type: "export"; master: string; options: DownloadOptions }
+  | { type: "cancel" };
+
+export type RenderMessage =
+  | { type: "progress"; progress: number; metadata: ConversionMetadata }
+  | { type: "done"; result: RenderResult }
+  | { type: "exported"; path: string }
+  | { type: "failed"; error: SerializedError };
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  // Node's system error code, e.g. ENOSPC.
+  code?: string;
+}
+
+// A worker died mid-render rather than reporting an error.
+export class RenderWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenderWorkerError";
+  }
+}
+
+// tsx runs the TypeScript sources in development, but doesn't hook a worker's
+// entry point, so the worker registers it first. The production build bundles
+// the worker beside the server.
+function spawnWorker(): Worker {
+  const development = import.meta.url.endsWith(".ts");
+  const entry = new URL(`./render-worker.${development ? "ts" : "js"}`, import.meta.url);
+  if (!development) return new Worker(entry);
+  const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(entry.href)}); })`;
+  return new Worker(bootstrap, { eval: true });
+}
+
+const revivedClasses: Record<string, new (message: string) => Error> = { UnsupportedAudioError, EmptyAudioError };
+
+// Errors cross the thread boundary as plain objects; decode failures keep
+// their class and system errors their code so they're described correctly.
+function reviveError(error: SerializedError): Error {
+  const Revived = revivedClasses[error.name] ?? Error;
+  const revived: NodeJS.ErrnoException = new Revived(error.message);
+  revived.stack = error.stack;
+  if (error.code) revived.code = error.code;
+  return revived;
+}
+
+export class RenderPool {
+  private idle: Worker[] = [];
+  private workers = 0;
+  private waiting: ((worker: Worker) => void)[] = [];
+
+  constructor(private readonly size: number) {}
+
+  // Aborting `signal` asks the worker to stop at the next stage boundary; the
+  // render then rejects.
+  async render(conversion: Conversion, onProgress: ProgressListener, signal?: AbortSignal): Promise<RenderResult> {
+    const upload = await fs.promises.readFile(conversion.originalFilePath);
+    const worker = await this.acquire();
+
+    return new Promise<RenderResult>((resolve, reject) => {
+      // Progress is stored in the order it was reported, and all of it before
+      // the result.
+      let updates = Promise.resolve();
+      const settle = (finish: () => void) => {
+        signal?.removeEventListener("abort", onAbort);
+        worker.off("message", onMessage);
+        worker.off("error", onError);
+        worker.off("exit", onExit);
+        updates.then(finish, reject);
+      };
+
+      const onMessage = (message: RenderMessage) => {
+        switch (message.type) {
+          case "progress":
+            updates = updates.then(() => onProgress(message.progress, message.metadata));
+            break;
+          case "done":
+            settle(() => resolve(message.result));
+            this.release(worker);
+            break;
+          case "failed":
+            settle(() => reject(reviveError(message.error)));
+            this.release(worker);
+            break;
+        }
+      };
+      const onError = (error: Error) => {
+        settle(() => reject(new RenderWorkerError(`Render worker crashed: ${error.message}`)));
+      };
+      const onExit = (code: number) => {
+        settle(() => reject(new RenderWorkerError(`Render worker exited with code ${code}`)));
+      };
+
+      const onAbort = () => {
+        const cancel: RenderRequest = { type: "cancel" };
+        worker.postMessage(cancel);
+      };
+
+      worker.on("message", onMessage);
+      worker.on("error", onError);
+      worker.on("exit", onExit);
+      signal?.addEventListener("abort", onAbort);
+      const job: RenderRequest = { type: "render", conversion, upload };
+      worker.postMessage(job, [upload.buffer]);
+      if (signal?.aborted) onAbort();
+    });
+  }
+
+  // Transcodes a rendition of `master` on a worker and resolves with its path.
+  async export(master: string, options: DownloadOptions): Promise<string> {
+    const worker = await this.acquire();
+
+    return new Promise<string>((resolve, reject) => {
+      const settle = () => {
+        worker.off("message", onMessage);
+        worker.off("error", onError);
+        worker.off("exit", onExit);
+      };
+
+      const onMessage = (message: RenderMessage) => {
+        if (message.type === "exported") {
+          settle();
+          this.release(worker);
+          resolve(message.path);
+        } else if (message.type === "failed") {
+          settle();
+          this.release(worker);
+          reject(reviveError(message.error));
+        }
+      };
+      const onError = (error: Error) => {
+        settle();
+        reject(new RenderWorkerError(`Export worker crashed: ${error.message}`));
+      };
+      const onExit = (code: number) => {
+        settle();
+        reject(new RenderWorkerError(`Export worker exited with code ${code}`));
+      };
+
+      worker.on("message", onMessage);
+      worker.on("error", onError);
+      worker.on("exit", onExit);
+      const job: RenderRequest = { type: "export", master, options };
+      worker.postMessage(job);
+    });
+  }
+
+  private acquire(): Promise<Worker> {
+    const worker = this.idle.pop();
+    if (worker) return Promise.resolve(worker);
+    if (this.workers < this.size) return Promise.resolve(this.spawn());
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private spawn(): Worker {
+    const worker = spawnWorker();
+    this.workers++;
+    worker.on("error", error => console.error("Render worker error:", error));
+    // A dead worker leaves the pool, and whoever is waiting gets a fresh one.
+    worker.once("exit", () => {
+      this.workers--;
+      this.idle = this.idle.filter(other => other !== worker);
+      const next = this.waiting.shift();
+      if (next) next(this.spawn());
+    });
+    return worker;
+  }
+
+  private release(worker: Worker) {
+    const next = this.waiting.shift();
+    if (next) next(worker);
+    else this.idle.push(worker);
+  }
+}
@@ -0,0 +1,51 @@
+import { parentPort } from "worker_threads";
+import { renderConversion } from "./audio/pipeline";
+import { writeVariant } from "./audio/export";
+import { type RenderMessage, type RenderRequest, type SerializedError } from "./render-pool";
+
+// Entry point of the render pool's worker threads: renders one conversion
+// or transcodes one download per job message and answers with progress and
+// then the outcome.
+
+const port = parentPort!;
+const send = (message: RenderMessage) => port.postMessage(message);
+// Aborts the render in progress, if any.
+let current: AbortController | null = null;
+
+function serializeError(error: unknown): SerializedError {
+  const { name, message, stack, code }: NodeJS.ErrnoException = error instanceof Error ? error : new Error(String(error));
+  return { name, message, stack, ...(code ? { code } : {}) };
+}
+
+port.on("message", async (request: RenderRequest) => {
+  if (request.type === "cancel") {
+    current?.abort();
+    return;
+  }
+  if (request.type === "export") {
+    try {
+      send({ type: "exported", path: await writeVariant(request.master, request.options) });
+    } catch (error) {
+      send({ type: "failed", error: serializeError(error) });
+    }
+    return;
+  }
+
+  const { conversion, upload } = request;
+  const controller = new AbortController();
+  current = controller;
+  try {
+    const result = await renderConversion(
+      conversion,
+      (progress, metadata) => send({ type: "progress", progress, metadata }),
+      // The bytes arrive as a plain Uint8Array; view them as a Buffer.
+      Buffer.from(upload.buffer, upload.byteOffset, upload.byteLength),
+      controller.signal,
+    );
+    send({ type: "done", result });
+  } catch (error) {
+    send({ type: "failed", error: serializeError(error) });
+  } finally {
+    current = null;
+  }
+});
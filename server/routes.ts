@@ -1,10 +1,40 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer, { type FileFilterCallback } from "multer";
 import path from "path";
 import fs from "fs";
+import { randomInt } from "crypto";
 import { storage } from "./storage";
-import { insertConversionSchema } from "@shared/schema";
+import { ConversionQueue } from "./queue";
+import { RenderPool } from "./render-pool";
+import {
+  conversionParamsSchema,
+  conversionPresets,
+  downloadOptionsSchema,
+  insertConversionSchema,
+  stemSchema,
+  sidechainSchema,
+  type Conversion,
+  type ConversionMetadata,
+  type DownloadOptions,
+  type Intensity,
+} from "@shared/schema";
+import { type PipelineStageId } from "@shared/pipeline";
+import { activeStatuses, conversionSnapshot } from "@shared/events";
+import { contentTypes, exportVariant, removeOutputs, stemPath } from "./audio/export";
+import { recordFailure } from "./failures";
+import { attachConversionSocket } from "./ws";
+
+// Idle progress streams get a comment this often so proxies keep them open.
+const EVENT_STREAM_HEARTBEAT_MS = 15000;
+
+// Each render runs on a worker thread of its own; by default they take turns.
+const concurrency = Math.max(1, Number(process.env.CONVERSION_CONCURRENCY) || 1);
+const renderPool = new RenderPool(concurrency);
+// Downloads are transcoded on workers of their own so they don't wait for a
+// render to finish.
+const exportPool = new RenderPool(1);
+const transcodeOnWorker = (master: string, options: DownloadOptions) => exportPool.export(master, options);
 
 interface UploadRequest extends Request {
   file?: Express.Multer.File;
@@ -13,7 +43,7 @@ interface UploadRequest extends Request {
 const upload = multer({
   dest: "uploads/",
   fileFilter: (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
-    const allowedTypes = ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/m4a'];
+    const allowedTypes = ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/m4a', 'audio/x-m4a'];
     if (allowedTypes.includes(file.mimetype)) {
       cb(null, true);
     } else {
@@ -31,6 +61,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     fs.mkdirSync('uploads');
   }
 
+  const queue = new ConversionQueue(storage, processAudioFile, concurrency);
+  await queue.resume();
+
   // Upload audio file
   app.post("/api/upload", upload.single('audio'), async (req: UploadRequest, res) => {
     try {
@@ -38,17 +71,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const { intensity } = req.body;
+      const { transposeSemitones } = req.body;
+      const intensity: Intensity = req.body.intensity || "medium";
+      // Params sent as a JSON field override the intensity's preset.
+      let sent: unknown = {};
+      try {
+        sent = req.body.params ? JSON.parse(req.body.params) : {};
+      } catch {
+        return res.status(400).json({ message: "Invalid conversion parameters" });
+      }
+      const overrides = conversionParamsSchema.partial().safeParse(sent);
+      if (!overrides.success) {
+        return res.status(400).json({ message: "Invalid conversion parameters", errors: overrides.error.errors });
+      }
+      // Only the fields sent override the intensity's sidechain settings.
+      const sidechain = sidechainSchema.safeParse({
+        ...(req.body.sidechainAttackMs ? { attackMs: req.body.sidechainAttackMs } : {}),
+        ...(req.body.sidechainReleaseMs ? { releaseMs: req.body.sidechainReleaseMs } : {}),
+        ...(req.body.sidechainDepthDb ? { depthDb: req.body.sidechainDepthDb } : {}),
+      });
+      if (!sidechain.success) {
+        return res.status(400).json({ message: "Invalid sidechain settings", errors: sidechain.error.errors });
+      }
       
       const validationResult = insertConversionSchema.safeParse({
         originalFilename: req.file.originalname,
         originalFilePath: req.file.path,
-        intensity: intensity || "medium",
+        intensity,
+        transposeSemitones,
+        params: { ...conversionPresets[intensity], seed: randomInt(0x100000000), ...overrides.data },
         status: "pending",
         progress: 0,
         metadata: {
           fileSize: req.file.size,
           mimeType: req.file.mimetype,
+          sidechain: sidechain.data,
         }
       });
 
@@ -57,11 +114,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const conversion = await storage.createConversion(validationResult.data);
-      
-      // Start processing in background (mocked for now)
-      processAudioFile(conversion.id);
+      await queue.enqueue();
 
-      res.json(conversion);
+      res.json(await storage.getConversion(conversion.id));
     } catch (error) {
       console.error("Upload error:", error);
       res.status(500).json({ message: "Upload failed" });
@@ -82,6 +137,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream a conversion's progress as Server-Sent Events until it settles
+  app.get("/api/conversions/:id/events", async (req, res) => {
+    try {
+      const conversion = await storage.getConversion(req.params.id);
+      if (!conversion) {
+        return res.status(404).json({ message: "Conversion not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      const send = (current: Conversion) => {
+        if (res.writableEnded) return;
+        res.write(`event: progress\ndata: ${JSON.stringify(conversionSnapshot(current))}\n\n`);
+        if (!activeStatuses.includes(current.status)) res.end();
+      };
+      const unsubscribe = storage.subscribe(updated => {
+        if (updated.id === conversion.id) send(updated);
+      });
+      const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENT_STREAM_HEARTBEAT_MS);
+      res.on("close", () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      });
+      send(conversion);
+    } catch (error) {
+      console.error("Conversion events error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to stream conversion" });
+      }
+    }
+  });
+
+  // Cancel a conversion that is waiting or rendering
+  const cancelConversion = async (req: Request, res: Response) => {
+    try {
+      const conversion = await storage.getConversion(req.params.id);
+      if (!conversion) {
+        return res.status(404).json({ message: "Conversion not found" });
+      }
+      if (!(await queue.cancel(conversion.id))) {
+        return res.status(409).json({ message: "Conversion is not in progress" });
+      }
+      res.json(await storage.getConversion(conversion.id));
+    } catch (error) {
+      console.error("Cancel conversion error:", error);
+      res.status(500).json({ message: "Failed to cancel conversion" });
+    }
+  };
+  app.post("/api/conversions/:id/cancel", cancelConversion);
+  app.delete("/api/conversions/:id", cancelConversion);
+
+  // Run a failed conversion again from the start
+  app.post("/api/conversions/:id/retry", async (req, res) => {
+    try {
+      const conversion = await storage.getConversion(req.params.id);
+      if (!conversion) {
+        return res.status(404).json({ message: "Conversion not found" });
+      }
+      if (conversion.status !== "failed") {
+        return res.status(409).json({ message: "Conversion can't be retried" });
+      }
+
+      await storage.updateConversion(conversion.id, {
+        status: "pending",
+        progress: 0,
+        attempts: 0,
+        error: null,
+        retryAt: null,
+      });
+      await queue.enqueue();
+      res.json(await storage.getConversion(conversion.id));
+    } catch (error) {
+      console.error("Retry conversion error:", error);
+      res.status(500).json({ message: "Failed to retry conversion" });
+    }
+  });
+
   // Get all conversions
   app.get("/api/conversions", async (req, res) => {
     try {
@@ -93,9 +228,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Download converted file
+  // Download converted file, transcoded to the requested format
   app.get("/api/download/:id", async (req, res) => {
     try {
+      const options = downloadOptionsSchema.safeParse(req.query);
+      if (!options.success) {
+        return res.status(400).json({ message: "Invalid download options", errors: options.error.errors });
+      }
+
       const conversion = await storage.getConversion(req.params.id);
       if (!conversion || !conversion.convertedFilePath) {
         return res.status(404).json({ message: "File not found" });
@@ -105,79 +245,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found on disk" });
       }
 
-      const filename = `${path.parse(conversion.originalFilename).name}_drill_${conversion.intensity}.mp3`;
-      res.download(conversion.convertedFilePath, filename);
+      const filePath = await exportVariant(conversion.convertedFilePath, options.data, transcodeOnWorker);
+      const filename = `${path.parse(conversion.originalFilename).name}_drill_${conversion.intensity}${path.extname(filePath)}`;
+      res.download(filePath, filename, { headers: { "Content-Type": contentTypes[options.data.format] } });
     } catch (error) {
       console.error("Download error:", error);
       res.status(500).json({ message: "Download failed" });
     }
   });
 
+  // Download one of the source stems separated during conversion
+  app.get("/api/download/:id/stems/:stem", async (req, res) => {
+    try {
+      const stem = stemSchema.safeParse(req.params.stem);
+      if (!stem.success) {
+        return res.status(404).json({ message: "Unknown stem" });
+      }
+      const options = downloadOptionsSchema.safeParse(req.query);
+      if (!options.success) {
+        return res.status(400).json({ message: "Invalid download options", errors: options.error.errors });
+      }
+
+      const conversion = await storage.getConversion(req.params.id);
+      const stems = (conversion?.metadata as ConversionMetadata | null)?.stems;
+      if (!conversion || !stems?.includes(stem.data)) {
+        return res.status(404).json({ message: "Stem not found" });
+      }
+
+      const master = stemPath(conversion.id, stem.data);
+      if (!fs.existsSync(master)) {
+        return res.status(404).json({ message: "File not found on disk" });
+      }
+
+      const filePath = await exportVariant(master, options.data, transcodeOnWorker);
+      const filename = `${path.parse(conversion.originalFilename).name}_${stem.data}${path.extname(filePath)}`;
+      res.download(filePath, filename, { headers: { "Content-Type": contentTypes[options.data.format] } });
+    } catch (error) {
+      console.error("Stem download error:", error);
+      res.status(500).json({ message: "Download failed" });
+    }
+  });
+
   const httpServer = createServer(app);
+  attachConversionSocket(httpServer, storage);
   return httpServer;
 }
 
-// Mock audio processing function
-async function processAudioFile(conversionId: string) {
-  try {
-    const conversion = await storage.getConversion(conversionId);
-    if (!conversion) return;
-
-    // Simulate processing time and progress updates
-    const totalSteps = 10;
-    
-    for (let step = 1; step <= totalSteps; step++) {
-      await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay per step
-      
-      const progress = Math.round((step / totalSteps) * 100);
-      
-      if (step === totalSteps) {
-        // Create a mock converted file by copying the original file
-        const outputPath = `uploads/converted_${conversionId}.mp3`;
-        
-        try {
-          // Copy original file to simulate conversion output
-          if (fs.existsSync(conversion.originalFilePath)) {
-            fs.copyFileSync(conversion.originalFilePath, outputPath);
-            console.log(`Created converted file: ${outputPath}`);
-          } else {
-            console.error(`Original file not found: ${conversion.originalFilePath}`);
-          }
-        } catch (copyError) {
-          console.error('Error creating converted file:', copyError);
-        }
-        
-        await storage.updateConversion(conversionId, {
-          status: "completed",
-          progress,
-          convertedFilePath: outputPath,
-          completedAt: new Date(),
-        });
-      } else {
-        await storage.updateConversion(conversionId, {
-          status: "processing",
-          progress,
-        });
-      }
-    }
+// Renders a conversion through the drill pipeline on a worker thread,
+// mirroring each stage into the conversion's progress and metadata as it goes.
+// A cancelled render leaves nothing behind; a failed one is described on the
+// conversion and, if the cause may pass, queued again after a delay.
+async function processAudioFile(conversionId: string, signal: AbortSignal) {
+  const conversion = await storage.getConversion(conversionId);
+  if (!conversion) return;
+  const attempts = conversion.attempts + 1;
+  await storage.updateConversion(conversionId, { attempts });
 
-    // In a real implementation, this would:
-    // 1. Load the audio file using libraries like node-ffmpeg
-    // 2. Apply UK Drill-specific audio effects:
-    //    - Heavy 808 bass lines
-    //    - Hi-hat patterns (rapid-fire, triplet patterns)
-    //    - Sliding bass synths
-    //    - Dark, menacing atmospheres
-    //    - Pitch-shifted vocals
-    //    - Aggressive EQ (boosted low-end, crisp highs)
-    // 3. Save the processed file
-    // 4. Update the conversion record with the output path
+  let stage: PipelineStageId | undefined;
+  try {
+    const result = await renderPool.render(conversion, async (progress, metadata) => {
+      if (signal.aborted) return;
+      stage = metadata.stage;
+      await storage.updateConversion(conversionId, {
+        status: "processing",
+        progress,
+        metadata,
+      });
+    }, signal);
+    signal.throwIfAborted();
 
-  } catch (error) {
-    console.error("Processing error:", error);
     await storage.updateConversion(conversionId, {
-      status: "failed",
-      progress: 0,
+      status: "completed",
+      progress: 100,
+      convertedFilePath: result.outputPath,
+      metadata: result.metadata,
+      error: null,
+      completedAt: new Date(),
     });
+  } catch (error) {
+    await removeOutputs(conversionId);
+    if (signal.aborted) {
+      await storage.updateConversion(conversionId, { status: "cancelled" });
+      return;
+    }
+
+    console.error("Processing error:", error);
+    await recordFailure(storage, conversionId, attempts, error, stage);
   }
 }
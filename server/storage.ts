@@ -1,11 +1,14 @@
 import { type Conversion, type InsertConversion } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
 
 export interface IStorage {
   createConversion(conversion: InsertConversion): Promise<Conversion>;
   getConversion(id: string): Promise<Conversion | undefined>;
   updateConversion(id: string, updates: Partial<Conversion>): Promise<Conversion | undefined>;
   getAllConversions(): Promise<Conversion[]>;
+  // Oldest first, so pending conversions come back in queue order.
+  getConversionsByStatus(status: Conversion["status"]): Promise<Conversion[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -24,7 +27,12 @@ export class MemStorage implements IStorage {
       completedAt: null,
       progress: insertConversion.progress ?? 0,
       status: insertConversion.status ?? "pending",
+      transposeSemitones: insertConversion.transposeSemitones ?? 0,
       convertedFilePath: insertConversion.convertedFilePath ?? null,
+      queuePosition: insertConversion.queuePosition ?? null,
+      attempts: 0,
+      error: null,
+      retryAt: null,
       metadata: insertConversion.metadata ?? null,
     };
     this.conversions.set(id, conversion);
@@ -48,6 +56,54 @@ export class MemStorage implements IStorage {
     return Array.from(this.conversions.values())
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
+
+  async getConversionsByStatus(status: Conversion["status"]): Promise<Conversion[]> {
+    return Array.from(this.conversions.values())
+      .filter(conversion => conversion.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
+
+// Wraps another storage and announces every conversion written through it,
+// so changes can be pushed to clients as they happen.
+export class NotifyingStorage implements IStorage {
+  private events = new EventEmitter();
+
+  constructor(private readonly inner: IStorage) {
+    // One listener per open progress stream.
+    this.events.setMaxListeners(0);
+  }
+
+  // Calls `listener` with each conversion after it's created or updated.
+  // Returns a function that unsubscribes it.
+  subscribe(listener: (conversion: Conversion) => void): () => void {
+    this.events.on("conversion", listener);
+    return () => this.events.off("conversion", listener);
+  }
+
+  async createConversion(insertConversion: InsertConversion): Promise<Conversion> {
+    const conversion = await this.inner.createConversion(insertConversion);
+    this.events.emit("conversion", conversion);
+    return conversion;
+  }
+
+  getConversion(id: string): Promise<Conversion | undefined> {
+    return this.inner.getConversion(id);
+  }
+
+  async updateConversion(id: string, updates: Partial<Conversion>): Promise<Conversion | undefined> {
+    const conversion = await this.inner.updateConversion(id, updates);
+    if (conversion) this.events.emit("conversion", conversion);
+    return conversion;
+  }
+
+  getAllConversions(): Promise<Conversion[]> {
+    return this.inner.getAllConversions();
+  }
+
+  getConversionsByStatus(status: Conversion["status"]): Promise<Conversion[]> {
+    return this.inner.getConversionsByStatus(status);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = new NotifyingStorage(new MemStorage());
@@ -0,0 +1,158 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import { type AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { conversionPresets, type Conversion, type InsertConversion } from "@shared/schema";
+import { conversionSocketPath, conversionState, type ClientMessage, type ServerMessage } from "@shared/ws";
+import { MemStorage, NotifyingStorage } from "./storage";
+import { attachConversionSocket } from "./ws";
+
+// The conversion socket on a real HTTP server over in-memory storage, with
+// clients that disconnect and resume the way `useConversionFeed` does.
+
+const upload: InsertConversion = {
+  originalFilename: "track.wav",
+  originalFilePath: "uploads/track",
+  intensity: "medium",
+  params: { ...conversionPresets.medium, seed: 1 },
+};
+
+class Feed {
+  private messages: ServerMessage[] = [];
+  private arrived?: () => void;
+
+  constructor(readonly socket: WebSocket) {
+    socket.on("message", data => {
+      this.messages.push(JSON.parse(data.toString()));
+      this.arrived?.();
+    });
+  }
+
+  send(message: ClientMessage) {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  // Resolves with the next `count` messages.
+  async take(count: number): Promise<ServerMessage[]> {
+    while (this.messages.length < count) await new Promise<void>(resolve => (this.arrived = resolve));
+    return this.messages.splice(0, count);
+  }
+
+  // Checks that nothing more arrived before the answer to a later message.
+  async drained() {
+    this.send({ type: "subscribe", conversionIds: ["missing"] });
+    assert.deepEqual(await this.take(1), [{ type: "error", message: "Conversion not found", conversionId: "missing" }]);
+  }
+}
+
+async function startServer(t: TestContext) {
+  const storage = new NotifyingStorage(new MemStorage());
+  const server = createServer();
+  attachConversionSocket(server, storage);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const sockets: WebSocket[] = [];
+  t.after(async () => {
+    sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function connect(): Promise<Feed> {
+    const socket = new WebSocket(`ws://127.0.0.1:${port}${conversionSocketPath}`);
+    sockets.push(socket);
+    const feed = new Feed(socket);
+    await new Promise((resolve, reject) => socket.once("open", resolve).once("error", reject));
+    return feed;
+  }
+  return { storage, connect };
+}
+
+// Subscribes to one conversion and returns the event id of its snapshot.
+async function subscribed(feed: Feed, conversion: Conversion): Promise<number> {
+  feed.send({ type: "subscribe", conversionIds: [conversion.id] });
+  const [snapshot] = await feed.take(1);
+  assert.equal(snapshot.type, "snapshot");
+  return snapshot.type === "snapshot" ? snapshot.eventId : -1;
+}
+
+test("replays missed deltas from a lastEventId still in the buffer", async t => {
+  const { storage, connect } = await startServer(t);
+  const conversion = await storage.createConversion(upload);
+  const first = await connect();
+  const lastEventId = await subscribed(first, conversion);
+  first.socket.close();
+
+  await storage.updateConversion(conversion.id, { status: "processing", queuePosition: null });
+  await storage.updateConversion(conversion.id, { progress: 20 });
+
+  const second = await connect();
+  second.send({ type: "subscribe", conversionIds: [conversion.id], lastEventId, knownIds: [conversion.id] });
+  assert.deepEqual(await second.take(2), [
+    { type: "delta", eventId: lastEventId + 1, conversionId: conversion.id, changes: { status: "processing" } },
+    { type: "delta", eventId: lastEventId + 2, conversionId: conversion.id, changes: { progress: 20 } },
+  ]);
+  await second.drained();
+});
+
+test("sends a fresh snapshot once lastEventId has fallen out of the buffer", async t => {
+  const { storage, connect } = await startServer(t);
+  const conversion = await storage.createConversion(upload);
+  const first = await connect();
+  const lastEventId = await subscribed(first, conversion);
+  first.socket.close();
+
+  // One more delta than the buffer holds.
+  for (let i = 1; i <= 1001; i++) await storage.updateConversion(conversion.id, { progress: i % 100 });
+
+  const second = await connect();
+  second.send({ type: "subscribe", conversionIds: [conversion.id], lastEventId, knownIds: [conversion.id] });
+  assert.deepEqual(await second.take(1), [
+    {
+      type: "snapshot",
+      eventId: lastEventId + 1001,
+      conversionId: conversion.id,
+      state: conversionState((await storage.getConversion(conversion.id))!),
+    },
+  ]);
+  await second.drained();
+});
+
+test("sends snapshots for subscribed conversions missing from knownIds", async t => {
+  const { storage, connect } = await startServer(t);
+  const known = await storage.createConversion(upload);
+  const first = await connect();
+  const lastEventId = await subscribed(first, known);
+  first.socket.close();
+
+  const added = await storage.createConversion(upload);
+  await storage.updateConversion(added.id, { progress: 5 });
+  await storage.updateConversion(known.id, { progress: 10 });
+
+  const second = await connect();
+  second.send({ type: "subscribe", conversionIds: [known.id, added.id], lastEventId, knownIds: [known.id] });
+  assert.deepEqual(await second.take(2), [
+    { type: "snapshot", eventId: lastEventId + 3, conversionId: added.id, state: conversionState((await storage.getConversion(added.id))!) },
+    { type: "delta", eventId: lastEventId + 3, conversionId: known.id, changes: { progress: 10 } },
+  ]);
+  await second.drained();
+});
+
+test("forgets a conversion's state once it settles", async t => {
+  const { storage, connect } = await startServer(t);
+  const conversion = await storage.createConversion(upload);
+  const feed = await connect();
+  await subscribed(feed, conversion);
+
+  await storage.updateConversion(conversion.id, { status: "processing", progress: 40 });
+  await storage.updateConversion(conversion.id, { status: "failed", progress: 0 });
+  const [processing, failed] = await feed.take(2);
+  assert.deepEqual(processing.type === "delta" && processing.changes, { status: "processing", progress: 40 });
+  assert.deepEqual(failed.type === "delta" && failed.changes, { status: "failed", progress: 0 });
+
+  // Retried, it is diffed against nothing, so the delta is the whole state.
+  const retried = await storage.updateConversion(conversion.id, { status: "pending" });
+  const [delta] = await feed.take(1);
+  assert.deepEqual(delta.type === "delta" && delta.changes, conversionState(retried!));
+  await feed.drained();
+});
@@ -0,0 +1,157 @@
+import { type Server } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+  clientMessageSchema,
+  conversionSocketPath,
+  conversionState,
+  socketHeartbeatMs,
+  type ConversionState,
+  type ServerMessage,
+} from "@shared/ws";
+import { activeStatuses } from "@shared/events";
+import { type NotifyingStorage } from "./storage";
+
+// The `/ws` socket: clients subscribe to conversions by id and get their
+// state as deltas, numbered so a reconnecting client can pick up where it
+// left off. See `shared/ws.ts` for the messages.
+
+// Deltas kept for replay to reconnecting clients.
+const REPLAY_EVENTS = 1000;
+
+type Delta = Extract<ServerMessage, { type: "delta" }>;
+
+interface Client {
+  socket: WebSocket;
+  conversionIds: Set<string>;
+  // Whether the client answered the last ping.
+  alive: boolean;
+}
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function diffStates(previous: ConversionState | undefined, next: ConversionState): Partial<ConversionState> {
+  if (!previous) return next;
+  const changes: Partial<ConversionState> = {};
+  for (const key of Object.keys(next) as (keyof ConversionState)[]) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      Object.assign(changes, { [key]: next[key] });
+    }
+  }
+  return changes;
+}
+
+export function attachConversionSocket(server: Server, storage: NotifyingStorage) {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Set<Client>();
+  // What was last announced for each conversion still pending or rendering,
+  // to diff the next write against.
+  const states = new Map<string, ConversionState>();
+  const replay: Delta[] = [];
+  let eventId = 0;
+
+  // Other upgrades, such as Vite's HMR socket in development, are left to
+  // their own handlers.
+  server.on("upgrade", (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== conversionSocketPath) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws, req));
+  });
+
+  storage.subscribe(conversion => {
+    const state = conversionState(conversion);
+    const changes = diffStates(states.get(conversion.id), state);
+    // A settled conversion is forgotten; should it be retried, its next delta
+    // carries the whole state.
+    if (activeStatuses.includes(state.status)) states.set(conversion.id, state);
+    else states.delete(conversion.id);
+    if (Object.keys(changes).length === 0) return;
+
+    const delta: Delta = { type: "delta", eventId: ++eventId, conversionId: conversion.id, changes };
+    replay.push(delta);
+    if (replay.length > REPLAY_EVENTS) replay.shift();
+    clients.forEach(client => {
+      if (client.conversionIds.has(conversion.id)) send(client.socket, delta);
+    });
+  });
+
+  // Subscribes `client` to each conversion, replaying what it missed since
+  // `lastEventId` for those in `knownIds` when the buffer still reaches back
+  // that far, and sending a snapshot of the others.
+  async function subscribe(client: Client, conversionIds: string[], lastEventId?: number, knownIds: string[] = []) {
+    const oldest = replay.length > 0 ? replay[0].eventId : eventId + 1;
+    const resumable = lastEventId !== undefined && lastEventId <= eventId && lastEventId + 1 >= oldest;
+    const known = new Set(resumable ? knownIds : []);
+
+    const resumed = new Set<string>();
+    for (const conversionId of conversionIds) {
+      const conversion = await storage.getConversion(conversionId);
+      if (!conversion) {
+        send(client.socket, { type: "error", message: "Conversion not found", conversionId });
+        continue;
+      }
+      client.conversionIds.add(conversionId);
+      if (known.has(conversionId)) {
+        resumed.add(conversionId);
+      } else {
+        send(client.socket, { type: "snapshot", eventId, conversionId, state: conversionState(conversion) });
+      }
+    }
+    if (resumed.size > 0) {
+      for (const delta of replay) {
+        if (delta.eventId > lastEventId! && resumed.has(delta.conversionId)) send(client.socket, delta);
+      }
+    }
+  }
+
+  wss.on("connection", (socket: WebSocket) => {
+    const client: Client = { socket, conversionIds: new Set(), alive: true };
+    clients.add(client);
+
+    socket.on("pong", () => {
+      client.alive = true;
+    });
+    socket.on("message", data => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(data.toString());
+      } catch {
+        return send(socket, { type: "error", message: "Messages must be JSON" });
+      }
+      const message = clientMessageSchema.safeParse(parsed);
+      if (!message.success) {
+        return send(socket, { type: "error", message: "Invalid message" });
+      }
+
+      if (message.data.type === "subscribe") {
+        const { conversionIds, lastEventId, knownIds } = message.data;
+        subscribe(client, conversionIds, lastEventId, knownIds).catch(error => {
+          console.error("WebSocket subscribe error:", error);
+          send(socket, { type: "error", message: "Failed to subscribe" });
+        });
+      } else {
+        for (const conversionId of message.data.conversionIds) client.conversionIds.delete(conversionId);
+      }
+    });
+    socket.on("close", () => clients.delete(client));
+    socket.on("error", error => console.error("WebSocket error:", error));
+  });
+
+  // Clients that missed a ping are dropped; the heartbeat message lets the
+  // others notice a dead connection, which browsers can't see pings for.
+  const heartbeat = setInterval(() => {
+    clients.forEach(client => {
+      if (!client.alive) {
+        client.socket.terminate();
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+      send(client.socket, { type: "heartbeat" });
+    });
+  }, socketHeartbeatMs);
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
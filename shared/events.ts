@@ -0,0 +1,29 @@
+import { type Conversion } from "./schema";
+import { pipelineStages } from "./pipeline";
+import { conversionState } from "./ws";
+
+// A conversion as pushed to clients following its progress, with the parts
+// worth showing while it renders pulled out of the metadata.
+export interface ConversionSnapshot {
+  conversion: Conversion;
+  // Label of the pipeline stage being worked on, while processing.
+  stageLabel: string | null;
+  // Analysis results, as soon as the analyze stage has produced them.
+  bpm: number | null;
+  // E.g. "F# minor".
+  key: string | null;
+}
+
+// Statuses a conversion can still move on from by itself.
+export const activeStatuses: Conversion["status"][] = ["pending", "processing"];
+
+export function conversionSnapshot(conversion: Conversion): ConversionSnapshot {
+  const { stage, bpm, key } = conversionState(conversion);
+  const step = pipelineStages.find(candidate => candidate.id === stage);
+  return {
+    conversion,
+    stageLabel: conversion.status === "processing" && step ? step.label : null,
+    bpm,
+    key,
+  };
+}
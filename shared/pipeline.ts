@@ -0,0 +1,15 @@
+// Stages of the server-side drill render graph. The server reports the id of
+// the stage it is working on in `metadata.stage` and sets `progress` to the
+// stage's upper bound once it finishes, so the client can mirror real work.
+export const pipelineStages = [
+  { id: "decode", label: "Decoding audio", progress: 10 },
+  { id: "analyze", label: "Analyzing tempo and key", progress: 20 },
+  { id: "separate", label: "Separating drums and vocals", progress: 30 },
+  { id: "stretch", label: "Conforming tempo and key", progress: 40 },
+  { id: "drums", label: "Layering drums, 808s and atmosphere", progress: 50 },
+  { id: "effects", label: "Applying effects", progress: 70 },
+  { id: "mix", label: "Mixing and mastering", progress: 85 },
+  { id: "encode", label: "Encoding output", progress: 100 },
+] as const;
+
+export type PipelineStageId = (typeof pipelineStages)[number]["id"];
@@ -2,6 +2,7 @@ import { sql } from "drizzle-orm";
 import { pgTable, text, varchar, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { PipelineStageId } from "./pipeline";
 
 export const conversions = pgTable("conversions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -9,18 +10,250 @@ export const conversions = pgTable("conversions", {
   originalFilePath: text("original_file_path").notNull(),
   convertedFilePath: text("converted_file_path"),
   intensity: text("intensity", { enum: ["soft", "medium", "heavy"] }).notNull(),
-  status: text("status", { enum: ["pending", "processing", "completed", "failed"] }).notNull().default("pending"),
+  status: text("status", { enum: ["pending", "processing", "completed", "failed", "cancelled"] }).notNull().default("pending"),
   progress: integer("progress").notNull().default(0),
+  transposeSemitones: integer("transpose_semitones").notNull().default(0),
+  params: jsonb("params").$type<ConversionParams>().notNull(),
+  // Place among pending conversions, 1 being next to render; null once the
+  // conversion has left the queue.
+  queuePosition: integer("queue_position"),
+  // Renders started so far, retries included.
+  attempts: integer("attempts").notNull().default(0),
+  // Why the last attempt failed. A conversion waiting to be retried keeps it
+  // until the retry succeeds.
+  error: jsonb("error").$type<ConversionError>(),
+  // When a pending conversion is due to be retried after a failure.
+  retryAt: timestamp("retry_at"),
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
 });
 
-export const insertConversionSchema = createInsertSchema(conversions).omit({
+export const grooveIds = ["classic-uk", "ny-drill", "brooklyn-bounce"] as const;
+export type GrooveId = (typeof grooveIds)[number];
+export const grooveSchema = z.enum(grooveIds);
+
+// Target tempo accepted at upload, the same octave tempi are detected in.
+export const targetBpmSchema = z.coerce.number().min(100).max(200);
+
+// Loudness target accepted at upload, LUFS.
+export const targetLufsSchema = z.coerce.number().min(-24).max(-6);
+
+// What a render is made from beyond the source itself. Levels and amounts
+// run from 0 to 1.
+export const conversionParamsSchema = z.object({
+  // Level of the 808 in the mix, linear.
+  bassLevel: z.number().min(0).max(1),
+  // From sparse 8th-note hats to 16ths full of rolls.
+  hatDensity: z.number().min(0).max(1),
+  // How late odd 16ths land, as a share of a step; unset keeps the drum
+  // template's own swing.
+  swing: z.number().min(0).max(0.5).optional(),
+  // How far the vocal is pitched down, filtered, saturated and washed out.
+  vocalDarkness: z.number().min(0).max(1),
+  // Unset conforms the source to a tempo picked from the detected one.
+  targetBpm: targetBpmSchema.optional(),
+  targetLufs: targetLufsSchema,
+  groove: grooveSchema,
+  seed: z.number().int().min(0).max(0xffffffff),
+});
+
+export type ConversionParams = z.infer<typeof conversionParamsSchema>;
+
+export const insertConversionSchema = createInsertSchema(conversions, {
+  // Multipart fields arrive as strings.
+  transposeSemitones: z.coerce.number().int().min(-12).max(12).optional(),
+  params: conversionParamsSchema,
+}).omit({
   id: true,
   createdAt: true,
   completedAt: true,
+  attempts: true,
+  error: true,
+  retryAt: true,
 });
 
 export type InsertConversion = z.infer<typeof insertConversionSchema>;
 export type Conversion = typeof conversions.$inferSelect;
+export type Intensity = Conversion["intensity"];
+
+// Params each intensity starts from; the seed is picked per conversion.
+export const conversionPresets: Record<Intensity, Omit<ConversionParams, "seed">> = {
+  soft: { bassLevel: 0.4, hatDensity: 0.25, vocalDarkness: 0.2, targetLufs: -9, groove: "classic-uk" },
+  medium: { bassLevel: 0.6, hatDensity: 0.55, vocalDarkness: 0.55, targetLufs: -9, groove: "classic-uk" },
+  heavy: { bassLevel: 0.8, hatDensity: 0.9, vocalDarkness: 1, targetLufs: -9, groove: "classic-uk" },
+};
+
+// Shape of the free-form `metadata` column as written by the upload route and
+// the render pipeline.
+export interface ConversionMetadata {
+  fileSize?: number;
+  mimeType?: string;
+  stage?: PipelineStageId;
+  sampleRate?: number;
+  channels?: number;
+  durationSeconds?: number;
+  tempo?: TempoAnalysis;
+  // Detected key, e.g. "F#" and "minor".
+  key?: string;
+  mode?: KeyMode;
+  // The key in force from the start, then one entry per change.
+  keyChanges?: KeyChange[];
+  // Tempo the render plays at, requested in the params or picked by the
+  // pipeline from the detected tempo.
+  targetBpm?: number;
+  // Target over detected tempo; the source was time-stretched by the inverse.
+  // 1 when the source kept its own tempo.
+  stretchRatio?: number;
+  // Separated source stems, and the processed vocal, available for download.
+  stems?: StemId[];
+  // Measured on the mix before mastering and on the master.
+  loudness?: { input: LoudnessMeasurement; output: LoudnessMeasurement };
+  // Ducking of the source and 808 under the kick. Upload may set any of
+  // these; the pipeline fills in the rest from the intensity.
+  sidechain?: Partial<SidechainSettings>;
+  // The generated pads, bells and swells mixed under the source.
+  atmosphere?: AtmosphereSummary;
+  // Song structure found in the source, in source seconds. The arrangement
+  // of the generated layers follows it.
+  sections?: SongSection[];
+}
+
+export const conversionErrorCodes = [
+  // The upload is in a format or codec profile we can't decode.
+  "unsupported_audio",
+  // The upload looked like audio but is damaged.
+  "unreadable_audio",
+  // The upload decoded to no audio at all.
+  "decode_failed",
+  // The upload is gone from disk.
+  "upload_missing",
+  // Reading or writing files failed, e.g. a full disk.
+  "io_error",
+  // The worker thread rendering the conversion died.
+  "worker_crashed",
+  "render_failed",
+] as const;
+export type ConversionErrorCode = (typeof conversionErrorCodes)[number];
+
+export interface ConversionError {
+  code: ConversionErrorCode;
+  // Explanation for the user.
+  message: string;
+  // Stage the render had reached, if it started.
+  stage?: PipelineStageId;
+  // Whether the cause may be temporary, so the render is retried
+  // automatically.
+  retryable: boolean;
+}
+
+export const sectionLabels = ["intro", "verse", "hook", "outro"] as const;
+export type SectionLabel = (typeof sectionLabels)[number];
+
+export interface SongSection {
+  // Seconds.
+  start: number;
+  end: number;
+  label: SectionLabel;
+}
+
+export interface AtmosphereSummary {
+  // Level of the layer in the mix, linear.
+  amount: number;
+  // Chance that each step of a bell motif sounds.
+  bellDensity: number;
+  // Chance of a reverse swell into each section.
+  swellChance: number;
+  // Pad chords as roman numerals in the minor key, e.g. ["i", "VI"].
+  progression: string[];
+  // Seconds at which reverse swells land.
+  swells: number[];
+}
+
+export interface SidechainSettings {
+  attackMs: number;
+  releaseMs: number;
+  // Gain reduction at the kick's peak, dB.
+  depthDb: number;
+}
+
+// ITU-R BS.1770 / EBU R 128 measurements.
+export interface LoudnessMeasurement {
+  // Integrated loudness, LUFS.
+  integrated: number;
+  // Loudness range, LU.
+  range: number;
+  // True peak, dBTP.
+  truePeak: number;
+}
+
+export interface TempoAnalysis {
+  // Detected tempo, folded into the drill range. Drums and 808 follow it.
+  bpm: number;
+  // How strongly the source pulses at `bpm`, from 0 to 1.
+  confidence: number;
+  // Beats fall every `interval` seconds starting at `offset`.
+  beatGrid: { offset: number; interval: number };
+}
+
+// Sidechain overrides accepted at upload.
+export const sidechainSchema = z.object({
+  attackMs: z.coerce.number().min(0.1).max(100).optional(),
+  releaseMs: z.coerce.number().min(10).max(1000).optional(),
+  depthDb: z.coerce.number().min(0).max(24).optional(),
+});
+
+export const stemIds = ["harmonic", "percussive", "vocals"] as const;
+export type StemId = (typeof stemIds)[number];
+export const stemSchema = z.enum(stemIds);
+
+export const keyModes = ["major", "minor", "phrygian"] as const;
+export type KeyMode = (typeof keyModes)[number];
+
+export interface KeyChange {
+  // Seconds into the source.
+  start: number;
+  key: string;
+  mode: KeyMode;
+}
+
+export const outputFormats = ["wav", "mp3", "flac", "ogg"] as const;
+export type OutputFormat = (typeof outputFormats)[number];
+
+// MP3s are written as MPEG-1, which has only these three rates.
+export const mp3SampleRates = [32000, 44100, 48000];
+
+// Whether a format can be written at `sampleRate`. A FLAC frame header (Ogg
+// downloads are Ogg FLAC) carries any rate below 65536 Hz, and higher ones in
+// whole kHz or tens of Hz.
+export function supportsSampleRate(format: OutputFormat, sampleRate: number): boolean {
+  switch (format) {
+    case "wav":
+      return true;
+    case "mp3":
+      return mp3SampleRates.includes(sampleRate);
+    case "flac":
+    case "ogg":
+      return sampleRate < 65536 || sampleRate % 10 === 0;
+  }
+}
+
+// Query accepted by `GET /api/download/:id`. Lossless formats default to
+// 24-bit; 32-bit means IEEE float and is only available as WAV. The sample
+// rate must be one the format can be written at.
+export const downloadOptionsSchema = z
+  .object({
+    format: z.enum(outputFormats).default("mp3"),
+    bitDepth: z.coerce.number().pipe(z.union([z.literal(16), z.literal(24), z.literal(32)])).optional(),
+    sampleRate: z.coerce.number().int().min(8000).max(192000).optional(),
+  })
+  .refine(options => options.bitDepth !== 32 || options.format === "wav", {
+    message: "32-bit output is only available as WAV",
+    path: ["bitDepth"],
+  })
+  .refine(options => options.sampleRate === undefined || supportsSampleRate(options.format, options.sampleRate), {
+    message: "The format can't be written at this sample rate",
+    path: ["sampleRate"],
+  });
+
+export type DownloadOptions = z.infer<typeof downloadOptionsSchema>;
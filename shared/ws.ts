@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { type Conversion, type ConversionError, type ConversionMetadata } from "./schema";
+import { type PipelineStageId } from "./pipeline";
+
+// Messages on the `/ws` socket. A client subscribes to any number of
+// conversions and gets a snapshot of each, then deltas as they change. Every
+// snapshot and delta carries an event id that increases across the server; a
+// client that reconnects sends the last one it saw and the conversions it
+// already knows, and has what it missed replayed, or fresh snapshots when the
+// server can't reach back that far or it never had the conversion.
+
+export const conversionSocketPath = "/ws";
+// The server sends a heartbeat this often; a client that hears nothing for
+// two intervals should assume the connection is gone.
+export const socketHeartbeatMs = 20000;
+
+// What a subscriber sees of a conversion.
+export interface ConversionState {
+  status: Conversion["status"];
+  progress: number;
+  queuePosition: number | null;
+  stage: PipelineStageId | null;
+  error: ConversionError | null;
+  bpm: number | null;
+  key: string | null;
+}
+
+export function conversionState(conversion: Conversion): ConversionState {
+  const metadata = conversion.metadata as ConversionMetadata | null;
+  return {
+    status: conversion.status,
+    progress: conversion.progress,
+    queuePosition: conversion.queuePosition,
+    stage: metadata?.stage ?? null,
+    error: conversion.error,
+    bpm: metadata?.tempo?.bpm ?? null,
+    key: metadata?.key && metadata.mode ? `${metadata.key} ${metadata.mode}` : null,
+  };
+}
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("subscribe"),
+    conversionIds: z.array(z.string()).min(1).max(100),
+    // The last event id the client saw, when resuming after a reconnect.
+    lastEventId: z.number().int().min(0).optional(),
+    // When resuming, the subscribed ids the client already holds state for.
+    // Only these have their missed deltas replayed; the rest get a snapshot.
+    knownIds: z.array(z.string()).max(100).optional(),
+  }),
+  z.object({
+    type: z.literal("unsubscribe"),
+    conversionIds: z.array(z.string()).min(1).max(100),
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type ServerMessage =
+  | { type: "snapshot"; eventId: number; conversionId: string; state: ConversionState }
+  | { type: "delta"; eventId: number; conversionId: string; changes: Partial<ConversionState> }
+  | { type: "heartbeat" }
+  // A message the server couldn't act on; `conversionId` names an unknown
+  // conversion.
+  | { type: "error"; message: string; conversionId?: string };